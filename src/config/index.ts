@@ -17,6 +17,10 @@ const configSchema = z.object({
     url: z.string().url().default('http://localhost:6333'),
     apiKey: z.string().optional(),
     collectionName: z.string().default('advanced_rag_demo'),
+    // client: BM25 + RRF in process; native: sparse vectors fused by Qdrant's query API
+    hybridMode: z.enum(['client', 'native']).default('client'),
+    fusion: z.enum(['rrf', 'dbsf']).default('rrf'),
+    sparseAverageLength: z.number().default(64),
   }),
   server: z.object({
     port: z.number().default(3000),
@@ -25,9 +29,58 @@ const configSchema = z.object({
   rag: z.object({
     chunkSize: z.number().default(512),
     chunkOverlap: z.number().default(128),
+    chunkingStrategy: z
+      .enum(['adaptive', 'recursive', 'token', 'markdown', 'code', 'embedding'])
+      .default('adaptive'),
+    // embedding strategy: split where neighbor similarity falls into the lowest percentiles
+    semanticBreakpointPercentile: z.number().default(95),
+    semanticMinChunkSize: z.number().default(100),
     topK: z.number().default(10),
     rerankTopK: z.number().default(3),
     hybridSearchAlpha: z.number().default(0.5),
+    bm25K1: z.number().default(1.2),
+    bm25B: z.number().default(0.75),
+    // How long the in-process BM25 index is trusted before it is rebuilt from Qdrant
+    keywordIndexRefreshMs: z.number().default(60000),
+    queryExpansion: z.enum(['none', 'dictionary', 'llm', 'hyde']).default('dictionary'),
+    queryDecomposition: z.boolean().default(false),
+    maxSubQueries: z.number().default(4),
+    mmr: z.enum(['off', 'before-rerank', 'after-rerank']).default('off'),
+    mmrLambda: z.number().default(0.7),
+    mmrTopK: z.number().default(5),
+    contextExpansion: z.enum(['off', 'neighbors', 'document']).default('off'),
+    contextWindow: z.number().default(1),
+    contextMaxTokens: z.number().default(3000),
+  }),
+  conversation: z.object({
+    store: z.enum(['memory', 'file']).default('memory'),
+    storePath: z.string().default('./data/conversations'),
+    maxTurns: z.number().default(20),
+  }),
+  ingestion: z.object({
+    // Content hash, mtime and chunk ids of every ingested file
+    manifestPath: z.string().default('./data/ingestion-manifest.json'),
+    // Near-duplicate chunks: report them, drop them, or merge their sources into the first copy
+    dedupPolicy: z.enum(['off', 'report', 'drop', 'merge']).default('off'),
+    // Share of word 3-grams two chunks must have in common to count as duplicates
+    dedupThreshold: z.number().min(0.5).max(1).default(0.8),
+    // Watch the documents directory from the server process
+    watch: z.boolean().default(false),
+    watchPath: z.string().default('./documents'),
+    watchDebounceMs: z.number().default(1000),
+  }),
+  crawl: z.object({
+    // Validators, links and chunk ids of every crawled page
+    manifestPath: z.string().default('./data/crawl-manifest.json'),
+    maxDepth: z.number().default(3),
+    maxPages: z.number().default(200),
+    userAgent: z.string().default('AdvancedRAGCrawler/1.0'),
+    // Minimum pause between requests; a longer robots.txt Crawl-delay wins
+    delayMs: z.number().default(0),
+  }),
+  git: z.object({
+    // Last ingested commit of every repository, and chunk ids of their files
+    manifestPath: z.string().default('./data/git-manifest.json'),
   }),
   mockMode: z.boolean().default(false),
 });
@@ -46,6 +99,9 @@ const rawConfig = {
     url: process.env.QDRANT_URL,
     apiKey: process.env.QDRANT_API_KEY,
     collectionName: process.env.QDRANT_COLLECTION_NAME,
+    hybridMode: process.env.QDRANT_HYBRID_MODE as any,
+    fusion: process.env.QDRANT_FUSION as any,
+    sparseAverageLength: parseInt(process.env.SPARSE_AVG_DOC_LENGTH || '64', 10),
   },
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
@@ -54,9 +110,47 @@ const rawConfig = {
   rag: {
     chunkSize: parseInt(process.env.CHUNK_SIZE || '512', 10),
     chunkOverlap: parseInt(process.env.CHUNK_OVERLAP || '128', 10),
+    chunkingStrategy: process.env.CHUNKING_STRATEGY as any,
+    semanticBreakpointPercentile: parseFloat(process.env.SEMANTIC_BREAKPOINT_PERCENTILE || '95'),
+    semanticMinChunkSize: parseInt(process.env.SEMANTIC_MIN_CHUNK_SIZE || '100', 10),
     topK: parseInt(process.env.TOP_K || '10', 10),
     rerankTopK: parseInt(process.env.RERANK_TOP_K || '3', 10),
     hybridSearchAlpha: parseFloat(process.env.HYBRID_SEARCH_ALPHA || '0.5'),
+    bm25K1: parseFloat(process.env.BM25_K1 || '1.2'),
+    bm25B: parseFloat(process.env.BM25_B || '0.75'),
+    keywordIndexRefreshMs: parseInt(process.env.KEYWORD_INDEX_REFRESH_MS || '60000', 10),
+    queryExpansion: process.env.QUERY_EXPANSION as any,
+    queryDecomposition: process.env.QUERY_DECOMPOSITION === 'true',
+    maxSubQueries: parseInt(process.env.MAX_SUB_QUERIES || '4', 10),
+    mmr: process.env.MMR as any,
+    mmrLambda: parseFloat(process.env.MMR_LAMBDA || '0.7'),
+    mmrTopK: parseInt(process.env.MMR_TOP_K || '5', 10),
+    contextExpansion: process.env.CONTEXT_EXPANSION as any,
+    contextWindow: parseInt(process.env.CONTEXT_WINDOW || '1', 10),
+    contextMaxTokens: parseInt(process.env.CONTEXT_MAX_TOKENS || '3000', 10),
+  },
+  conversation: {
+    store: process.env.CONVERSATION_STORE as any,
+    storePath: process.env.CONVERSATION_STORE_PATH,
+    maxTurns: parseInt(process.env.CONVERSATION_MAX_TURNS || '20', 10),
+  },
+  ingestion: {
+    manifestPath: process.env.INGESTION_MANIFEST_PATH,
+    dedupPolicy: process.env.DEDUP_POLICY as any,
+    dedupThreshold: parseFloat(process.env.DEDUP_THRESHOLD || '0.8'),
+    watch: process.env.WATCH_DOCUMENTS === 'true',
+    watchPath: process.env.WATCH_DOCUMENTS_PATH,
+    watchDebounceMs: parseInt(process.env.WATCH_DEBOUNCE_MS || '1000', 10),
+  },
+  crawl: {
+    manifestPath: process.env.CRAWL_MANIFEST_PATH,
+    maxDepth: parseInt(process.env.CRAWL_MAX_DEPTH || '3', 10),
+    maxPages: parseInt(process.env.CRAWL_MAX_PAGES || '200', 10),
+    userAgent: process.env.CRAWL_USER_AGENT,
+    delayMs: parseInt(process.env.CRAWL_DELAY_MS || '0', 10),
+  },
+  git: {
+    manifestPath: process.env.GIT_MANIFEST_PATH,
   },
   mockMode: process.env.MOCK_MODE === 'true' || 
              (!process.env.OPENAI_API_KEY || !process.env.COHERE_API_KEY),
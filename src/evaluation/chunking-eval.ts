@@ -0,0 +1,155 @@
+import { Document } from 'langchain/document';
+import { config } from '../config/index.js';
+import { sampleDocuments } from '../ingestion/ingest.js';
+import {
+  ChunkingPipeline,
+  ChunkingStrategyName,
+  chunkingStrategies,
+  createChunkingStrategy,
+} from '../lib/chunking.js';
+import { AdvancedEmbeddings } from '../lib/embeddings.js';
+import { MockEmbeddings } from '../lib/mock/mockServices.js';
+import { cosineSimilarity } from '../lib/mmr.js';
+import { EvaluationQuestion, sampleQuestions } from './dataset.js';
+
+export interface StrategyReport {
+  strategy: ChunkingStrategyName;
+  chunks: number;
+  averageChunkSize: number;
+  /** Share of questions whose answer ends up whole inside a single chunk. */
+  answerCoverage: number;
+  /** Share of questions with a relevant chunk in the top K. */
+  hitRate: number;
+  /** Mean reciprocal rank of the first relevant chunk within the top K. */
+  mrr: number;
+  chunkingTime: number;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function isRelevant(chunk: Document, question: EvaluationQuestion): boolean {
+  return (
+    chunk.metadata.source === question.source &&
+    normalize(chunk.pageContent).includes(normalize(question.answer))
+  );
+}
+
+async function embedChunks(
+  embeddings: AdvancedEmbeddings | MockEmbeddings,
+  chunks: Document[]
+): Promise<number[][]> {
+  if (embeddings instanceof MockEmbeddings) {
+    return embeddings.embedDocuments(chunks.map(chunk => chunk.pageContent));
+  }
+  // Same metadata-enriched texts as ingestion embeds
+  return embeddings.embedDocuments(chunks);
+}
+
+/**
+ * Chunks the documents with one strategy and ranks the chunks for every
+ * question by cosine similarity. Retrieval is vector-only, so differences
+ * come from the chunk boundaries rather than keyword matching or reranking.
+ */
+export async function evaluateStrategy(
+  strategy: ChunkingStrategyName,
+  documents: Array<{ content: string; metadata?: Record<string, any> }>,
+  questions: EvaluationQuestion[],
+  embeddings: AdvancedEmbeddings | MockEmbeddings,
+  topK: number = 5
+): Promise<StrategyReport> {
+  const chunkingStart = Date.now();
+  // Duplicates stay in, so every strategy is scored on the same text
+  const pipeline = new ChunkingPipeline(createChunkingStrategy(strategy, { embeddings }), {
+    dedup: 'off',
+  });
+  const chunks = await pipeline.processDocuments(documents);
+  const chunkingTime = Date.now() - chunkingStart;
+
+  const chunkVectors = await embedChunks(embeddings, chunks);
+  let covered = 0;
+  let hits = 0;
+  let reciprocalRanks = 0;
+
+  for (const question of questions) {
+    if (chunks.some(chunk => isRelevant(chunk, question))) covered++;
+
+    const queryVector = await embeddings.embedQuery(question.question);
+    const ranked = chunks
+      .map((chunk, i) => ({ chunk, score: cosineSimilarity(queryVector, chunkVectors[i]) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+
+    const rank = ranked.findIndex(({ chunk }) => isRelevant(chunk, question));
+    if (rank >= 0) {
+      hits++;
+      reciprocalRanks += 1 / (rank + 1);
+    }
+  }
+
+  const totalSize = chunks.reduce((sum, chunk) => sum + chunk.pageContent.length, 0);
+  return {
+    strategy,
+    chunks: chunks.length,
+    averageChunkSize: chunks.length > 0 ? Math.round(totalSize / chunks.length) : 0,
+    answerCoverage: covered / questions.length,
+    hitRate: hits / questions.length,
+    mrr: reciprocalRanks / questions.length,
+    chunkingTime,
+  };
+}
+
+async function runEvaluation(strategies: ChunkingStrategyName[], topK: number): Promise<void> {
+  console.log(
+    `🧪 Evaluating ${strategies.length} chunking strategies on ${sampleQuestions.length} ` +
+      `questions (top ${topK})...`
+  );
+  if (config.mockMode) {
+    console.log('⚠️  Mock embeddings are not semantic; hit rate and MRR are only a smoke test');
+  }
+
+  const embeddings = config.mockMode ? new MockEmbeddings() : new AdvancedEmbeddings();
+  const reports: StrategyReport[] = [];
+
+  for (const strategy of strategies) {
+    try {
+      console.log(`✂️ ${strategy}`);
+      reports.push(
+        await evaluateStrategy(strategy, sampleDocuments, sampleQuestions, embeddings, topK)
+      );
+    } catch (error) {
+      console.warn(`⚠️ Skipping strategy ${strategy}: ${error}`);
+    }
+  }
+
+  console.table(
+    reports.map(report => ({
+      strategy: report.strategy,
+      chunks: report.chunks,
+      'avg size': report.averageChunkSize,
+      coverage: report.answerCoverage.toFixed(2),
+      [`hit@${topK}`]: report.hitRate.toFixed(2),
+      mrr: report.mrr.toFixed(3),
+      'chunking ms': report.chunkingTime,
+    }))
+  );
+}
+
+// Run evaluation if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const option = (name: string) => args.find(arg => arg.startsWith(`--${name}=`))?.split('=')[1];
+
+  const strategies = (option('strategies')?.split(',') ??
+    chunkingStrategies) as ChunkingStrategyName[];
+  const unknown = strategies.filter(strategy => !chunkingStrategies.includes(strategy));
+  if (unknown.length > 0) {
+    console.error(
+      `❌ Unknown chunking strategy "${unknown[0]}". Use one of: ${chunkingStrategies.join(', ')}`
+    );
+    process.exit(1);
+  }
+
+  runEvaluation(strategies, parseInt(option('top-k') || '5', 10));
+}
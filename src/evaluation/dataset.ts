@@ -0,0 +1,71 @@
+export interface EvaluationQuestion {
+  question: string;
+  /** Source of the document that answers the question. */
+  source: string;
+  /** Passage a chunk must contain in full to count as relevant. */
+  answer: string;
+}
+
+/** Questions about the sample documents in src/ingestion/ingest.ts. */
+export const sampleQuestions: EvaluationQuestion[] = [
+  {
+    question: 'How can route-based code splitting be implemented in React?',
+    source: 'performance-guide.md',
+    answer: 'React.lazy() and Suspense',
+  },
+  {
+    question: 'Which image formats compress better than JPEG and PNG?',
+    source: 'performance-guide.md',
+    answer: 'WebP, AVIF provide 25-35% better compression',
+  },
+  {
+    question: 'How do I fix N+1 database queries?',
+    source: 'performance-guide.md',
+    answer: 'Optimize N+1 queries with eager loading',
+  },
+  {
+    question: 'Which algorithms can a load balancer use to distribute traffic?',
+    source: 'performance-guide.md',
+    answer: 'round-robin, least connections, or IP hash',
+  },
+  {
+    question: 'How are distributed transactions handled when every service has its own database?',
+    source: 'microservices-guide.md',
+    answer: 'Saga pattern',
+  },
+  {
+    question: 'Which message queues support event-driven communication between services?',
+    source: 'microservices-guide.md',
+    answer: 'RabbitMQ, Kafka',
+  },
+  {
+    question: 'What does an API gateway take care of?',
+    source: 'microservices-guide.md',
+    answer: 'authentication, rate limiting, and monitoring',
+  },
+  {
+    question: 'Which tools can visualize distributed traces?',
+    source: 'microservices-guide.md',
+    answer: 'Jaeger or Zipkin',
+  },
+  {
+    question: 'How can models be made small enough for edge devices?',
+    source: 'ml-production.md',
+    answer: 'quantization and pruning',
+  },
+  {
+    question: 'Which tools track model versions alongside code?',
+    source: 'ml-production.md',
+    answer: 'DVC or MLflow',
+  },
+  {
+    question: 'How do I detect data drift in production?',
+    source: 'ml-production.md',
+    answer: 'statistical tests for distribution comparison',
+  },
+  {
+    question: 'How can GPU utilization be improved during inference?',
+    source: 'ml-production.md',
+    answer: 'Batch requests for efficient GPU utilization',
+  },
+];
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { parseCrawlArgs, parseGitArgs, parseIngestArgs } from './cli.js';
+
+describe('parseIngestArgs', () => {
+  it('should read the path, repeatable flags and both value forms', () => {
+    const options = parseIngestArgs([
+      './handbook',
+      '--include=docs/**/*.md',
+      '--include',
+      '*.pdf',
+      '--exclude=drafts/',
+      '--meta',
+      'category=security',
+      '--meta=owner=platform=team',
+      '--strategy=markdown',
+      '--chunk-size=800',
+      '--chunk-overlap=0',
+      '--collection=security-docs',
+      '--concurrency=4',
+      '--dedup=merge',
+      '--dry-run',
+      '--report=reports/ingest.json',
+    ]);
+
+    expect(options).toEqual({
+      documentsPath: './handbook',
+      include: ['docs/**/*.md', '*.pdf'],
+      exclude: ['drafts/'],
+      metadata: { category: 'security', owner: 'platform=team' },
+      strategy: 'markdown',
+      chunkSize: 800,
+      chunkOverlap: 0,
+      collection: 'security-docs',
+      concurrency: 4,
+      dedup: 'merge',
+      full: false,
+      watch: false,
+      dryRun: true,
+      report: 'reports/ingest.json',
+      help: false,
+    });
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => parseIngestArgs(['--strategy=magic'])).toThrow('Unknown chunking strategy');
+    expect(() => parseIngestArgs(['--chunk-size=big'])).toThrow('positive whole number');
+    expect(() => parseIngestArgs(['--chunk-size=100', '--chunk-overlap=100'])).toThrow(
+      'smaller than'
+    );
+    expect(() => parseIngestArgs(['--meta', 'security'])).toThrow('key=value');
+    expect(() => parseIngestArgs(['--include'])).toThrow('needs a value');
+    expect(() => parseIngestArgs(['--dedup=ignore'])).toThrow('Unknown dedup policy');
+    expect(() => parseIngestArgs(['--verbose'])).toThrow('Unknown option --verbose');
+    expect(() => parseIngestArgs(['--dry-run', '--watch'])).toThrow('cannot be combined');
+  });
+});
+
+describe('parseCrawlArgs', () => {
+  it('should read the start URL and crawl limits', () => {
+    const options = parseCrawlArgs([
+      'https://docs.example.com/',
+      '--depth',
+      '0',
+      '--max-pages=50',
+      '--strategy=markdown',
+      '--full',
+    ]);
+
+    expect(options).toEqual({
+      startUrl: 'https://docs.example.com/',
+      maxDepth: 0,
+      maxPages: 50,
+      strategy: 'markdown',
+      full: true,
+      help: false,
+    });
+    expect(parseCrawlArgs(['--help'])).toEqual({ full: false, help: true });
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => parseCrawlArgs([])).toThrow('http:// or https:// URL');
+    expect(() => parseCrawlArgs(['docs.example.com'])).toThrow('http:// or https:// URL');
+    expect(() => parseCrawlArgs(['https://a.example.com', '--depth=-1'])).toThrow(
+      'positive whole number'
+    );
+    expect(() => parseCrawlArgs(['https://a.example.com', '--max-pages=ten'])).toThrow(
+      'positive whole number'
+    );
+    expect(() => parseCrawlArgs(['https://a.example.com', '--dry-run'])).toThrow(
+      'Unknown option --dry-run'
+    );
+  });
+});
+
+describe('parseGitArgs', () => {
+  it('should read the repository path and keep values with equals signs', () => {
+    const options = parseGitArgs([
+      '../platform-docs',
+      '--ref=release/v2=rc1',
+      '--name',
+      'platform',
+      '--strategy=code',
+      '--full',
+    ]);
+
+    expect(options).toEqual({
+      repoPath: '../platform-docs',
+      ref: 'release/v2=rc1',
+      name: 'platform',
+      strategy: 'code',
+      full: true,
+      help: false,
+    });
+    expect(parseGitArgs(['--help'])).toEqual({ full: false, help: true });
+  });
+
+  it('should reject invalid input', () => {
+    expect(() => parseGitArgs([])).toThrow('path of a git repository');
+    expect(() => parseGitArgs(['repo', 'other'])).toThrow('Unexpected argument "other"');
+    expect(() => parseGitArgs(['repo', '--ref'])).toThrow('--ref needs a value');
+    expect(() => parseGitArgs(['repo', '--strategy=lines'])).toThrow('Unknown chunking strategy');
+    expect(() => parseGitArgs(['repo', '--branch=main'])).toThrow('Unknown option --branch');
+  });
+});
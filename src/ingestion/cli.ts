@@ -0,0 +1,315 @@
+import { ChunkingStrategyName, chunkingStrategies } from '../lib/chunking.js';
+import { DedupPolicy, dedupPolicies } from '../lib/dedup.js';
+
+/** Options of `npm run ingest:files`. */
+export interface IngestCliOptions {
+  documentsPath?: string;
+  include: string[];
+  exclude: string[];
+  strategy?: ChunkingStrategyName;
+  chunkSize?: number;
+  chunkOverlap?: number;
+  metadata: Record<string, string>;
+  collection?: string;
+  concurrency?: number;
+  dedup?: DedupPolicy;
+  full: boolean;
+  watch: boolean;
+  dryRun: boolean;
+  /** Where to write the JSON report. */
+  report?: string;
+  help: boolean;
+}
+
+export const INGEST_USAGE = `Usage: npm run ingest:files -- [documents path] [options]
+
+Options:
+  --include=<glob>        Only ingest matching files (repeatable, .gitignore syntax)
+  --exclude=<glob>        Skip matching files (repeatable)
+  --strategy=<name>       Chunking strategy: ${chunkingStrategies.join(', ')}
+  --chunk-size=<n>        Chunk size (default CHUNK_SIZE or 512)
+  --chunk-overlap=<n>     Chunk overlap (default CHUNK_OVERLAP or 128)
+  --meta <key>=<value>    Metadata added to every chunk (repeatable)
+  --collection=<name>     Qdrant collection to ingest into
+  --concurrency=<n>       Files loaded and embedded in parallel (default 1)
+  --dedup=<policy>        Near-duplicate chunks: ${dedupPolicies.join(', ')} (default DEDUP_POLICY)
+  --full                  Re-ingest every file, replacing its chunks
+  --watch                 Keep syncing as files change
+  --dry-run               Report chunks, tokens and embedding cost without writing
+  --report=<file>         Write a JSON report of the run
+  --help                  Show this help`;
+
+/** Options of `npm run ingest:crawl`. */
+export interface CrawlCliOptions {
+  startUrl?: string;
+  maxDepth?: number;
+  maxPages?: number;
+  strategy?: ChunkingStrategyName;
+  full: boolean;
+  help: boolean;
+}
+
+export const CRAWL_USAGE = `Usage: npm run ingest:crawl -- <url or sitemap.xml url> [options]
+
+Options:
+  --depth=<n>             Link depth followed from the start page (default CRAWL_MAX_DEPTH or 3)
+  --max-pages=<n>         Pages fetched at most (default CRAWL_MAX_PAGES or 200)
+  --strategy=<name>       Chunking strategy: ${chunkingStrategies.join(', ')}
+  --full                  Fetch and re-ingest every page, ignoring ETags
+  --help                  Show this help`;
+
+/** Options of `npm run ingest:git`. */
+export interface GitCliOptions {
+  repoPath?: string;
+  ref?: string;
+  name?: string;
+  strategy?: ChunkingStrategyName;
+  full: boolean;
+  help: boolean;
+}
+
+export const GIT_USAGE = `Usage: npm run ingest:git -- <repository path> [options]
+
+Options:
+  --ref=<ref>             Branch, tag or commit to ingest (default HEAD)
+  --name=<name>           Repository name in sources and metadata (default its directory name)
+  --strategy=<name>       Chunking strategy: ${chunkingStrategies.join(', ')}
+  --full                  Re-ingest every file, ignoring the last ingested commit
+  --help                  Show this help`;
+
+/** Flags a command accepts, without the leading dashes. */
+interface FlagSpec {
+  boolean: string[];
+  value: string[];
+}
+
+const INGEST_FLAGS: FlagSpec = {
+  boolean: ['full', 'watch', 'dry-run', 'help'],
+  value: [
+    'include',
+    'exclude',
+    'strategy',
+    'chunk-size',
+    'chunk-overlap',
+    'meta',
+    'collection',
+    'concurrency',
+    'dedup',
+    'report',
+  ],
+};
+
+const CRAWL_FLAGS: FlagSpec = {
+  boolean: ['full', 'help'],
+  value: ['depth', 'max-pages', 'strategy'],
+};
+
+const GIT_FLAGS: FlagSpec = {
+  boolean: ['full', 'help'],
+  value: ['ref', 'name', 'strategy'],
+};
+
+interface ParsedArgs {
+  positionals: string[];
+  flags: Set<string>;
+  // In the order given, so repeatable flags keep every value
+  values: Array<{ flag: string; value: string }>;
+}
+
+/**
+ * Splits command line arguments into positionals, boolean flags and flag
+ * values. Value flags take `--flag=value` or `--flag value`.
+ */
+function splitArgs(args: string[], spec: FlagSpec): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], flags: new Set(), values: [] };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith('--')) {
+      parsed.positionals.push(arg);
+      continue;
+    }
+
+    const equals = arg.indexOf('=');
+    const flag = equals < 0 ? arg.slice(2) : arg.slice(2, equals);
+
+    if (spec.boolean.includes(flag)) {
+      if (equals >= 0) throw new Error(`--${flag} does not take a value`);
+      parsed.flags.add(flag);
+      continue;
+    }
+    if (!spec.value.includes(flag)) throw new Error(`Unknown option --${flag}`);
+
+    const value = equals < 0 ? args[++i] : arg.slice(equals + 1);
+    if (value === undefined || value === '') throw new Error(`--${flag} needs a value`);
+    parsed.values.push({ flag, value: value.trim() });
+  }
+
+  return parsed;
+}
+
+function positiveInteger(flag: string, value: string): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new Error(`--${flag} must be a positive whole number, got "${value}"`);
+  }
+  return number;
+}
+
+function strategyName(value: string): ChunkingStrategyName {
+  if (!chunkingStrategies.includes(value as ChunkingStrategyName)) {
+    throw new Error(
+      `Unknown chunking strategy "${value}". Use one of: ${chunkingStrategies.join(', ')}`
+    );
+  }
+  return value as ChunkingStrategyName;
+}
+
+/**
+ * Parses `ingest:files` arguments. Invalid input throws with a message meant
+ * for the user.
+ */
+export function parseIngestArgs(args: string[]): IngestCliOptions {
+  const { positionals, flags, values } = splitArgs(args, INGEST_FLAGS);
+  if (positionals.length > 1) throw new Error(`Unexpected argument "${positionals[1]}"`);
+
+  const options: IngestCliOptions = {
+    ...(positionals.length > 0 && { documentsPath: positionals[0] }),
+    include: [],
+    exclude: [],
+    metadata: {},
+    full: flags.has('full'),
+    watch: flags.has('watch'),
+    dryRun: flags.has('dry-run'),
+    help: flags.has('help'),
+  };
+
+  for (const { flag, value } of values) {
+    switch (flag) {
+      case 'include':
+      case 'exclude':
+        options[flag].push(value);
+        break;
+      case 'strategy':
+        options.strategy = strategyName(value);
+        break;
+      case 'chunk-size':
+        options.chunkSize = positiveInteger(flag, value);
+        break;
+      case 'chunk-overlap':
+        // Zero overlap is allowed
+        options.chunkOverlap = value === '0' ? 0 : positiveInteger(flag, value);
+        break;
+      case 'concurrency':
+        options.concurrency = positiveInteger(flag, value);
+        break;
+      case 'meta': {
+        const separator = value.indexOf('=');
+        const key = value.slice(0, separator).trim();
+        if (separator < 0 || !key) {
+          throw new Error(`--meta expects key=value, got "${value}"`);
+        }
+        options.metadata[key] = value.slice(separator + 1).trim();
+        break;
+      }
+      case 'dedup':
+        if (!dedupPolicies.includes(value as DedupPolicy)) {
+          throw new Error(
+            `Unknown dedup policy "${value}". Use one of: ${dedupPolicies.join(', ')}`
+          );
+        }
+        options.dedup = value as DedupPolicy;
+        break;
+      case 'collection':
+        options.collection = value;
+        break;
+      case 'report':
+        options.report = value;
+        break;
+    }
+  }
+
+  if (
+    options.chunkSize !== undefined &&
+    options.chunkOverlap !== undefined &&
+    options.chunkOverlap >= options.chunkSize
+  ) {
+    throw new Error('--chunk-overlap must be smaller than --chunk-size');
+  }
+  if (options.dryRun && options.watch) {
+    throw new Error('--dry-run cannot be combined with --watch');
+  }
+
+  return options;
+}
+
+/**
+ * Parses `ingest:crawl` arguments. Invalid input throws with a message meant
+ * for the user.
+ */
+export function parseCrawlArgs(args: string[]): CrawlCliOptions {
+  const { positionals, flags, values } = splitArgs(args, CRAWL_FLAGS);
+  if (positionals.length > 1) throw new Error(`Unexpected argument "${positionals[1]}"`);
+
+  const options: CrawlCliOptions = {
+    ...(positionals.length > 0 && { startUrl: positionals[0] }),
+    full: flags.has('full'),
+    help: flags.has('help'),
+  };
+
+  for (const { flag, value } of values) {
+    switch (flag) {
+      case 'depth':
+        // Depth 0 only ingests the start page or the sitemap's pages
+        options.maxDepth = value === '0' ? 0 : positiveInteger(flag, value);
+        break;
+      case 'max-pages':
+        options.maxPages = positiveInteger(flag, value);
+        break;
+      case 'strategy':
+        options.strategy = strategyName(value);
+        break;
+    }
+  }
+
+  if (!options.help && !/^https?:\/\//.test(options.startUrl ?? '')) {
+    throw new Error('Expected an http:// or https:// URL to start from');
+  }
+
+  return options;
+}
+
+/**
+ * Parses `ingest:git` arguments. Invalid input throws with a message meant
+ * for the user.
+ */
+export function parseGitArgs(args: string[]): GitCliOptions {
+  const { positionals, flags, values } = splitArgs(args, GIT_FLAGS);
+  if (positionals.length > 1) throw new Error(`Unexpected argument "${positionals[1]}"`);
+
+  const options: GitCliOptions = {
+    ...(positionals.length > 0 && { repoPath: positionals[0] }),
+    full: flags.has('full'),
+    help: flags.has('help'),
+  };
+
+  for (const { flag, value } of values) {
+    switch (flag) {
+      case 'ref':
+        options.ref = value;
+        break;
+      case 'name':
+        options.name = value;
+        break;
+      case 'strategy':
+        options.strategy = strategyName(value);
+        break;
+    }
+  }
+
+  if (!options.help && !options.repoPath) {
+    throw new Error('Expected the path of a git repository');
+  }
+
+  return options;
+}
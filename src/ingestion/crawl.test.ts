@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { gzipSync } from 'zlib';
+import { AddressInfo } from 'net';
+import { WebCrawler, normalizeUrl, parseSitemap } from './crawl.js';
+import { RecordingSink } from './recordingSink.js';
+
+const page = (title: string, body: string) =>
+  `<html><head><title>${title}</title></head><body>` +
+  `<nav><a href="/">Home</a> <a href="/guide">Guide</a></nav><main>${body}</main></body></html>`;
+
+describe('WebCrawler', () => {
+  let server: http.Server;
+  let site: Record<string, string | Buffer>;
+  let requests: string[];
+  let baseUrl: string;
+  let sink: RecordingSink;
+  const crawler = (options = {}) =>
+    new WebCrawler(`${baseUrl}/`, sink, { persistManifest: false, ...options });
+
+  beforeEach(async () => {
+    site = {
+      '/robots.txt': 'User-agent: *\nDisallow: /private\n',
+      '/': page('Docs', '<h1>Docs</h1><p>Start with the <a href="/guide#setup">guide</a>.</p>'),
+      '/guide': page('Guide', '<h1>Guide</h1><p>See <a href="/guide/deep">details</a>.</p>'),
+      '/guide/deep': page('Deep', '<p>Go <a href="/guide/deeper">deeper</a>.</p>'),
+      '/guide/deeper': page('Deeper', '<p>Too far down.</p>'),
+      '/private': page('Private', '<p>Secret.</p>'),
+      '/about': page('About', '<p>Only in the sitemap. <a href="/private">Private</a></p>'),
+      '/sitemap.xml':
+        '<?xml version="1.0"?><urlset><url><loc>BASE/about</loc></url>' +
+        '<url><loc>https://elsewhere.example.com/</loc></url></urlset>',
+    };
+    requests = [];
+
+    server = http.createServer((req, res) => {
+      requests.push(req.url!);
+      const entry = site[req.url!];
+      const body = typeof entry === 'string' ? entry.replace('BASE', baseUrl) : entry;
+      if (body === undefined) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const etag = `"${Buffer.from(body).toString('base64').slice(-16)}"`;
+      if (req.headers['if-none-match'] === etag) {
+        res.writeHead(304).end();
+        return;
+      }
+      const type = req.url!.endsWith('.txt')
+        ? 'text/plain'
+        : req.url!.endsWith('.xml')
+          ? 'application/xml'
+          : 'text/html';
+      res.writeHead(200, { 'Content-Type': type, ETag: etag }).end(body);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    sink = new RecordingSink();
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should follow same-origin links up to the depth limit and respect robots.txt', async () => {
+    const summary = await crawler({ maxDepth: 2 }).crawl();
+
+    expect(summary.added).toEqual([`${baseUrl}/`, `${baseUrl}/guide`, `${baseUrl}/guide/deep`]);
+    expect(requests).not.toContain('/guide/deeper');
+    expect(requests).not.toContain('/private');
+
+    const guide = [...sink.chunks.values()].find(doc => doc.metadata.source === `${baseUrl}/guide`);
+    expect(guide?.pageContent).toContain('See details.');
+    expect(guide?.pageContent).not.toContain('Home');
+    expect(guide?.metadata).toMatchObject({ title: 'Guide', links: [`${baseUrl}/guide/deep`] });
+  });
+
+  it('should stop at the page limit', async () => {
+    const summary = await crawler({ maxPages: 2 }).crawl();
+
+    expect(summary.added).toEqual([`${baseUrl}/`, `${baseUrl}/guide`]);
+  });
+
+  it('should recrawl with ETags and only re-ingest changed or removed pages', async () => {
+    const shared = crawler({ maxDepth: 1 });
+    await shared.crawl();
+
+    site['/guide'] = page('Guide', '<h1>Guide</h1><p>Rewritten guide.</p>');
+    requests = [];
+    const second = await shared.crawl();
+
+    expect(second.unchanged).toEqual([`${baseUrl}/`]);
+    expect(second.updated).toEqual([`${baseUrl}/guide`]);
+    expect(second.removed).toEqual([]);
+
+    delete site['/guide'];
+    const third = await shared.crawl();
+
+    expect(third.removed).toEqual([`${baseUrl}/guide`]);
+    expect(sink.sources()).toEqual([`${baseUrl}/`]);
+  });
+
+  it('should start from a sitemap', async () => {
+    const summary = await new WebCrawler(`${baseUrl}/sitemap.xml`, sink, {
+      persistManifest: false,
+      maxDepth: 0,
+    }).crawl();
+
+    expect(summary.added).toEqual([`${baseUrl}/about`]);
+  });
+
+  it('should not read pages or sitemaps past the size limits', async () => {
+    site['/big'] = page('Big', `<p>${'All work and no play. '.repeat(100)}</p>`);
+    site['/sitemap.xml.gz'] = gzipSync(
+      `<urlset>${'<url><loc>BASE/big</loc></url>'.repeat(1000)}</urlset>`
+    );
+    const limited = (start: string) =>
+      new WebCrawler(`${baseUrl}${start}`, sink, {
+        persistManifest: false,
+        maxDepth: 0,
+        maxPageBytes: 1000,
+        maxSitemapBytes: 1000,
+      });
+
+    const summary = await limited('/big').crawl();
+    expect(summary.failed).toEqual([`${baseUrl}/big`]);
+    expect(sink.chunks.size).toBe(0);
+
+    await expect(limited('/sitemap.xml.gz').crawl()).rejects.toThrow(
+      'larger than 1000 bytes unpacked'
+    );
+  });
+});
+
+describe('normalizeUrl', () => {
+  it('should resolve relative links, drop fragments and reject other origins', () => {
+    const base = 'https://docs.example.com/guide/setup';
+    const origin = 'https://docs.example.com';
+
+    expect(normalizeUrl('../api?v=2#auth', base, origin)).toBe('https://docs.example.com/api?v=2');
+    expect(normalizeUrl('https://example.org/', base, origin)).toBeNull();
+    expect(normalizeUrl('mailto:docs@example.com', base, origin)).toBeNull();
+  });
+});
+
+describe('parseSitemap', () => {
+  it('should tell sitemap indexes from page lists', () => {
+    const index = '<sitemapindex><sitemap><loc>a.xml</loc></sitemap></sitemapindex>';
+
+    expect(parseSitemap(index)).toEqual({ pages: [], sitemaps: ['a.xml'] });
+    expect(parseSitemap('<urlset><url><loc> /a?x=1&amp;y=2 </loc></url></urlset>').pages).toEqual([
+      '/a?x=1&y=2',
+    ]);
+  });
+});
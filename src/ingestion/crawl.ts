@@ -0,0 +1,495 @@
+import { gunzipSync } from 'zlib';
+import { HybridVectorStore } from '../lib/vectorStore.js';
+import { MockVectorStore } from '../lib/mock/mockServices.js';
+import { ChunkingPipeline, ChunkingStrategyName, createChunkingStrategy } from '../lib/chunking.js';
+import { config } from '../config/index.js';
+import { contentHash } from '../lib/chunkIds.js';
+import { DedupPolicy } from '../lib/dedup.js';
+import {
+  IngestionManifest,
+  emptyManifest,
+  fingerprintedChunks,
+  loadManifest,
+  saveManifest,
+} from './manifest.js';
+import {
+  ChunkSink,
+  IngestionSummary,
+  chunkFingerprints,
+  dropDuplicateSources,
+  emptySummary,
+  formatChanges,
+  replaceChunks,
+  restoreFolded,
+  storeDuplicateSources,
+} from './ingest-files.js';
+import { CRAWL_USAGE, CrawlCliOptions, parseCrawlArgs } from './cli.js';
+import { decodeEntities, linkTargets, parseHtml } from './html.js';
+import { ALLOW_ALL, DISALLOW_ALL, RobotsPolicy, isAllowed, parseRobotsTxt } from './robots.js';
+
+export interface CrawlOptions {
+  maxDepth?: number;
+  maxPages?: number;
+  chunkSize?: number;
+  chunkOverlap?: number;
+  strategy?: ChunkingStrategyName;
+  persistManifest?: boolean;
+  manifestPath?: string;
+  userAgent?: string;
+  delayMs?: number;
+  requestTimeoutMs?: number;
+  /** Largest page body read; bigger pages fail instead of filling memory */
+  maxPageBytes?: number;
+  /** Largest sitemap, unpacked */
+  maxSitemapBytes?: number;
+  dedup?: DedupPolicy;
+}
+
+// Sitemap indexes may point at further indexes, but not endlessly
+const MAX_SITEMAP_NESTING = 2;
+
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+// The limit the sitemap protocol sets for one file
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+
+/** Reads a response body, giving up as soon as it passes `limit` bytes. */
+async function readBody(response: Response, limit: number): Promise<Buffer> {
+  const tooLarge = () => new Error(`${response.url} is larger than ${limit} bytes`);
+  if (Number(response.headers.get('content-length')) > limit) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  // Leaving the loop early cancels the rest of the download
+  for await (const chunk of response.body ?? []) {
+    size += chunk.length;
+    if (size > limit) throw tooLarge();
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Absolute URL of a link without its fragment, or null when it leaves the site. */
+export function normalizeUrl(href: string, base: string, origin: string): string | null {
+  try {
+    const url = new URL(href, base);
+    if (url.origin !== origin) return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/** `<loc>` entries of a sitemap, split into pages and nested sitemaps. */
+export function parseSitemap(xml: string): { pages: string[]; sitemaps: string[] } {
+  const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/g), ([, loc]) =>
+    decodeEntities(loc)
+  );
+  return /<sitemapindex\b/.test(xml)
+    ? { pages: [], sitemaps: locations }
+    : { pages: locations, sitemaps: [] };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Crawls a website breadth-first from a start page or sitemap.xml and keeps a
+ * vector store in line with it. Only same-origin pages allowed by robots.txt
+ * are fetched, up to `maxDepth` links away and `maxPages` pages in total.
+ * Recrawls send the stored ETag and Last-Modified, so unchanged pages cost a
+ * 304 and are not re-embedded.
+ */
+export class WebCrawler {
+  private manifest: IngestionManifest;
+  private chunkingPipeline: ChunkingPipeline;
+  private strategy: ChunkingStrategyName;
+  private persistManifest: boolean;
+  private manifestPath: string;
+  private maxDepth: number;
+  private maxPages: number;
+  private userAgent: string;
+  private delayMs: number;
+  private requestTimeoutMs: number;
+  private maxPageBytes: number;
+  private maxSitemapBytes: number;
+  private origin: string;
+  private robots: RobotsPolicy = ALLOW_ALL;
+
+  constructor(
+    private startUrl: string,
+    private sink: ChunkSink,
+    options: CrawlOptions = {}
+  ) {
+    this.origin = new URL(startUrl).origin;
+    this.persistManifest = options.persistManifest ?? !config.mockMode;
+    this.manifestPath = options.manifestPath ?? config.crawl.manifestPath;
+    this.manifest = emptyManifest(config.qdrant.collectionName);
+    this.maxDepth = options.maxDepth ?? config.crawl.maxDepth;
+    this.maxPages = options.maxPages ?? config.crawl.maxPages;
+    this.userAgent = options.userAgent ?? config.crawl.userAgent;
+    this.delayMs = options.delayMs ?? config.crawl.delayMs;
+    this.requestTimeoutMs = options.requestTimeoutMs ?? 15000;
+    this.maxPageBytes = options.maxPageBytes ?? MAX_PAGE_BYTES;
+    this.maxSitemapBytes = options.maxSitemapBytes ?? MAX_SITEMAP_BYTES;
+    this.strategy = options.strategy ?? config.rag.chunkingStrategy;
+    this.chunkingPipeline = new ChunkingPipeline(
+      createChunkingStrategy(this.strategy, {
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+      }),
+      { dedup: options.dedup }
+    );
+  }
+
+  async loadManifest(): Promise<void> {
+    if (this.persistManifest) {
+      this.manifest = await loadManifest(this.manifestPath, config.qdrant.collectionName);
+    }
+  }
+
+  /**
+   * Crawls the site once. Pages that are gone (404/410), marked noindex or no
+   * longer linked lose their chunks; the latter only when the crawl was not
+   * cut short by the page limit. With `full`, conditional requests are skipped
+   * and every page replaces all chunks of its URL.
+   */
+  async crawl(options: { full?: boolean } = {}): Promise<IngestionSummary> {
+    const summary = emptySummary();
+    const previousStrategy = this.manifest.chunkingStrategy ?? 'adaptive';
+    const strategyChanged =
+      Object.keys(this.manifest.files).length > 0 && previousStrategy !== this.strategy;
+    if (strategyChanged) {
+      console.log(
+        `✂️ Chunking strategy changed from ${previousStrategy} to ${this.strategy}, ` +
+          're-crawling all pages'
+      );
+    }
+    const full = !!options.full || strategyChanged;
+    if (!full) this.chunkingPipeline.deduplicator.register(fingerprintedChunks(this.manifest));
+
+    this.robots = await this.fetchRobots();
+    const delay = Math.max(this.delayMs, (this.robots.crawlDelay ?? 0) * 1000);
+
+    const queue = (await this.seedUrls()).map(url => ({ url, depth: 0 }));
+    const queued = new Set(queue.map(page => page.url));
+    const visited = new Set<string>();
+    let truncated = false;
+
+    while (queue.length > 0) {
+      if (visited.size >= this.maxPages) {
+        truncated = true;
+        console.log(`⏹️ Reached the page limit of ${this.maxPages}`);
+        break;
+      }
+
+      const { url, depth } = queue.shift()!;
+      const { pathname, search } = new URL(url);
+      if (!isAllowed(this.robots, pathname + search)) {
+        console.log(`🚫 Disallowed by robots.txt: ${url}`);
+        continue;
+      }
+
+      if (visited.size > 0 && delay > 0) await sleep(delay);
+      visited.add(url);
+
+      try {
+        const links = await this.crawlPage(url, full, summary);
+        if (depth >= this.maxDepth) continue;
+
+        for (const link of links) {
+          if (!queued.has(link)) {
+            queued.add(link);
+            queue.push({ url: link, depth: depth + 1 });
+          }
+        }
+      } catch (error) {
+        console.warn(`⚠️ Skipping page ${url}: ${error}`);
+        summary.failed.push(url);
+      }
+    }
+
+    if (!truncated) {
+      for (const url of Object.keys(this.manifest.files)) {
+        if (!visited.has(url)) await this.removePage(url, summary);
+      }
+    }
+
+    // Fetched in full, since the server would answer 304 for unchanged pages
+    await restoreFolded(
+      this.manifest,
+      this.chunkingPipeline.deduplicator,
+      summary,
+      async (url, restored) => {
+        if (delay > 0) await sleep(delay);
+        await this.crawlPage(url, true, restored);
+      },
+      { include: url => visited.has(url) }
+    );
+
+    const duplicates = this.chunkingPipeline.deduplicator.takeClusters();
+    if (duplicates.length > 0) summary.duplicates = duplicates;
+
+    this.manifest.chunkingStrategy = this.strategy;
+    if (this.persistManifest) {
+      await saveManifest(this.manifestPath, this.manifest);
+    }
+
+    return summary;
+  }
+
+  private request(url: string, headers: Record<string, string> = {}): Promise<Response> {
+    return fetch(url, {
+      headers: { 'User-Agent': this.userAgent, ...headers },
+      signal: AbortSignal.timeout(this.requestTimeoutMs),
+    });
+  }
+
+  /**
+   * A missing robots.txt allows everything. When the server errors we cannot
+   * know the rules, so nothing is crawled.
+   */
+  private async fetchRobots(): Promise<RobotsPolicy> {
+    try {
+      const response = await this.request(`${this.origin}/robots.txt`);
+      if (response.ok) return parseRobotsTxt(await response.text(), this.userAgent);
+      await response.body?.cancel();
+      if (response.status >= 500) {
+        console.warn(`⚠️ robots.txt returned ${response.status}, not crawling ${this.origin}`);
+        return DISALLOW_ALL;
+      }
+      return ALLOW_ALL;
+    } catch (error) {
+      console.warn(`⚠️ Could not fetch robots.txt, not crawling ${this.origin}: ${error}`);
+      return DISALLOW_ALL;
+    }
+  }
+
+  /** The start page, or every page listed by a start sitemap. */
+  private async seedUrls(): Promise<string[]> {
+    const start = normalizeUrl(this.startUrl, this.startUrl, this.origin)!;
+    if (!/\.xml(\.gz)?$/i.test(new URL(start).pathname)) return [start];
+
+    const pages = await this.readSitemap(start, 0);
+    console.log(`🗺️ Found ${pages.length} pages in ${start}`);
+    return Array.from(new Set(pages));
+  }
+
+  private async readSitemap(url: string, nesting: number): Promise<string[]> {
+    const response = await this.request(url);
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Could not fetch sitemap ${url}: HTTP ${response.status}`);
+    }
+
+    const body = await readBody(response, this.maxSitemapBytes);
+    // .xml.gz files are served gzipped as they are, not with a Content-Encoding
+    const xml = body[0] === 0x1f && body[1] === 0x8b ? this.gunzipSitemap(url, body) : body;
+
+    const { pages, sitemaps } = parseSitemap(xml.toString('utf-8'));
+    const nested: string[] = [];
+    if (nesting < MAX_SITEMAP_NESTING) {
+      for (const sitemap of sitemaps) {
+        const sitemapUrl = normalizeUrl(sitemap, url, this.origin);
+        if (sitemapUrl) nested.push(...(await this.readSitemap(sitemapUrl, nesting + 1)));
+      }
+    }
+
+    return [
+      ...pages.map(page => normalizeUrl(page, url, this.origin)).filter(Boolean),
+      ...nested,
+    ] as string[];
+  }
+
+  private gunzipSitemap(url: string, body: Buffer): Buffer {
+    try {
+      return gunzipSync(body, { maxOutputLength: this.maxSitemapBytes });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_BUFFER_TOO_LARGE') throw error;
+      throw new Error(`Sitemap ${url} is larger than ${this.maxSitemapBytes} bytes unpacked`);
+    }
+  }
+
+  /** Fetches one page, ingests it when it changed and returns the pages it links to. */
+  private async crawlPage(
+    url: string,
+    full: boolean,
+    summary: IngestionSummary
+  ): Promise<string[]> {
+    const entry = this.manifest.files[url];
+    const conditional: Record<string, string> = {};
+    if (entry && !full) {
+      if (entry.etag) conditional['If-None-Match'] = entry.etag;
+      if (entry.lastModified) conditional['If-Modified-Since'] = entry.lastModified;
+    }
+
+    const response = await this.request(url, conditional);
+    const now = new Date().toISOString();
+
+    if (response.status === 304 && entry) {
+      entry.mtime = now;
+      summary.unchanged.push(url);
+      return entry.links ?? [];
+    }
+    if (response.status === 404 || response.status === 410) {
+      await response.body?.cancel();
+      await this.removePage(url, summary);
+      return [];
+    }
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    // Redirects off the site and non-HTML resources are not ingested
+    const contentType = response.headers.get('content-type') ?? '';
+    if (new URL(response.url).origin !== this.origin || !contentType.includes('html')) {
+      await response.body?.cancel();
+      return [];
+    }
+
+    const html = (await readBody(response, this.maxPageBytes)).toString('utf-8');
+    const page = parseHtml(html);
+    const links = page.robots.includes('nofollow')
+      ? []
+      : Array.from(
+          new Set(
+            linkTargets(html)
+              .map(href => normalizeUrl(href, response.url, this.origin))
+              .filter((link): link is string => link !== null)
+          )
+        );
+
+    if (page.robots.includes('noindex')) {
+      await this.removePage(url, summary);
+      return links;
+    }
+
+    const validators = {
+      etag: response.headers.get('etag') ?? undefined,
+      lastModified: response.headers.get('last-modified') ?? undefined,
+    };
+    // Hash the extracted text so markup-only changes are not re-embedded
+    const hash = contentHash(`${page.title ?? ''}\n${page.content}`);
+    if (entry && !full && entry.contentHash === hash) {
+      Object.assign(entry, validators, { mtime: now, links });
+      summary.unchanged.push(url);
+      return links;
+    }
+
+    console.log(`🌐 Loading: ${url}`);
+    const lastModified = validators.lastModified ? new Date(validators.lastModified) : null;
+    const doc = {
+      content: page.content,
+      metadata: {
+        source: url,
+        title: page.title ?? url,
+        fileType: 'html',
+        ...(page.description && { description: page.description }),
+        ...(page.links.length > 0 && {
+          links: page.links.map(href => new URL(href, response.url).href),
+        }),
+        lastModified:
+          lastModified && !isNaN(lastModified.getTime()) ? lastModified.toISOString() : now,
+      },
+    };
+
+    this.chunkingPipeline.deduplicator.forget(entry?.chunkIds ?? []);
+    const chunks = await this.chunkingPipeline.processDocuments([doc]);
+    const chunkIds = await replaceChunks(this.sink, url, chunks, {
+      previousIds: entry?.chunkIds ?? [],
+      full,
+      summary,
+    });
+    await storeDuplicateSources(this.sink, this.chunkingPipeline.deduplicator);
+    const fingerprints = chunkFingerprints(chunks, this.chunkingPipeline.deduplicator, url);
+    await dropDuplicateSources(this.sink, url, entry?.foldedInto, fingerprints.foldedInto);
+
+    (entry ? summary.updated : summary.added).push(url);
+    this.manifest.files[url] = {
+      contentHash: hash,
+      mtime: now,
+      chunkIds,
+      ...fingerprints,
+      ...validators,
+      links,
+    };
+    return links;
+  }
+
+  private async removePage(url: string, summary: IngestionSummary): Promise<void> {
+    const entry = this.manifest.files[url];
+    if (!entry) return;
+
+    try {
+      await this.sink.deleteChunks(entry.chunkIds);
+      await dropDuplicateSources(this.sink, url, entry.foldedInto);
+      this.chunkingPipeline.deduplicator.forget(entry.chunkIds);
+      summary.chunksRemoved += entry.chunkIds.length;
+      delete this.manifest.files[url];
+      summary.removed.push(url);
+    } catch (error) {
+      console.warn(`⚠️ Could not remove chunks of ${url}: ${error}`);
+      summary.failed.push(url);
+    }
+  }
+}
+
+async function crawlSite(
+  startUrl: string,
+  options: CrawlOptions & { full?: boolean } = {}
+): Promise<IngestionSummary> {
+  console.log(`🕷️ Crawling ${startUrl}...`);
+
+  try {
+    const vectorStore = config.mockMode ? new MockVectorStore() : new HybridVectorStore();
+    await vectorStore.initialize();
+
+    const strategy = options.strategy ?? config.rag.chunkingStrategy;
+    const crawler = new WebCrawler(startUrl, vectorStore, { ...options, strategy });
+    await crawler.loadManifest();
+    const summary = await crawler.crawl({ full: options.full });
+
+    console.log('✅ Crawl complete!');
+    console.log(`
+📊 Summary${options.full ? ' (full recrawl)' : ''}:
+  - Added: ${summary.added.length}
+  - Updated: ${summary.updated.length}
+  - Removed: ${summary.removed.length}
+  - Unchanged: ${summary.unchanged.length}
+  - Failed: ${summary.failed.length}
+  - Chunks embedded: ${summary.chunksAdded}
+  - Chunks deleted: ${summary.chunksRemoved}
+  - Chunking strategy: ${strategy}
+${formatChanges(summary)}`);
+
+    return summary;
+  } catch (error) {
+    console.error('❌ Crawl failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run the crawler if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  let options: CrawlCliOptions;
+  try {
+    options = parseCrawlArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${CRAWL_USAGE}`);
+    process.exit(1);
+  }
+
+  if (options.help) {
+    console.log(CRAWL_USAGE);
+  } else {
+    const { startUrl, help: _help, ...crawlOptions } = options;
+    crawlSite(startUrl!, crawlOptions);
+  }
+}
+
+export { crawlSite };
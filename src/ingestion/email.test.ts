@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { decodeHeader, emailText, parseEmail, parseMbox } from './email.js';
+
+const multipart = [
+  'From: =?UTF-8?Q?Ren=C3=A9e?= <renee@example.com>',
+  'To: support@example.com',
+  'Subject: =?UTF-8?B?UmVmdW5k?= request',
+  'Date: Tue, 02 Jan 2024 10:30:00 +0100',
+  'Message-ID: <abc@example.com>',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary=inner',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=iso-8859-1',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Le caf=E9 est froid, and this line is so=',
+  'ft wrapped.',
+  '--inner',
+  'Content-Type: text/html',
+  '',
+  '<p>HTML version</p>',
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf; name="receipt.pdf"',
+  'Content-Disposition: attachment; filename="receipt.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0xLjQK',
+  '--outer--',
+  '',
+].join('\r\n');
+
+describe('decodeHeader', () => {
+  it('should decode encoded words and join adjacent ones', () => {
+    const header = '=?UTF-8?B?w6l0w6k=?= =?ISO-8859-1?Q?caf=E9?= time';
+
+    expect(decodeHeader(header)).toBe('étécafé time');
+  });
+});
+
+describe('parseEmail', () => {
+  it('should read headers, prefer the plain text body and list attachments', () => {
+    const message = parseEmail(multipart);
+
+    expect(message).toEqual({
+      subject: 'Refund request',
+      from: 'Renée <renee@example.com>',
+      to: 'support@example.com',
+      cc: undefined,
+      date: '2024-01-02T09:30:00.000Z',
+      messageId: 'abc@example.com',
+      body: 'Le café est froid, and this line is soft wrapped.',
+      attachments: ['receipt.pdf'],
+    });
+    expect(emailText(message)).toContain('Subject: Refund request\nFrom: Renée');
+  });
+
+  it('should fall back to the HTML body as text', () => {
+    const message = parseEmail(
+      'Subject: Hi\nContent-Type: text/html; charset=utf-8\n\n<h1>Hello</h1><p>World &amp; all</p>'
+    );
+
+    expect(message.body).toBe('# Hello\n\nWorld & all');
+  });
+});
+
+describe('parseMbox', () => {
+  it('should split messages and unescape From lines', () => {
+    const mbox =
+      'From alice@example.com Mon Jan  1 00:00:00 2024\n' +
+      'Subject: First\n\nHello\n>From here on\n\n' +
+      'From bob@example.com Mon Jan  1 01:00:00 2024\nSubject: Second\n\nBye\n';
+
+    const messages = parseMbox(mbox);
+
+    expect(messages.map(message => message.subject)).toEqual(['First', 'Second']);
+    expect(messages[0].body).toBe('Hello\nFrom here on');
+  });
+});
@@ -0,0 +1,228 @@
+import { parseHtml } from './html.js';
+
+/**
+ * RFC 5322 / MIME parsing for `.eml` files and `.mbox` archives. Messages are
+ * read as latin1 strings so every byte survives until a part's charset is
+ * known.
+ */
+
+export interface EmailMessage {
+  subject?: string;
+  from?: string;
+  to?: string;
+  cc?: string;
+  /** ISO 8601, when the Date header parses. */
+  date?: string;
+  messageId?: string;
+  /** Plain text body; HTML-only messages are converted to text. */
+  body: string;
+  attachments: string[];
+}
+
+interface MimePart {
+  headers: Map<string, string>;
+  body: string;
+}
+
+interface HeaderValue {
+  value: string;
+  params: Record<string, string>;
+}
+
+function decodeBytes(bytes: Buffer, charset = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    // Unknown charset labels fall back to UTF-8
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/** RFC 2047 encoded words, e.g. `=?UTF-8?B?w6l0w6k=?=` or `=?ISO-8859-1?Q?caf=E9?=`. */
+export function decodeHeader(value: string): string {
+  // Raw 8-bit headers are nearly always UTF-8
+  const text = decodeBytes(Buffer.from(value, 'latin1'));
+
+  return text
+    .replace(/(=\?[^?]+\?[bq]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+    .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([bq])\?([^?]*)\?=/gi, (_, charset, encoding, data) => {
+      const bytes =
+        encoding.toLowerCase() === 'b'
+          ? Buffer.from(data, 'base64')
+          : Buffer.from(
+              data
+                .replace(/_/g, ' ')
+                .replace(/=([0-9a-f]{2})/gi, (_: string, hex: string) =>
+                  String.fromCharCode(parseInt(hex, 16))
+                ),
+              'latin1'
+            );
+      return decodeBytes(bytes, charset);
+    });
+}
+
+function parseHeaders(text: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace
+  const unfolded = text.replace(/\r?\n[ \t]+/g, ' ');
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    // Repeated headers keep their first value
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+
+  return headers;
+}
+
+function parsePart(text: string): MimePart {
+  const separator = text.match(/\r?\n\r?\n/);
+  if (!separator || separator.index === undefined) {
+    return { headers: parseHeaders(text), body: '' };
+  }
+
+  return {
+    headers: parseHeaders(text.slice(0, separator.index)),
+    body: text.slice(separator.index + separator[0].length),
+  };
+}
+
+/** A structured header such as `text/plain; charset="utf-8"`. */
+function headerValue(header = ''): HeaderValue {
+  const [value, ...rest] = header.split(';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const equals = param.indexOf('=');
+    if (equals < 0) continue;
+    const name = param.slice(0, equals).trim().toLowerCase();
+    params[name] = param
+      .slice(equals + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+  }
+
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeTransfer(body: string, encoding = ''): Buffer {
+  switch (encoding.trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return Buffer.from(
+        body
+          .replace(/=\r?\n/g, '')
+          .replace(/=([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+        'latin1'
+      );
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/** Text of a part and its children; attachments only contribute their file names. */
+function extractText(part: MimePart, attachments: string[]): { plain: string; html: string } {
+  const type = headerValue(part.headers.get('content-type') || 'text/plain');
+  const disposition = headerValue(part.headers.get('content-disposition'));
+  const fileName = disposition.params.filename || type.params.name;
+
+  if (type.value.startsWith('multipart/') && type.params.boundary) {
+    const boundary = type.params.boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // The preamble before the first delimiter and the epilogue after the last are dropped
+    const sections = part.body.split(new RegExp(`^--${boundary}(?:--)?[ \\t]*\\r?$`, 'm'));
+    const closed = new RegExp(`^--${boundary}--`, 'm').test(part.body);
+    const children = sections
+      .slice(1, closed ? -1 : undefined)
+      .map(child => parsePart(child.replace(/^\r?\n/, '')));
+    const texts = children.map(child => extractText(child, attachments));
+
+    // Alternatives carry the same content, so keep the first plain and first HTML version
+    if (type.value === 'multipart/alternative') {
+      return {
+        plain: texts.find(text => text.plain)?.plain ?? '',
+        html: texts.find(text => text.html)?.html ?? '',
+      };
+    }
+    return {
+      plain: texts.map(text => text.plain || text.html).filter(Boolean).join('\n\n'),
+      html: '',
+    };
+  }
+
+  if (disposition.value === 'attachment' || !type.value.startsWith('text/')) {
+    if (fileName) attachments.push(decodeHeader(fileName));
+    return { plain: '', html: '' };
+  }
+
+  const text = decodeBytes(
+    decodeTransfer(part.body, part.headers.get('content-transfer-encoding')),
+    type.params.charset
+  ).trim();
+
+  return type.value === 'text/html'
+    ? { plain: '', html: parseHtml(text).content }
+    : { plain: text, html: '' };
+}
+
+export function parseEmail(raw: string): EmailMessage {
+  const message = parsePart(raw);
+  const attachments: string[] = [];
+  const { plain, html } = extractText(message, attachments);
+  const header = (name: string) => {
+    const value = message.headers.get(name);
+    return value ? decodeHeader(value) : undefined;
+  };
+
+  const date = new Date(message.headers.get('date') ?? '');
+  return {
+    subject: header('subject'),
+    from: header('from'),
+    to: header('to'),
+    cc: header('cc'),
+    ...(!isNaN(date.getTime()) && { date: date.toISOString() }),
+    messageId: message.headers.get('message-id')?.replace(/^<|>$/g, ''),
+    body: (plain || html).replace(/\r\n/g, '\n'),
+    attachments,
+  };
+}
+
+/**
+ * Messages of an mbox archive. Each starts with a "From " line after a blank
+ * line; body lines that began with "From " were escaped as ">From ".
+ */
+export function parseMbox(raw: string): EmailMessage[] {
+  return raw
+    .split(/(?:^|\r?\n\r?\n)From [^\n]*\n/)
+    .filter(message => message.trim())
+    .map(message => parseEmail(message.replace(/^>(>*From )/gm, '$1')));
+}
+
+/** Headers worth embedding with the body, so "the email from Dana about X" finds it. */
+export function emailText(message: EmailMessage): string {
+  const headers = [
+    message.subject && `Subject: ${message.subject}`,
+    message.from && `From: ${message.from}`,
+    message.to && `To: ${message.to}`,
+    message.date && `Date: ${message.date}`,
+  ].filter(Boolean);
+
+  return `${headers.join('\n')}\n\n${message.body}`.trim();
+}
+
+/** Message headers as chunk metadata. */
+export function emailMetadata(message: EmailMessage): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries({
+      subject: message.subject,
+      from: message.from,
+      to: message.to,
+      cc: message.cc,
+      date: message.date,
+      messageId: message.messageId,
+      attachments: message.attachments.length > 0 ? message.attachments : undefined,
+    }).filter(([, value]) => value !== undefined)
+  );
+}
@@ -0,0 +1,35 @@
+import { TiktokenModel, encoding_for_model, get_encoding } from 'tiktoken';
+
+// USD per million input tokens, from OpenAI's price list
+const EMBEDDING_PRICES: Record<string, number> = {
+  'text-embedding-3-small': 0.02,
+  'text-embedding-3-large': 0.13,
+  'text-embedding-ada-002': 0.1,
+};
+
+export interface TokenCounter {
+  count(text: string): number;
+  /** Releases the WASM encoder. */
+  free(): void;
+}
+
+/** Counts tokens the way the embedding model does; unknown models use cl100k_base. */
+export function createTokenCounter(model: string): TokenCounter {
+  let encoder;
+  try {
+    encoder = encoding_for_model(model as TiktokenModel);
+  } catch {
+    encoder = get_encoding('cl100k_base');
+  }
+
+  return {
+    count: text => encoder.encode(text).length,
+    free: () => encoder.free(),
+  };
+}
+
+/** Estimated cost of embedding `tokens` tokens, or null when the model's price is unknown. */
+export function embeddingCost(tokens: number, model: string): number | null {
+  const price = EMBEDDING_PRICES[model];
+  return price === undefined ? null : (tokens / 1_000_000) * price;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { GitIngestor } from './git.js';
+import { RecordingSink } from './recordingSink.js';
+
+describe('GitIngestor', () => {
+  let repoPath: string;
+  let sink: RecordingSink;
+
+  const git = (args: string[], author = 'Dana Reyes') =>
+    execFileSync('git', args, {
+      cwd: repoPath,
+      env: {
+        ...process.env,
+        GIT_AUTHOR_NAME: author,
+        GIT_AUTHOR_EMAIL: 'dev@example.com',
+        GIT_AUTHOR_DATE: '2024-03-01T10:00:00Z',
+        GIT_COMMITTER_NAME: author,
+        GIT_COMMITTER_EMAIL: 'dev@example.com',
+      },
+    })
+      .toString()
+      .trim();
+  const write = async (file: string, content: string | Buffer) => {
+    await fs.mkdir(path.dirname(path.join(repoPath, file)), { recursive: true });
+    await fs.writeFile(path.join(repoPath, file), content);
+  };
+  const commit = (message: string, author?: string) => {
+    git(['add', '-A']);
+    git(['commit', '-q', '-m', message], author);
+    return git(['rev-parse', 'HEAD']);
+  };
+
+  beforeEach(async () => {
+    repoPath = await fs.mkdtemp(path.join(os.tmpdir(), 'design-docs-'));
+    git(['init', '-q', '-b', 'main']);
+    await write('.gitignore', 'dist/\n');
+    await write('README.md', '# Design docs\n\nDecisions about the storage layer.');
+    await write('docs/adr-001.md', '# ADR 1: Use Postgres\n\nWe use Postgres for orders.');
+    await write('src/retry.ts', 'export function retry() {\n  return 3;\n}\n');
+    await write('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0]));
+    commit('Initial docs');
+    // Force-added despite the ignore rule
+    await write('dist/bundle.js', 'console.log("built");');
+    git(['add', '-f', 'dist/bundle.js']);
+    commit('Add build output');
+
+    sink = new RecordingSink();
+  });
+
+  afterEach(async () => {
+    await fs.rm(repoPath, { recursive: true, force: true });
+    await fs.rm(`${repoPath}.manifest.json`, { force: true });
+  });
+
+  it('should ingest the files at a ref with commit metadata, skipping ignored ones', async () => {
+    const head = git(['rev-parse', 'HEAD']);
+    const name = path.basename(repoPath);
+    await fs.writeFile(path.join(repoPath, 'README.md'), 'Uncommitted edit');
+
+    const ingestor = new GitIngestor(repoPath, sink, { persistManifest: false, ref: 'main' });
+    const summary = await ingestor.ingest();
+
+    expect(summary.added).toEqual([
+      `${name}/README.md`,
+      `${name}/docs/adr-001.md`,
+      `${name}/src/retry.ts`,
+    ]);
+    expect(summary.failed).toEqual([]);
+
+    const adr = sink.find(`${name}/docs/adr-001.md`);
+    expect(adr?.metadata).toMatchObject({
+      repo: name,
+      path: 'docs/adr-001.md',
+      ref: 'main',
+      author: 'Dana Reyes',
+      date: '2024-03-01T10:00:00.000Z',
+      title: 'ADR 1: Use Postgres',
+    });
+    // The last commit that touched the file, not the ref's commit
+    expect(adr?.metadata.commit).not.toBe(head);
+    expect(adr?.metadata.commit).toBe(git(['rev-parse', 'HEAD~1']));
+    expect(sink.find(`${name}/README.md`)?.pageContent).toContain('storage layer');
+  });
+
+  it('should only process files changed since the last ingested commit', async () => {
+    const ingestor = new GitIngestor(repoPath, sink, { persistManifest: false, name: 'design' });
+    await ingestor.ingest();
+
+    await write('docs/adr-001.md', '# ADR 1: Use Postgres\n\nInvoices live in Postgres too.');
+    await write('docs/adr-002.md', '# ADR 2: Queue\n\nUse SQS for events.');
+    await fs.rm(path.join(repoPath, 'src'), { recursive: true });
+    const latest = commit('Revise ADRs', 'Sam Okafor');
+
+    const summary = await ingestor.ingest();
+
+    expect(summary.added).toEqual(['design/docs/adr-002.md']);
+    expect(summary.updated).toEqual(['design/docs/adr-001.md']);
+    expect(summary.removed).toEqual(['design/src/retry.ts']);
+    expect(summary.unchanged).toEqual(['design/README.md', 'design/logo.png']);
+    expect(sink.sources()).toEqual([
+      'design/README.md',
+      'design/docs/adr-001.md',
+      'design/docs/adr-002.md',
+    ]);
+    expect(sink.find('design/docs/adr-001.md')?.metadata).toMatchObject({
+      commit: latest,
+      author: 'Sam Okafor',
+    });
+
+    const again = await ingestor.ingest();
+    expect(again.added.length + again.updated.length + again.removed.length).toBe(0);
+  });
+
+  it('should move to the new commit past failed files and retry them next time', async () => {
+    const manifestPath = `${repoPath}.manifest.json`;
+    const ingestor = new GitIngestor(repoPath, sink, {
+      persistManifest: true,
+      manifestPath,
+      name: 'design',
+    });
+    await ingestor.ingest();
+
+    await write('docs/adr-001.md', '# ADR 1: Use Postgres\n\nInvoices live in Postgres too.');
+    const revised = commit('Revise ADR 1');
+    sink.failing.add('design/docs/adr-001.md');
+    const failed = await ingestor.ingest();
+
+    expect(failed.failed).toEqual(['design/docs/adr-001.md']);
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8'));
+    expect(manifest.commits).toEqual({ design: revised });
+    expect(manifest.failedPaths).toEqual({ design: ['docs/adr-001.md'] });
+
+    // The diff from the new commit only has README.md, but the failed file is retried
+    await write('README.md', '# Design docs\n\nDecisions about storage and queues.');
+    commit('Mention queues');
+    sink.failing.clear();
+    const retried = await ingestor.ingest();
+
+    expect(retried.updated).toEqual(['design/README.md', 'design/docs/adr-001.md']);
+    expect(sink.find('design/docs/adr-001.md')?.pageContent).toContain('Invoices');
+    expect(JSON.parse(await fs.readFile(manifestPath, 'utf-8')).failedPaths).toEqual({});
+  });
+
+  it('should drop files that a new ignore rule excludes', async () => {
+    const ingestor = new GitIngestor(repoPath, sink, { persistManifest: false, name: 'design' });
+    await ingestor.ingest();
+
+    await write('.gitignore', 'dist/\nsrc/\n');
+    commit('Ignore sources');
+    const summary = await ingestor.ingest();
+
+    expect(summary.removed).toEqual(['design/src/retry.ts']);
+    expect(sink.sources()).not.toContain('design/src/retry.ts');
+  });
+});
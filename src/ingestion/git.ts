@@ -0,0 +1,484 @@
+import { execFile, spawn } from 'child_process';
+import { promisify } from 'util';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { HybridVectorStore } from '../lib/vectorStore.js';
+import { MockVectorStore } from '../lib/mock/mockServices.js';
+import {
+  ChunkingPipeline,
+  ChunkingStrategyName,
+  createChunkingStrategy,
+} from '../lib/chunking.js';
+import { config } from '../config/index.js';
+import { DedupPolicy } from '../lib/dedup.js';
+import {
+  IngestionManifest,
+  emptyManifest,
+  fingerprintedChunks,
+  loadManifest,
+  saveManifest,
+} from './manifest.js';
+import {
+  ChunkSink,
+  IngestionSummary,
+  chunkFingerprints,
+  dropDuplicateSources,
+  emptySummary,
+  formatChanges,
+  isBinary,
+  isIgnored,
+  loadDocumentFromFile,
+  replaceChunks,
+  restoreFolded,
+  storeDuplicateSources,
+} from './ingest-files.js';
+import { RECORD_OPTIONS_SUFFIX } from './structured.js';
+import { IgnoreRule, isGitIgnored, parseGitignore } from './gitignore.js';
+import { GIT_USAGE, GitCliOptions, parseGitArgs } from './cli.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface GitIngestOptions {
+  ref?: string;
+  /** Name used in sources and metadata; defaults to the repository's directory name. */
+  name?: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+  strategy?: ChunkingStrategyName;
+  persistManifest?: boolean;
+  manifestPath?: string;
+  dedup?: DedupPolicy;
+}
+
+interface TreeFile {
+  path: string;
+  blob: string;
+  // Record options stored next to the file
+  optionsBlob?: string;
+}
+
+interface LastCommit {
+  commit: string;
+  author: string;
+  date: string;
+}
+
+// Binary formats that have a loader; other binary files are skipped
+const BINARY_FORMATS = new Set(['.pdf', '.docx', '.pptx', '.xlsx']);
+
+/**
+ * Ingests the files of a git repository as they are at a ref, rather than
+ * whatever is checked out. Files are read from git objects, so the working
+ * tree is never touched and uncommitted changes are not ingested.
+ *
+ * The manifest remembers the commit each repository was ingested at; later
+ * runs only load the files `git diff` reports between that commit and the
+ * new one, and drop the chunks of files that were deleted or are now ignored.
+ */
+export class GitIngestor {
+  private manifest: IngestionManifest;
+  private chunkingPipeline: ChunkingPipeline;
+  private strategy: ChunkingStrategyName;
+  private persistManifest: boolean;
+  private manifestPath: string;
+  private ref: string;
+  // Last commit of each file loaded in the current run
+  private lastCommitInfo = new Map<string, LastCommit>();
+  readonly name: string;
+
+  constructor(
+    private repoPath: string,
+    private sink: ChunkSink,
+    options: GitIngestOptions = {}
+  ) {
+    this.ref = options.ref ?? 'HEAD';
+    this.name = options.name ?? path.basename(path.resolve(repoPath)).replace(/\.git$/, '');
+    this.persistManifest = options.persistManifest ?? !config.mockMode;
+    this.manifestPath = options.manifestPath ?? config.git.manifestPath;
+    this.manifest = emptyManifest(config.qdrant.collectionName);
+    this.strategy = options.strategy ?? config.rag.chunkingStrategy;
+    this.chunkingPipeline = new ChunkingPipeline(
+      createChunkingStrategy(this.strategy, {
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+      }),
+      { dedup: options.dedup }
+    );
+  }
+
+  async loadManifest(): Promise<void> {
+    if (this.persistManifest) {
+      this.manifest = await loadManifest(this.manifestPath, config.qdrant.collectionName);
+    }
+  }
+
+  /**
+   * Brings the repository's chunks in line with the ref. With `full`, or when
+   * the previous commit is unknown or no longer exists (e.g. after a force
+   * push), every file is loaded again.
+   */
+  async ingest(options: { full?: boolean } = {}): Promise<IngestionSummary> {
+    const summary = emptySummary();
+    const commit = (await this.git(['rev-parse', '--verify', `${this.ref}^{commit}`])).trim();
+    const files = await this.listFiles(commit);
+
+    const prefix = `${this.name}/`;
+    const indexed = Object.keys(this.manifest.files).filter(key => key.startsWith(prefix));
+    const previousStrategy = this.manifest.chunkingStrategy ?? 'adaptive';
+    const strategyChanged = indexed.length > 0 && previousStrategy !== this.strategy;
+    if (strategyChanged) {
+      console.log(
+        `✂️ Chunking strategy changed from ${previousStrategy} to ${this.strategy}, ` +
+          're-ingesting all files'
+      );
+    }
+    const full = !!options.full || strategyChanged;
+
+    // Chunks of files about to be removed cannot be the copy that is kept
+    const removed = indexed.filter(source => !files.has(source.slice(prefix.length)));
+    const { deduplicator } = this.chunkingPipeline;
+    if (!full) deduplicator.register(fingerprintedChunks(this.manifest, removed));
+    removed.forEach(source => deduplicator.forget(this.manifest.files[source].chunkIds));
+
+    const previous = this.manifest.commits?.[this.name];
+    const changed = full || !previous ? null : await this.changedPaths(previous, commit);
+    if (previous && !full) {
+      console.log(`🔀 ${this.name}: ${previous.slice(0, 7)}..${commit.slice(0, 7)}`);
+    }
+
+    // Files that were ignored or failed before are loaded even if the diff skips them
+    const failedBefore = new Set(this.manifest.failedPaths?.[this.name] ?? []);
+    const needsLoad = (file: TreeFile) =>
+      !changed ||
+      changed.has(file.path) ||
+      failedBefore.has(file.path) ||
+      !this.manifest.files[prefix + file.path];
+    this.lastCommitInfo = await this.lastCommits(
+      commit,
+      [...files.values()].filter(needsLoad).map(file => file.path)
+    );
+
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rag-git-'));
+    try {
+      for (const file of files.values()) {
+        const source = prefix + file.path;
+        if (!needsLoad(file)) {
+          summary.unchanged.push(source);
+          continue;
+        }
+
+        try {
+          await this.ingestFile(file, commit, tmpDir, full, summary);
+        } catch (error) {
+          console.warn(`⚠️ Skipping file ${source}: ${error}`);
+          summary.failed.push(source);
+        }
+      }
+
+      const fileAt = (source: string) => files.get(source.slice(prefix.length));
+      await restoreFolded(
+        this.manifest,
+        deduplicator,
+        summary,
+        (source, restored) => this.ingestFile(fileAt(source)!, commit, tmpDir, false, restored),
+        { include: source => source.startsWith(prefix) && fileAt(source) !== undefined }
+      );
+    } finally {
+      await fs.rm(tmpDir, { recursive: true, force: true });
+    }
+
+    for (const source of removed) {
+      try {
+        const { chunkIds, foldedInto } = this.manifest.files[source];
+        await this.sink.deleteChunks(chunkIds);
+        await dropDuplicateSources(this.sink, source, foldedInto);
+        summary.chunksRemoved += chunkIds.length;
+        delete this.manifest.files[source];
+        summary.removed.push(source);
+      } catch (error) {
+        console.warn(`⚠️ Could not remove chunks of ${source}: ${error}`);
+        summary.failed.push(source);
+      }
+    }
+
+    const duplicates = deduplicator.takeClusters();
+    if (duplicates.length > 0) summary.duplicates = duplicates;
+
+    // The commit moves on regardless; failed files are listed so the next run retries them
+    const { [this.name]: _previousFailures, ...failedPaths } = this.manifest.failedPaths ?? {};
+    if (summary.failed.length > 0) {
+      failedPaths[this.name] = summary.failed.map(source => source.slice(prefix.length));
+    }
+    this.manifest.failedPaths = failedPaths;
+    this.manifest.commits = { ...this.manifest.commits, [this.name]: commit };
+    this.manifest.chunkingStrategy = this.strategy;
+    if (this.persistManifest) {
+      await saveManifest(this.manifestPath, this.manifest);
+    }
+
+    return summary;
+  }
+
+  private async git(args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['-C', this.repoPath, '-c', 'core.quotePath=false', '--literal-pathspecs', ...args],
+      { maxBuffer: 256 * 1024 * 1024 }
+    );
+    return stdout;
+  }
+
+  private async readBlob(blob: string): Promise<Buffer> {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['-C', this.repoPath, 'cat-file', 'blob', blob],
+      { encoding: 'buffer', maxBuffer: 256 * 1024 * 1024 }
+    );
+    return stdout;
+  }
+
+  /**
+   * Regular files of the commit, without those its `.gitignore` files exclude
+   * (force-added generated files, for instance), hidden files and record
+   * options, which are read along with their data file.
+   */
+  private async listFiles(commit: string): Promise<Map<string, TreeFile>> {
+    const entries = (await this.git(['ls-tree', '-r', '-z', commit]))
+      .split('\0')
+      .filter(Boolean)
+      .map(line => {
+        const tab = line.indexOf('\t');
+        const [mode, type, blob] = line.slice(0, tab).split(' ');
+        return { mode, type, blob, path: line.slice(tab + 1) };
+      })
+      // Symlinks and submodules have no content of their own
+      .filter(entry => entry.type === 'blob' && entry.mode !== '120000');
+
+    const ignoreFiles = entries
+      .filter(entry => path.posix.basename(entry.path) === '.gitignore')
+      .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+    const rules: IgnoreRule[] = [];
+    for (const ignoreFile of ignoreFiles) {
+      const directory = path.posix.dirname(ignoreFile.path);
+      const text = (await this.readBlob(ignoreFile.blob)).toString('utf-8');
+      rules.push(...parseGitignore(text, directory === '.' ? '' : directory));
+    }
+
+    const blobs = new Map(entries.map(entry => [entry.path, entry.blob]));
+    const files = new Map<string, TreeFile>();
+    for (const entry of entries) {
+      if (entry.path.split('/').some(isIgnored) || isGitIgnored(rules, entry.path)) continue;
+      files.set(entry.path, {
+        path: entry.path,
+        blob: entry.blob,
+        optionsBlob: blobs.get(`${entry.path}${RECORD_OPTIONS_SUFFIX}`),
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * Paths added, modified or deleted between two commits, or null when the
+   * older commit is gone. Edited record options count as a change of their file.
+   */
+  private async changedPaths(from: string, to: string): Promise<Set<string> | null> {
+    try {
+      await this.git(['cat-file', '-e', `${from}^{commit}`]);
+    } catch {
+      console.log(`⚠️ Commit ${from.slice(0, 7)} no longer exists, re-ingesting all files`);
+      return null;
+    }
+
+    const paths = (await this.git(['diff', '--name-only', '-z', '--no-renames', from, to]))
+      .split('\0')
+      .filter(Boolean)
+      .map(filePath =>
+        filePath.endsWith(RECORD_OPTIONS_SUFFIX)
+          ? filePath.slice(0, -RECORD_OPTIONS_SUFFIX.length)
+          : filePath
+      );
+    return new Set(paths);
+  }
+
+  /**
+   * The last commit that touched each of the paths, from a single walk of the
+   * history that stops once every path has been seen.
+   */
+  private lastCommits(commit: string, paths: string[]): Promise<Map<string, LastCommit>> {
+    const wanted = new Set(paths);
+    const found = new Map<string, LastCommit>();
+    if (wanted.size === 0) return Promise.resolve(found);
+
+    // Each commit starts with \x01, then its fields and changed paths separated by NULs
+    const readCommit = (text: string) => {
+      const [hash, author, date, ...changed] = text.split('\0');
+      if (!hash) return;
+      for (const filePath of changed.map(name => name.replace(/^\n/, ''))) {
+        if (wanted.has(filePath) && !found.has(filePath)) {
+          found.set(filePath, { commit: hash, author, date: new Date(date).toISOString() });
+        }
+      }
+    };
+
+    return new Promise((resolve, reject) => {
+      const log = spawn('git', [
+        '-C',
+        this.repoPath,
+        '-c',
+        'core.quotePath=false',
+        'log',
+        '-z',
+        '--name-only',
+        '--no-renames',
+        '--format=%x01%H%x00%an%x00%aI',
+        commit,
+      ]);
+      let pending = '';
+      let stderr = '';
+      let done = false;
+
+      log.stdout.setEncoding('utf-8');
+      log.stdout.on('data', (data: string) => {
+        if (done) return;
+        const records = (pending + data).split('\x01');
+        pending = records.pop()!;
+        records.forEach(readCommit);
+        if (found.size === wanted.size) {
+          done = true;
+          log.kill();
+        }
+      });
+      log.stderr.on('data', data => (stderr += data));
+      log.on('error', reject);
+      log.on('close', code => {
+        if (!done) {
+          if (code !== 0) return reject(new Error(`git log failed: ${stderr.trim()}`));
+          readCommit(pending);
+        }
+        resolve(found);
+      });
+    });
+  }
+
+  private async ingestFile(
+    file: TreeFile,
+    commit: string,
+    tmpDir: string,
+    full: boolean,
+    summary: IngestionSummary
+  ): Promise<void> {
+    const source = `${this.name}/${file.path}`;
+    const entry = this.manifest.files[source];
+    const content = await this.readBlob(file.blob);
+    const ext = path.extname(file.path).toLowerCase();
+
+    if (!BINARY_FORMATS.has(ext) && isBinary(content)) {
+      // Remembered without chunks, so later runs do not read it again
+      console.log(`⏭️ Skipping binary file: ${source}`);
+      this.manifest.files[source] = {
+        contentHash: file.blob,
+        mtime: new Date().toISOString(),
+        chunkIds: [],
+      };
+      return;
+    }
+
+    console.log(`📄 Loading: ${source}`);
+    // Loaders read from disk, so the blob and its record options go to a scratch file
+    const filePath = path.join(tmpDir, path.basename(file.path));
+    const optionsPath = `${filePath}${RECORD_OPTIONS_SUFFIX}`;
+    await fs.writeFile(filePath, content);
+    if (file.optionsBlob) await fs.writeFile(optionsPath, await this.readBlob(file.optionsBlob));
+    else await fs.rm(optionsPath, { force: true });
+
+    const doc = await loadDocumentFromFile(filePath);
+    const last =
+      this.lastCommitInfo.get(file.path) ??
+      (await this.lastCommits(commit, [file.path])).get(file.path)!;
+    delete doc.metadata.filePath;
+    Object.assign(doc.metadata, {
+      source,
+      repo: this.name,
+      path: file.path,
+      ref: this.ref,
+      ...last,
+      lastModified: last.date,
+    });
+
+    this.chunkingPipeline.deduplicator.forget(entry?.chunkIds ?? []);
+    const chunks = await this.chunkingPipeline.processDocuments([doc]);
+    const chunkIds = await replaceChunks(this.sink, source, chunks, {
+      previousIds: entry?.chunkIds ?? [],
+      full,
+      summary,
+    });
+    await storeDuplicateSources(this.sink, this.chunkingPipeline.deduplicator);
+    const fingerprints = chunkFingerprints(chunks, this.chunkingPipeline.deduplicator, source);
+    await dropDuplicateSources(this.sink, source, entry?.foldedInto, fingerprints.foldedInto);
+
+    (entry ? summary.updated : summary.added).push(source);
+    this.manifest.files[source] = {
+      contentHash: file.blob,
+      mtime: last.date,
+      chunkIds,
+      ...fingerprints,
+    };
+  }
+}
+
+async function ingestRepository(
+  repoPath: string,
+  options: GitIngestOptions & { full?: boolean } = {}
+): Promise<IngestionSummary> {
+  console.log(`🌳 Ingesting git repository ${repoPath} at ${options.ref ?? 'HEAD'}...`);
+
+  try {
+    const vectorStore = config.mockMode ? new MockVectorStore() : new HybridVectorStore();
+    await vectorStore.initialize();
+
+    const strategy = options.strategy ?? config.rag.chunkingStrategy;
+    const ingestor = new GitIngestor(repoPath, vectorStore, { ...options, strategy });
+    await ingestor.loadManifest();
+    const summary = await ingestor.ingest({ full: options.full });
+
+    console.log('✅ Ingestion complete!');
+    console.log(`
+📊 Summary${options.full ? ' (full rebuild)' : ''}:
+  - Added: ${summary.added.length}
+  - Updated: ${summary.updated.length}
+  - Removed: ${summary.removed.length}
+  - Unchanged: ${summary.unchanged.length}
+  - Failed: ${summary.failed.length}
+  - Chunks embedded: ${summary.chunksAdded}
+  - Chunks deleted: ${summary.chunksRemoved}
+  - Chunking strategy: ${strategy}
+${formatChanges(summary)}`);
+
+    return summary;
+  } catch (error) {
+    console.error('❌ Ingestion failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run ingestion if this file is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+  let options: GitCliOptions;
+  try {
+    options = parseGitArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${GIT_USAGE}`);
+    process.exit(1);
+  }
+
+  if (options.help) {
+    console.log(GIT_USAGE);
+  } else {
+    const { repoPath, help: _help, ...gitOptions } = options;
+    ingestRepository(repoPath!, gitOptions);
+  }
+}
+
+export { ingestRepository };
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { isGitIgnored, parseGitignore } from './gitignore.js';
+
+describe('parseGitignore', () => {
+  const rules = [
+    ...parseGitignore(
+      ['# build output', 'dist/', '*.log', '!keep.log', '/TODO', 'docs/**/draft-*.md'].join('\n')
+    ),
+    ...parseGitignore('generated/\n*.snap\n', 'packages/api'),
+  ];
+
+  it('should match names at any depth unless the pattern has a slash', () => {
+    expect(isGitIgnored(rules, 'server.log')).toBe(true);
+    expect(isGitIgnored(rules, 'logs/app/server.log')).toBe(true);
+    expect(isGitIgnored(rules, 'TODO')).toBe(true);
+    expect(isGitIgnored(rules, 'notes/TODO')).toBe(false);
+    expect(isGitIgnored(rules, 'docs/draft-plan.md')).toBe(true);
+    expect(isGitIgnored(rules, 'docs/rfcs/2024/draft-plan.md')).toBe(true);
+    expect(isGitIgnored(rules, 'docs/plan.md')).toBe(false);
+  });
+
+  it('should let later negations re-include files, but not inside ignored directories', () => {
+    expect(isGitIgnored(rules, 'keep.log')).toBe(false);
+    expect(isGitIgnored(rules, 'dist/keep.log')).toBe(true);
+    expect(isGitIgnored(rules, 'src/dist/index.js')).toBe(true);
+    // A file named like a directory-only pattern is not a directory
+    expect(isGitIgnored(rules, 'bin/dist')).toBe(false);
+  });
+
+  it('should scope nested ignore files to their directory', () => {
+    expect(isGitIgnored(rules, 'packages/api/generated/client.ts')).toBe(true);
+    expect(isGitIgnored(rules, 'packages/api/test/__snapshots__/a.snap')).toBe(true);
+    expect(isGitIgnored(rules, 'packages/web/generated/client.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * `.gitignore` matching, for ingesting a repository at a ref whose ignore
+ * files may differ from the working tree's. Paths use forward slashes and are
+ * relative to the repository root.
+ */
+export interface IgnoreRule {
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** A glob as a regular expression source: `*` and `?` stop at slashes, `**` does not. */
+function globSource(glob: string): string {
+  let source = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directories at all
+      const slash = glob[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) > 0) {
+      const end = glob.indexOf(']', i + 2);
+      const set = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${set}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Rules of one ignore file. `directory` is where it lives ("" for the root);
+ * its patterns only apply below it.
+ */
+export function parseGitignore(text: string, directory = ''): IgnoreRule[] {
+  const base = directory ? escapeRegExp(`${directory.replace(/\/$/, '')}/`) : '';
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    // Trailing spaces are ignored unless escaped
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated || line.startsWith('\\!') || line.startsWith('\\#')) line = line.slice(1);
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+
+    // A slash anywhere but the end anchors the pattern to the ignore file's directory
+    const anchored = line.includes('/');
+    const source = globSource(line.replace(/^\//, ''));
+    rules.push({
+      pattern: new RegExp(`^${base}${anchored ? '' : '(?:.*/)?'}${source}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Whether a file is ignored. The last matching rule decides, and files in an
+ * ignored directory stay ignored whatever their own rules say, as in git.
+ */
+export function isGitIgnored(rules: IgnoreRule[], filePath: string): boolean {
+  const segments = filePath.split('/');
+
+  for (let depth = 1; depth <= segments.length; depth++) {
+    const candidate = segments.slice(0, depth).join('/');
+    const isDirectory = depth < segments.length;
+    let ignored = false;
+
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.pattern.test(candidate)) ignored = !rule.negated;
+    }
+    if (ignored) return true;
+  }
+
+  return false;
+}
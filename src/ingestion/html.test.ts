@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { decodeEntities, linkTargets, parseHtml } from './html.js';
+
+describe('decodeEntities', () => {
+  it('should decode named and numeric entities', () => {
+    expect(decodeEntities('a &amp; b &lt;c&gt; &#39;d&#x27; &mdash;&nbsp;e')).toBe(
+      "a & b <c> 'd' — e"
+    );
+  });
+
+  it('should leave unknown entities alone', () => {
+    expect(decodeEntities('&bogus; &#0;')).toBe('&bogus; &#0;');
+  });
+});
+
+describe('parseHtml', () => {
+  it('should read the title and meta description', () => {
+    const page = parseHtml(
+      '<html><head><title>Caching &amp; CDNs</title>' +
+        '<meta name="description" content="How we cache"></head><body><p>Hi</p></body></html>'
+    );
+
+    expect(page.title).toBe('Caching & CDNs');
+    expect(page.description).toBe('How we cache');
+    expect(page.content).toBe('Hi');
+  });
+
+  it('should drop scripts, styles, navigation and footers', () => {
+    const page = parseHtml(
+      '<body><script>if (a < b) document.write("<p>junk</p>")</script><style>p{}</style>' +
+        '<nav><a href="/home">Home</a></nav><div role="navigation">Crumbs</div>' +
+        '<p>Content</p><footer>Copyright</footer></body>'
+    );
+
+    expect(page.content).toBe('Content');
+    expect(page.links).toEqual([]);
+  });
+
+  it('should keep only the main element when there is one', () => {
+    const page = parseHtml('<body><div>Sidebar</div><main><p>Article</p></main></body>');
+
+    expect(page.content).toBe('Article');
+  });
+
+  it('should write headings, lists, code and tables as Markdown', () => {
+    const page = parseHtml(
+      '<h1>Guide</h1><h2>Setup</h2><ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>' +
+        '<pre><code>if (a &lt; b) {\n  run();\n}</code></pre>' +
+        '<table><tr><th>Key</th><th>TTL</th></tr><tr><td>user</td><td>60</td></tr></table>'
+    );
+
+    expect(page.title).toBe('Guide');
+    expect(page.content).toBe(
+      [
+        '# Guide',
+        '## Setup',
+        '- One\n- Two\n  1. Nested',
+        '```\nif (a < b) {\n  run();\n}\n```',
+        '| Key | TTL |\n| --- | --- |\n| user | 60 |',
+      ].join('\n\n')
+    );
+  });
+
+  it('should collect link targets once, without in-page anchors', () => {
+    const page = parseHtml(
+      '<p><a href="https://redis.io">Redis</a> <a href="#top">Top</a> ' +
+        '<a href="/guides/ttl.html">TTLs</a> <a href="https://redis.io">again</a></p>'
+    );
+
+    expect(page.content).toBe('Redis Top TTLs again');
+    expect(page.links).toEqual(['https://redis.io', '/guides/ttl.html']);
+  });
+});
+
+describe('linkTargets', () => {
+  it('should include navigation links but skip nofollow ones', () => {
+    const html =
+      '<nav><a href="/docs">Docs</a></nav><main><a href="/pricing" rel="nofollow">Pricing</a>' +
+      '<a href="javascript:void(0)">Menu</a><a href="/docs">Docs again</a></main>';
+
+    expect(linkTargets(html)).toEqual(['/docs']);
+  });
+
+  it('should read robots meta directives', () => {
+    const page = parseHtml('<meta name="robots" content="noindex, NoFollow"><p>Hidden</p>');
+
+    expect(page.robots).toEqual(['noindex', 'nofollow']);
+  });
+});
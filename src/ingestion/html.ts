@@ -0,0 +1,387 @@
+/**
+ * HTML to Markdown extraction for ingestion. Headings, lists, tables and
+ * preformatted blocks are kept as Markdown so the Markdown chunker can split
+ * pages on their sections; scripts, styles and navigation are dropped.
+ */
+
+export interface HtmlPage {
+  title?: string;
+  description?: string;
+  /** Directives of `<meta name="robots">`, e.g. ["noindex", "nofollow"]. */
+  robots: string[];
+  /** Page text as Markdown. */
+  content: string;
+  /** Link targets in page order, without in-page anchors. */
+  links: string[];
+}
+
+// Never part of the readable page
+const DROPPED_ELEMENTS = new Set([
+  'head',
+  'title',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'canvas',
+  'iframe',
+  'object',
+  'nav',
+  'footer',
+  'aside',
+]);
+
+// Landmarks that hold site navigation rather than page content
+const DROPPED_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'search']);
+
+const VOID_ELEMENTS = new Set([
+  'area',
+  'base',
+  'br',
+  'col',
+  'embed',
+  'hr',
+  'img',
+  'input',
+  'link',
+  'meta',
+  'param',
+  'source',
+  'track',
+  'wbr',
+]);
+
+const BLOCK_ELEMENTS = new Set([
+  'address',
+  'article',
+  'blockquote',
+  'dd',
+  'details',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'form',
+  'header',
+  'hr',
+  'li',
+  'main',
+  'ol',
+  'p',
+  'section',
+  'summary',
+  'ul',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  bull: '•',
+  middot: '·',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  deg: '°',
+  times: '×',
+  euro: '€',
+  pound: '£',
+  rarr: '→',
+  larr: '←',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const hex = name[1] === 'x' || name[1] === 'X';
+      const codePoint = hex ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+// A comment or doctype, or a tag: closing slash, name, attribute source and self-closing slash
+const TAG = /<!--[\s\S]*?-->|<![^>]*>|<(\/?)([a-z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>/gi;
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attribute = /([^\s"'<>\/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+  for (const match of source.matchAll(attribute)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+
+  return attributes;
+}
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Rows as a Markdown table, with the first row as its header. */
+export function markdownTable(rows: string[][]): string {
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) => {
+    const padded = Array.from({ length: width }, (_, i) => (cells[i] ?? '').replace(/\|/g, '\\|'));
+    return `| ${padded.join(' | ')} |`;
+  };
+
+  return [line(rows[0]), line(rows[0].map(() => '---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+interface ListState {
+  ordered: boolean;
+  count: number;
+}
+
+/**
+ * Walks the tags and text of a page once, writing Markdown blocks. Only the
+ * content of `<main>` is kept when the page has one.
+ */
+export function parseHtml(html: string): HtmlPage {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const page: HtmlPage = { content: '', links: [], robots: [] };
+  if (title && collapse(decodeEntities(title[1]))) {
+    page.title = collapse(decodeEntities(title[1]));
+  }
+
+  for (const [, attributeSource] of html.matchAll(/<meta\b([^>]*)>/gi)) {
+    const meta = parseAttributes(attributeSource);
+    const name = (meta.name ?? meta.property ?? '').toLowerCase();
+    const isDescription =
+      name === 'description' || (name === 'og:description' && !page.description);
+    if (isDescription && meta.content) page.description = collapse(meta.content);
+    if (name === 'robots' && meta.content) {
+      page.robots = meta.content.toLowerCase().split(',').map(directive => directive.trim());
+    }
+  }
+
+  const lower = html.toLowerCase();
+  const hasMain = /<main\b/.test(lower);
+  const blocks: string[] = [];
+  const lists: ListState[] = [];
+  let text = '';
+  let prefix = '';
+  let heading = 0;
+  let quoteDepth = 0;
+  let mainDepth = 0;
+  let skipped: { tag: string; depth: number } | null = null;
+  let preformatted: string | null = null;
+  let table: { rows: string[][]; depth: number } | null = null;
+  let row: string[] | null = null;
+  let cell = false;
+
+  const flush = () => {
+    const lines = text
+      .split('\n')
+      .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+      .filter(Boolean);
+    text = '';
+    if (lines.length === 0) return;
+
+    let block = lines.join('\n');
+    if (heading) block = `${'#'.repeat(heading)} ${lines.join(' ')}`;
+    else if (prefix) block = prefix + block;
+    prefix = '';
+
+    if (quoteDepth > 0) {
+      block = block
+        .split('\n')
+        .map(line => `${'> '.repeat(quoteDepth)}${line}`)
+        .join('\n');
+    }
+    blocks.push(block);
+  };
+
+  const endCell = () => {
+    if (row && cell) row.push(collapse(text));
+    text = '';
+    cell = false;
+  };
+
+  const endRow = () => {
+    endCell();
+    if (table && row && row.some(cell => cell)) table.rows.push(row);
+    row = null;
+  };
+
+  const token = new RegExp(TAG);
+  let position = 0;
+  let match: RegExpExecArray | null;
+
+  const addText = (raw: string) => {
+    if (skipped || (hasMain && mainDepth === 0) || !raw) return;
+    const decoded = decodeEntities(raw);
+    if (preformatted !== null) preformatted += decoded;
+    else text += decoded.replace(/\s+/g, ' ');
+  };
+
+  while ((match = token.exec(html))) {
+    addText(html.slice(position, match.index));
+    position = token.lastIndex;
+
+    const [, closing, rawTag, attributeSource, selfClosing] = match;
+    if (!rawTag) continue;
+    const tag = rawTag.toLowerCase();
+    const isVoid = VOID_ELEMENTS.has(tag) || Boolean(selfClosing);
+
+    // Script and style bodies may contain "<", so jump straight to their end tag
+    if (!closing && (tag === 'script' || tag === 'style') && !isVoid) {
+      const end = lower.indexOf(`</${tag}`, position);
+      position = end < 0 ? html.length : end;
+      token.lastIndex = position;
+      continue;
+    }
+
+    if (skipped) {
+      if (tag === skipped.tag && !isVoid) skipped.depth += closing ? -1 : 1;
+      if (skipped.depth === 0) skipped = null;
+      continue;
+    }
+
+    const attributes = closing ? {} : parseAttributes(attributeSource);
+    if (!closing && !isVoid) {
+      const dropped =
+        DROPPED_ELEMENTS.has(tag) ||
+        DROPPED_ROLES.has(attributes.role) ||
+        'hidden' in attributes ||
+        attributes['aria-hidden'] === 'true';
+      if (dropped) {
+        skipped = { tag, depth: 1 };
+        continue;
+      }
+    }
+
+    if (tag === 'main') {
+      mainDepth = Math.max(0, mainDepth + (closing ? -1 : 1));
+      flush();
+      continue;
+    }
+    if (hasMain && mainDepth === 0) continue;
+
+    if (preformatted !== null) {
+      if (tag === 'pre' && closing) {
+        const code = preformatted.replace(/^\n/, '').replace(/\s+$/, '');
+        if (code) blocks.push(`\`\`\`\n${code}\n\`\`\``);
+        preformatted = null;
+      } else if (tag === 'br') {
+        preformatted += '\n';
+      }
+      continue;
+    }
+
+    const href = attributes.href?.trim();
+    if (tag === 'a' && href && !/^(#|javascript:)/i.test(href) && !page.links.includes(href)) {
+      page.links.push(href);
+    }
+
+    if (table) {
+      // Nested tables are flattened into the cell that holds them
+      if (tag === 'table') table.depth += closing ? -1 : 1;
+      if (table.depth === 0) {
+        endRow();
+        if (table.rows.length > 0) blocks.push(markdownTable(table.rows));
+        table = null;
+      } else if (table.depth === 1 && tag === 'tr') {
+        if (row) endRow();
+        if (!closing) row = [];
+        text = '';
+      } else if (table.depth === 1 && (tag === 'td' || tag === 'th')) {
+        if (!row) row = [];
+        endCell();
+        cell = !closing;
+      } else if (tag === 'br' || BLOCK_ELEMENTS.has(tag) || /^h[1-6]$/.test(tag)) {
+        text += ' ';
+      }
+      continue;
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      flush();
+      heading = closing ? 0 : Number(tag[1]);
+    } else if (tag === 'pre' && !closing) {
+      flush();
+      preformatted = '';
+    } else if (tag === 'table' && !closing) {
+      flush();
+      table = { rows: [], depth: 1 };
+    } else if (tag === 'br') {
+      text += '\n';
+    } else if (tag === 'ul' || tag === 'ol') {
+      flush();
+      if (closing) lists.pop();
+      else lists.push({ ordered: tag === 'ol', count: 0 });
+    } else if (tag === 'li' && !closing) {
+      flush();
+      const list = lists[lists.length - 1];
+      const indent = '  '.repeat(Math.max(0, lists.length - 1));
+      prefix = list?.ordered ? `${indent}${++list.count}. ` : `${indent}- `;
+    } else if (tag === 'blockquote') {
+      flush();
+      quoteDepth = Math.max(0, quoteDepth + (closing ? -1 : 1));
+    } else if (BLOCK_ELEMENTS.has(tag) || tag === 'body' || tag === 'tr') {
+      flush();
+    } else if (tag === 'img' && attributes.alt) {
+      text += ` ${attributes.alt} `;
+    }
+  }
+
+  addText(html.slice(position));
+  if (preformatted) blocks.push(`\`\`\`\n${preformatted.trim()}\n\`\`\``);
+  flush();
+
+  if (!page.title) {
+    const firstHeading = blocks.find(block => block.startsWith('# '));
+    if (firstHeading) page.title = firstHeading.slice(2);
+  }
+
+  // List items are kept together so a list reads as one block
+  page.content = blocks
+    .reduce<string[]>((merged, block) => {
+      const previous = merged[merged.length - 1];
+      const isItem = (value?: string) => value !== undefined && /^\s*(-|\d+\.) /.test(value);
+      if (isItem(block) && isItem(previous?.split('\n').pop())) {
+        merged[merged.length - 1] = `${previous}\n${block}`;
+      } else {
+        merged.push(block);
+      }
+      return merged;
+    }, [])
+    .join('\n\n');
+
+  return page;
+}
+
+/**
+ * Every link target of a page, including navigation that `parseHtml` drops,
+ * for discovering pages to crawl. Links marked rel="nofollow" are left out.
+ */
+export function linkTargets(html: string): string[] {
+  const targets = new Set<string>();
+
+  for (const [, closing, tag, attributeSource] of html.matchAll(TAG)) {
+    if (closing || tag?.toLowerCase() !== 'a') continue;
+    const attributes = parseAttributes(attributeSource);
+    const href = attributes.href?.trim();
+    if (href && !/^(#|javascript:)/i.test(href) && !/\bnofollow\b/i.test(attributes.rel ?? '')) {
+      targets.add(href);
+    }
+  }
+
+  return Array.from(targets);
+}
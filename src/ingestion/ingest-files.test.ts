@@ -0,0 +1,456 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Document } from 'langchain/document';
+import { DirectoryIngestor, replaceSource } from './ingest-files.js';
+import { RecordingSink } from './recordingSink.js';
+import { ensureChunkId } from '../lib/chunkIds.js';
+
+describe('DirectoryIngestor', () => {
+  let docsPath: string;
+  let sink: RecordingSink;
+  let ingestor: DirectoryIngestor;
+
+  beforeEach(async () => {
+    docsPath = await fs.mkdtemp(path.join(os.tmpdir(), 'docs-'));
+    await fs.mkdir(path.join(docsPath, 'guides'));
+    await fs.writeFile(path.join(docsPath, 'notes.txt'), 'Notes about connection pooling.');
+    await fs.writeFile(path.join(docsPath, 'guides', 'cache.md'), '# Caching\n\nUse Redis.');
+    await fs.writeFile(path.join(docsPath, '.gitkeep'), '');
+
+    sink = new RecordingSink();
+    ingestor = new DirectoryIngestor(docsPath, sink, { persistManifest: false });
+  });
+
+  afterEach(async () => {
+    await fs.rm(docsPath, { recursive: true, force: true });
+  });
+
+  it('should only re-ingest changed files and drop removed ones', async () => {
+    const first = await ingestor.sync();
+    expect(first.added).toEqual([path.join('guides', 'cache.md'), 'notes.txt']);
+    expect(sink.sources()).toEqual(['guides/cache.md', 'notes.txt']);
+
+    await fs.writeFile(path.join(docsPath, 'notes.txt'), 'Notes about caching instead.');
+    await fs.rm(path.join(docsPath, 'guides'), { recursive: true });
+    const second = await ingestor.sync();
+
+    expect(second.updated).toEqual(['notes.txt']);
+    expect(second.removed).toEqual([path.join('guides', 'cache.md')]);
+    expect(sink.sources()).toEqual(['notes.txt']);
+    expect([...sink.chunks.values()][0].pageContent).toBe('Notes about caching instead.');
+  });
+
+  it('should keep same-named files in different folders apart on a full sync', async () => {
+    await fs.mkdir(path.join(docsPath, 'api'));
+    await fs.writeFile(path.join(docsPath, 'api', 'README.md'), '# API\n\nCall the API.');
+    await fs.writeFile(path.join(docsPath, 'guides', 'README.md'), '# Guides\n\nRead these.');
+    await ingestor.sync();
+
+    const summary = await ingestor.sync({ full: true });
+
+    expect(summary.failed).toEqual([]);
+    expect(sink.sources()).toEqual([
+      'api/README.md',
+      'guides/README.md',
+      'guides/cache.md',
+      'notes.txt',
+    ]);
+  });
+
+  it('should notice edits that keep the mtime', async () => {
+    const notes = path.join(docsPath, 'notes.txt');
+    const cache = path.join(docsPath, 'guides', 'cache.md');
+    const old = new Date('2020-01-01T00:00:00Z');
+    await fs.utimes(notes, old, old);
+    await ingestor.sync();
+    const { mtime } = await fs.stat(cache);
+
+    // An older file whose size changed, and a fresh one edited within its mtime
+    await fs.writeFile(notes, 'Notes about caching instead.');
+    await fs.utimes(notes, old, old);
+    await fs.writeFile(cache, '# Caching\n\nUse Redix.');
+    await fs.utimes(cache, mtime, mtime);
+    const summary = await ingestor.sync();
+
+    expect(summary.updated).toEqual([path.join('guides', 'cache.md'), 'notes.txt']);
+  });
+
+  it('should scan large trees a few files at a time', async () => {
+    await fs.mkdir(path.join(docsPath, 'bulk'));
+    for (let i = 0; i < 300; i++) {
+      await fs.writeFile(path.join(docsPath, 'bulk', `note-${i}.txt`), `Note number ${i}.`);
+    }
+    let open = 0;
+    let mostOpen = 0;
+    const readFile = fs.readFile;
+    const spy = vi.spyOn(fs, 'readFile').mockImplementation(async (...args) => {
+      mostOpen = Math.max(mostOpen, ++open);
+      try {
+        return await readFile(...(args as Parameters<typeof readFile>));
+      } finally {
+        open--;
+      }
+    });
+
+    try {
+      const summary = await ingestor.sync({ dryRun: true });
+      expect(summary.added).toHaveLength(302);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(mostOpen).toBeGreaterThan(1);
+    expect(mostOpen).toBeLessThanOrEqual(16);
+  });
+
+  it('should sync only the given paths', async () => {
+    await ingestor.sync();
+    await fs.writeFile(path.join(docsPath, 'new.txt'), 'A new file.');
+    await fs.rm(path.join(docsPath, 'notes.txt'));
+
+    const summary = await ingestor.syncPaths(['new.txt']);
+
+    expect(summary.added).toEqual(['new.txt']);
+    expect(summary.removed).toEqual([]);
+    expect(sink.sources()).toEqual(['guides/cache.md', 'new.txt', 'notes.txt']);
+  });
+
+  it('should leave files outside the include and exclude globs alone', async () => {
+    const options = { persistManifest: true, manifestPath: path.join(docsPath, '.manifest.json') };
+    await new DirectoryIngestor(docsPath, sink, options).sync();
+    await fs.writeFile(path.join(docsPath, 'guides', 'draft.md'), '# Draft\n\nNot ready.');
+    await fs.rm(path.join(docsPath, 'notes.txt'));
+
+    const scoped = new DirectoryIngestor(docsPath, sink, {
+      ...options,
+      include: ['guides/'],
+      exclude: ['draft*'],
+      metadata: { category: 'guides' },
+    });
+    await scoped.loadManifest();
+    await fs.writeFile(path.join(docsPath, 'guides', 'cache.md'), '# Caching\n\nUse Memcached.');
+    const summary = await scoped.sync();
+
+    expect(summary.updated).toEqual([path.join('guides', 'cache.md')]);
+    expect(summary.added).toEqual([]);
+    // notes.txt is out of scope, so its chunks stay
+    expect(summary.removed).toEqual([]);
+    expect(sink.sources()).toEqual(['guides/cache.md', 'notes.txt']);
+    const chunk = [...sink.chunks.values()].find(
+      doc => doc.metadata.source === 'guides/cache.md'
+    );
+    expect(chunk?.metadata.category).toBe('guides');
+  });
+
+  it('should estimate chunks and tokens on a dry run without writing', async () => {
+    const manifestPath = path.join(docsPath, '.manifest.json');
+    const dryRunIngestor = new DirectoryIngestor(docsPath, sink, {
+      persistManifest: true,
+      manifestPath,
+      concurrency: 2,
+    });
+
+    const summary = await dryRunIngestor.sync({ dryRun: true });
+
+    expect(summary.added).toEqual([path.join('guides', 'cache.md'), 'notes.txt']);
+    expect(summary.estimates).toEqual([
+      { path: path.join('guides', 'cache.md'), chunks: 1, newChunks: 1, tokens: 7 },
+      { path: 'notes.txt', chunks: 1, newChunks: 1, tokens: 5 },
+    ]);
+    expect(summary.chunksAdded).toBe(2);
+    expect(sink.chunks.size).toBe(0);
+    await expect(fs.access(manifestPath)).rejects.toThrow();
+  });
+
+  it('should chunk source files on their declarations and skip node_modules', async () => {
+    const source = 'export function add(a: number, b: number) {\n  return a + b;\n}\n';
+    await fs.mkdir(path.join(docsPath, 'node_modules', 'dep'), { recursive: true });
+    await fs.writeFile(path.join(docsPath, 'node_modules', 'dep', 'index.js'), source);
+    await fs.writeFile(path.join(docsPath, 'math.ts'), source);
+
+    await ingestor.sync();
+    const chunk = [...sink.chunks.values()].find(doc => doc.metadata.source === 'math.ts');
+
+    expect(sink.sources()).toEqual(['guides/cache.md', 'math.ts', 'notes.txt']);
+    expect(chunk?.metadata).toMatchObject({
+      language: 'typescript',
+      symbol: 'add',
+      symbolKind: 'function',
+      startLine: 1,
+      endLine: 3,
+    });
+  });
+
+  it('should re-ingest everything when the chunking strategy changes', async () => {
+    const manifestPath = path.join(docsPath, '.manifest.json');
+    const options = { persistManifest: true, manifestPath };
+    await new DirectoryIngestor(docsPath, sink, { ...options, strategy: 'adaptive' }).sync();
+
+    const recursive = new DirectoryIngestor(docsPath, sink, { ...options, strategy: 'recursive' });
+    await recursive.loadManifest();
+    const summary = await recursive.sync();
+
+    expect(summary.updated).toEqual([path.join('guides', 'cache.md'), 'notes.txt']);
+    expect([...sink.chunks.values()].map(doc => doc.metadata.chunkingStrategy)).toEqual([
+      'semantic',
+      'semantic',
+    ]);
+  });
+
+  it('should load HTML pages as sections with their title and links', async () => {
+    const html =
+      '<html><head><title>Caching Guide</title></head><body><nav>Menu</nav>' +
+      '<h1>Caching</h1><h2>Redis</h2>' +
+      '<p>See <a href="https://redis.io">Redis</a>.</p></body></html>';
+    await fs.writeFile(path.join(docsPath, 'caching.html'), html);
+
+    await ingestor.sync();
+    const chunk = [...sink.chunks.values()].find(doc => doc.metadata.source === 'caching.html');
+
+    expect(chunk?.pageContent).toBe('## Redis\n\nSee Redis.');
+    expect(chunk?.metadata).toMatchObject({
+      title: 'Caching Guide',
+      sectionPath: 'Redis',
+      links: ['https://redis.io'],
+    });
+  });
+
+  it('should ingest one chunk per CSV row and re-ingest when its options change', async () => {
+    const csv = 'sku,name,price\nA-1,Wireless Mouse,25\nB-2,USB Hub,40\n';
+    await fs.writeFile(path.join(docsPath, 'products.csv'), csv);
+    await fs.writeFile(
+      path.join(docsPath, 'products.csv.ingest.json'),
+      JSON.stringify({ textTemplate: '{name}', titleField: 'name' })
+    );
+
+    const first = await ingestor.sync();
+    const rows = [...sink.chunks.values()].filter(doc => doc.metadata.source === 'products.csv');
+
+    expect(first.added).toContain('products.csv');
+    expect(first.added).not.toContain('products.csv.ingest.json');
+    expect(rows.map(doc => doc.pageContent)).toEqual(['Wireless Mouse', 'USB Hub']);
+    expect(rows[0].metadata).toMatchObject({
+      chunkingStrategy: 'record',
+      recordTitle: 'Wireless Mouse',
+      sku: 'A-1',
+      price: 25,
+    });
+
+    // A later mtime than the data file, as an edit would have
+    const optionsPath = path.join(docsPath, 'products.csv.ingest.json');
+    await fs.writeFile(optionsPath, JSON.stringify({ textTemplate: '{name} ({sku})' }));
+    await fs.utimes(optionsPath, new Date(), new Date(Date.now() + 60_000));
+    const second = await ingestor.sync();
+
+    expect(second.updated).toEqual(['products.csv']);
+    expect(
+      [...sink.chunks.values()]
+        .filter(doc => doc.metadata.source === 'products.csv')
+        .map(doc => doc.pageContent)
+    ).toEqual(['Wireless Mouse (A-1)', 'USB Hub (B-2)']);
+  });
+
+  it('should chunk each message of a mailbox on its own', async () => {
+    const mbox =
+      'From a@example.com Mon Jan  1 00:00:00 2024\n' +
+      'Subject: Outage\nFrom: Ops <a@example.com>\n\nThe database is down.\n\n' +
+      'From b@example.com Mon Jan  1 01:00:00 2024\nSubject: Re: Outage\n\nIt is back up.\n';
+    await fs.writeFile(path.join(docsPath, 'support.mbox'), mbox);
+
+    await ingestor.sync();
+    const chunks = [...sink.chunks.values()];
+    const messages = chunks.filter(doc => doc.metadata.source === 'support.mbox');
+
+    expect(messages.map(doc => [doc.metadata.chunkIndex, doc.metadata.subject])).toEqual([
+      [0, 'Outage'],
+      [1, 'Re: Outage'],
+    ]);
+    expect(messages[0].pageContent).toBe(
+      'Subject: Outage\nFrom: Ops <a@example.com>\n\nThe database is down.'
+    );
+  });
+
+  it('should merge duplicate chunks across files into the first copy', async () => {
+    const footer =
+      'This handbook is maintained by the platform team. For questions about deployments, ' +
+      'on-call rotations or access requests, open a ticket in the service desk and include ' +
+      'the name of the affected service, the environment and a link to the dashboard. ' +
+      'Pages are reviewed every quarter, and outdated sections are archived in the wiki.';
+    await fs.writeFile(path.join(docsPath, 'intro.txt'), footer);
+    await fs.writeFile(path.join(docsPath, 'onboarding.txt'), footer.replace('quarter', 'month'));
+    const merging = new DirectoryIngestor(docsPath, sink, {
+      persistManifest: false,
+      dedup: 'merge',
+    });
+
+    const first = await merging.sync();
+
+    expect(first.duplicates).toEqual([
+      expect.objectContaining({
+        kind: 'near',
+        kept: expect.objectContaining({ source: 'intro.txt' }),
+        duplicates: [expect.objectContaining({ source: 'onboarding.txt' })],
+      }),
+    ]);
+    expect(sink.sources()).toEqual(['guides/cache.md', 'intro.txt', 'notes.txt']);
+    const kept = [...sink.chunks.values()].find(doc => doc.metadata.source === 'intro.txt')!;
+    expect(kept.metadata.duplicateSources).toEqual(['onboarding.txt']);
+
+    // Unchanged files are not duplicates of themselves
+    expect((await merging.sync()).duplicates).toBeUndefined();
+
+    // Editing the kept copy checks the duplicate again, deleting it restores the duplicate
+    await fs.appendFile(path.join(docsPath, 'intro.txt'), ' Thanks!');
+    const edited = await merging.sync();
+    expect(edited.updated).toEqual(['intro.txt', 'onboarding.txt']);
+    expect(edited.duplicates?.map(cluster => cluster.duplicates[0].source)).toEqual([
+      'onboarding.txt',
+    ]);
+
+    await fs.rm(path.join(docsPath, 'intro.txt'));
+    const removed = await merging.sync();
+    expect(removed.removed).toEqual(['intro.txt']);
+    expect(removed.updated).toEqual(['onboarding.txt']);
+    expect(sink.sources()).toEqual(['guides/cache.md', 'notes.txt', 'onboarding.txt']);
+  });
+
+  it('should take removed and changed duplicates off the chunk they merged into', async () => {
+    const footer =
+      'This handbook is maintained by the platform team. For questions about deployments, ' +
+      'on-call rotations or access requests, open a ticket in the service desk and include ' +
+      'the name of the affected service, the environment and a link to the dashboard. ' +
+      'Pages are reviewed every quarter, and outdated sections are archived in the wiki.';
+    await fs.writeFile(path.join(docsPath, 'intro.txt'), footer);
+    await fs.writeFile(path.join(docsPath, 'onboarding.txt'), footer.replace('quarter', 'month'));
+    await fs.writeFile(path.join(docsPath, 'welcome.txt'), footer.replace('quarter', 'year'));
+    const merging = new DirectoryIngestor(docsPath, sink, {
+      persistManifest: false,
+      dedup: 'merge',
+    });
+
+    await merging.sync();
+    expect(sink.find('intro.txt')!.metadata.duplicateSources).toEqual([
+      'onboarding.txt',
+      'welcome.txt',
+    ]);
+
+    await fs.rm(path.join(docsPath, 'onboarding.txt'));
+    await fs.writeFile(path.join(docsPath, 'welcome.txt'), 'Welcome to the platform team!');
+    const synced = await merging.sync();
+
+    expect(synced.removed).toEqual(['onboarding.txt']);
+    expect(synced.updated).toEqual(['welcome.txt']);
+    expect(sink.find('intro.txt')!.metadata.duplicateSources).toEqual([]);
+  });
+
+  it('should sync changes once they settle', async () => {
+    await fs.mkdir(path.join(docsPath, 'node_modules'));
+    const syncPaths = vi.spyOn(ingestor, 'syncPaths');
+    const watcher = ingestor.watch(100);
+
+    try {
+      await fs.writeFile(path.join(docsPath, 'notes.txt'), 'Notes about caching instead.');
+      await fs.writeFile(path.join(docsPath, 'guides', 'queues.md'), '# Queues\n\nUse Kafka.');
+      await fs.writeFile(path.join(docsPath, 'products.csv'), 'sku,name\nA-1,Mouse\n');
+      await fs.writeFile(path.join(docsPath, 'products.csv.ingest.json'), '{}');
+      await fs.writeFile(path.join(docsPath, 'node_modules', 'index.js'), 'module.exports = 1;');
+
+      await vi.waitFor(() => expect(sink.sources()).toContain('products.csv'), { timeout: 2000 });
+    } finally {
+      watcher.close();
+    }
+
+    // One sync for the whole burst, with option files mapped to their data file
+    expect(syncPaths).toHaveBeenCalledTimes(1);
+    expect([...new Set(syncPaths.mock.calls[0][0])].sort()).toEqual([
+      path.join('guides', 'queues.md'),
+      'notes.txt',
+      'products.csv',
+    ]);
+    expect(sink.sources()).toEqual(['guides/queues.md', 'notes.txt', 'products.csv']);
+  });
+
+  it('should stop watching when the watcher fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const watcher = ingestor.watch(100);
+    const closed = new Promise(resolve => watcher.on('close', resolve));
+
+    watcher.emit('error', Object.assign(new Error('watch limit reached'), { code: 'ENOSPC' }));
+
+    await closed;
+    expect(error).toHaveBeenCalledWith(
+      `❌ Stopped watching ${docsPath}:`,
+      expect.objectContaining({ code: 'ENOSPC' })
+    );
+    error.mockRestore();
+  });
+
+  it('should reject binary files without a loader', async () => {
+    await fs.writeFile(path.join(docsPath, 'logo.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0]));
+
+    const summary = await ingestor.sync();
+
+    expect(summary.failed).toEqual(['logo.png']);
+    expect(sink.sources()).toEqual(['guides/cache.md', 'notes.txt']);
+  });
+
+  it('should read Latin-1 text files that are not valid UTF-8', async () => {
+    // 0x80 is the euro sign in Windows-1252
+    const latin1 = Buffer.concat([Buffer.from('Café crème, 5 ', 'latin1'), Buffer.from([0x80])]);
+    await fs.writeFile(path.join(docsPath, 'menu.txt'), latin1);
+    await fs.writeFile(path.join(docsPath, 'menu.rst'), latin1);
+
+    const summary = await ingestor.sync();
+
+    expect(summary.failed).toEqual([]);
+    const menus = [...sink.chunks.values()].filter(doc => doc.metadata.title === 'menu');
+    expect(menus.map(doc => doc.pageContent)).toEqual(['Café crème, 5 €', 'Café crème, 5 €']);
+  });
+
+  it('should record failures per file and keep going', async () => {
+    await fs.writeFile(path.join(docsPath, 'broken.json'), '{ not json');
+
+    const summary = await ingestor.sync();
+
+    expect(summary.failed).toEqual(['broken.json']);
+    expect(summary.added).toHaveLength(2);
+  });
+});
+
+describe('replaceSource', () => {
+  const chunk = (pageContent: string, chunkIndex: number) => {
+    const doc = new Document({ pageContent, metadata: { source: 'faq.md', chunkIndex } });
+    ensureChunkId(doc, chunkIndex);
+    return doc;
+  };
+
+  it('should add the new chunks before deleting stale ones', async () => {
+    const sink = new RecordingSink();
+    await sink.addDocuments([chunk('Old answer.', 0), chunk('Kept answer.', 1)]);
+
+    const replaced = await replaceSource(sink, 'faq.md', [
+      chunk('New answer.', 0),
+      chunk('Kept answer.', 1),
+    ]);
+
+    expect(replaced).toBe(2);
+    expect([...sink.chunks.values()].map(doc => doc.pageContent).sort()).toEqual([
+      'Kept answer.',
+      'New answer.',
+    ]);
+  });
+
+  it('should keep the previous chunks when storing the new ones fails', async () => {
+    const sink = new RecordingSink();
+    await sink.addDocuments([chunk('Old answer.', 0)]);
+    sink.addDocuments = async () => {
+      throw new Error('embedding failed');
+    };
+
+    await expect(replaceSource(sink, 'faq.md', [chunk('New answer.', 0)])).rejects.toThrow(
+      'embedding failed'
+    );
+    expect([...sink.chunks.values()].map(doc => doc.pageContent)).toEqual(['Old answer.']);
+  });
+});
@@ -1,11 +1,47 @@
 import { HybridVectorStore } from '../lib/vectorStore.js';
 import { MockVectorStore } from '../lib/mock/mockServices.js';
-import { ChunkingPipeline, AdaptiveChunking } from '../lib/chunking.js';
+import {
+  ChunkingPipeline,
+  ChunkingStrategyName,
+  PageBreak,
+  chunkingStrategies,
+  createChunkingStrategy,
+  detectLanguage,
+} from '../lib/chunking.js';
 import { config } from '../config/index.js';
+import { ChunkDeduplicator, DedupPolicy, DuplicateCluster, textHash } from '../lib/dedup.js';
+import { contentHash, ensureChunkId } from '../lib/chunkIds.js';
+import {
+  FileState,
+  IngestionManifest,
+  IngestionPlan,
+  ManifestEntry,
+  emptyManifest,
+  fingerprintedChunks,
+  foldedEntries,
+  loadManifest,
+  planIngestion,
+  saveManifest,
+} from './manifest.js';
 import fs from 'fs/promises';
+import { FSWatcher, watch as watchFs } from 'fs';
 import path from 'path';
+import { Document } from 'langchain/document';
 import { PDFLoader } from '@langchain/community/document_loaders/fs/pdf';
-import { CSVLoader } from '@langchain/community/document_loaders/fs/csv';
+import {
+  RECORD_OPTIONS_SUFFIX,
+  StructuredRecord,
+  csvRecords,
+  jsonRecords,
+  loadRecordOptions,
+  recordsToDocuments,
+} from './structured.js';
+import { parseHtml } from './html.js';
+import { docxToMarkdown, pptxToMarkdown, xlsxSheets } from './office.js';
+import { emailMetadata, emailText, parseEmail, parseMbox } from './email.js';
+import { IgnoreRule, isGitIgnored, parseGitignore } from './gitignore.js';
+import { TokenCounter, createTokenCounter, embeddingCost } from './estimate.js';
+import { INGEST_USAGE, IngestCliOptions, parseIngestArgs } from './cli.js';
 
 interface FileDocument {
   content: string;
@@ -15,15 +51,31 @@ interface FileDocument {
     fileType: string;
     [key: string]: any;
   };
+  pages?: PageBreak[];
+  // CSV rows, JSON records and spreadsheet rows, each ingested as a single chunk
+  records?: StructuredRecord[];
+  // Messages of a mailbox, chunked separately
+  parts?: Array<{ content: string; metadata: Record<string, any> }>;
 }
 
-async function loadDocumentFromFile(filePath: string): Promise<FileDocument> {
+/**
+ * Loads one file. `source` identifies the document in the store and defaults
+ * to the file name; directory ingestion passes the path relative to the
+ * directory so same-named files in different folders stay apart.
+ */
+async function loadDocumentFromFile(
+  filePath: string,
+  source: string = path.basename(filePath)
+): Promise<FileDocument> {
   const ext = path.extname(filePath).toLowerCase();
   const fileName = path.basename(filePath);
 
   let content: string;
+  let pages: PageBreak[] | undefined;
+  let records: StructuredRecord[] | undefined;
+  let parts: FileDocument['parts'];
   let metadata: any = {
-    source: fileName,
+    source,
     title: fileName.replace(ext, ''),
     fileType: ext.substring(1),
     filePath: filePath
@@ -34,38 +86,129 @@ async function loadDocumentFromFile(filePath: string): Promise<FileDocument> {
       case '.txt':
       case '.md':
       case '.markdown':
-        content = await fs.readFile(filePath, 'utf-8');
+        content = decodeText(await fs.readFile(filePath));
         break;
 
       case '.pdf':
         const pdfLoader = new PDFLoader(filePath);
         const pdfDocs = await pdfLoader.load();
-        content = pdfDocs.map(doc => doc.pageContent).join('\n\n');
-        metadata.pageCount = pdfDocs.length;
+
+        // One document per page; remember where each page starts so chunks get page numbers
+        content = '';
+        pages = [];
+        for (const [i, pageDoc] of pdfDocs.entries()) {
+          if (i > 0) content += '\n\n';
+          const pageNumber = pageDoc.metadata.loc?.pageNumber ?? i + 1;
+          pages.push({ pageNumber, offset: content.length });
+          content += pageDoc.pageContent;
+        }
+
+        const pdfInfo = pdfDocs[0]?.metadata.pdf;
+        metadata.pageCount = pdfInfo?.totalPages ?? pdfDocs.length;
+        if (pdfInfo?.info?.Title?.trim()) metadata.title = pdfInfo.info.Title.trim();
+        if (pdfInfo?.info?.Author?.trim()) metadata.author = pdfInfo.info.Author.trim();
         break;
 
       case '.json':
         const jsonContent = await fs.readFile(filePath, 'utf-8');
         const jsonData = JSON.parse(jsonContent);
-        content = JSON.stringify(jsonData, null, 2);
+        // Arrays of objects are split into records; any other JSON is one document
+        records = jsonRecords(jsonData, await loadRecordOptions(filePath)) ?? undefined;
+        content = records
+          ? records.map(record => record.content).join('\n\n')
+          : JSON.stringify(jsonData, null, 2);
+        break;
+
+      case '.jsonl':
+      case '.ndjson':
+        const jsonLines = await fs.readFile(filePath, 'utf-8');
+        const lineRecords = jsonLines
+          .split('\n')
+          .filter(line => line.trim())
+          .map(line => JSON.parse(line));
+        records = jsonRecords(lineRecords, await loadRecordOptions(filePath)) ?? undefined;
+        content = records ? records.map(record => record.content).join('\n\n') : jsonLines;
         break;
 
       case '.csv':
-        const csvLoader = new CSVLoader(filePath);
-        const csvDocs = await csvLoader.load();
-        content = csvDocs.map(doc => doc.pageContent).join('\n');
+        const csvContent = decodeText(await fs.readFile(filePath));
+        records = csvRecords(csvContent, await loadRecordOptions(filePath));
+        content = records.map(record => record.content).join('\n\n');
         break;
 
       case '.html':
       case '.htm':
-        const htmlContent = await fs.readFile(filePath, 'utf-8');
-        // Simple HTML to text conversion (removes tags)
-        content = htmlContent.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+        // Converted to Markdown, so pages are chunked on their headings
+        const htmlPage = parseHtml(decodeText(await fs.readFile(filePath)));
+        content = htmlPage.content;
+        if (htmlPage.title) metadata.title = htmlPage.title;
+        if (htmlPage.description) metadata.description = htmlPage.description;
+        if (htmlPage.links.length > 0) metadata.links = htmlPage.links;
+        break;
+
+      case '.docx':
+      case '.pptx':
+        const buffer = await fs.readFile(filePath);
+        const office = ext === '.docx' ? docxToMarkdown(buffer) : pptxToMarkdown(buffer);
+        content = office.content;
+        if (office.title) metadata.title = office.title;
+        if (office.author) metadata.author = office.author;
+        if ('slideCount' in office) metadata.slideCount = office.slideCount;
+        break;
+
+      case '.xlsx':
+        const workbookOptions = await loadRecordOptions(filePath);
+        const sheets = xlsxSheets(await fs.readFile(filePath));
+        records = sheets.flatMap(sheet => {
+          const rows = recordsToDocuments(sheet.rows.map(row => row.values), workbookOptions);
+          // Rows are cited by sheet and row number unless the options name a title field
+          return rows.map(record => {
+            const { row } = sheet.rows[record.metadata.recordIndex];
+            return {
+              ...record,
+              metadata: {
+                recordTitle: `${sheet.name}, row ${row}`,
+                ...record.metadata,
+                sheet: sheet.name,
+                row,
+              },
+            };
+          });
+        });
+        content = records.map(record => record.content).join('\n\n');
+        metadata.sheets = sheets.map(sheet => sheet.name);
+        break;
+
+      case '.eml':
+        const email = parseEmail(await fs.readFile(filePath, 'latin1'));
+        content = emailText(email);
+        metadata = { ...metadata, ...emailMetadata(email) };
+        if (email.subject) metadata.title = email.subject;
+        break;
+
+      case '.mbox':
+        const messages = parseMbox(await fs.readFile(filePath, 'latin1'));
+        parts = messages.map(message => ({
+          content: emailText(message),
+          metadata: emailMetadata(message),
+        }));
+        content = parts.map(part => part.content).join('\n\n');
+        metadata.messageCount = messages.length;
         break;
 
       default:
-        // Try to read as text
-        content = await fs.readFile(filePath, 'utf-8');
+        // Anything else must be text; binary formats we have no loader for are rejected
+        const bytes = await fs.readFile(filePath);
+        if (isBinary(bytes)) {
+          throw new Error(`Unsupported file type: ${fileName} is a binary file`);
+        }
+        content = decodeText(bytes);
+    }
+
+    // Source files are chunked on their declarations
+    const language = detectLanguage(ext);
+    if (language) {
+      metadata.language = language;
     }
 
     // Extract title from markdown headers if available
@@ -81,51 +224,833 @@ async function loadDocumentFromFile(filePath: string): Promise<FileDocument> {
     metadata.fileSize = stats.size;
     metadata.lastModified = stats.mtime.toISOString();
 
-    return { content, metadata };
+    if (records) {
+      metadata.recordCount = records.length;
+    }
+
+    return {
+      content,
+      metadata,
+      ...(pages && { pages }),
+      ...(records && { records }),
+      ...(parts && { parts }),
+    };
   } catch (error) {
     console.error(`Error loading file ${filePath}:`, error);
     throw error;
   }
 }
 
+/** A NUL byte in the first 8000 bytes, the way git tells binary files apart. */
+export function isBinary(bytes: Buffer): boolean {
+  return bytes.subarray(0, 8000).includes(0);
+}
+
+// Windows-1252 characters for bytes 0x80-0x9f, which Latin-1 leaves as control codes.
+// Node's TextDecoder treats "windows-1252" as plain Latin-1.
+const WINDOWS_1252 =
+  '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+/** Text as UTF-8, or as Windows-1252 (a superset of Latin-1) when it is not valid UTF-8. */
+export function decodeText(bytes: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return bytes
+      .toString('latin1')
+      .replace(/[\u0080-\u009f]/g, char => WINDOWS_1252[char.charCodeAt(0) - 0x80]);
+  }
+}
+
+/**
+ * Hidden files such as .gitkeep, installed dependencies when pointed at a code
+ * repository, and record options, which are read along with their data file.
+ */
+export function isIgnored(name: string): boolean {
+  return name.startsWith('.') || name === 'node_modules' || name.endsWith(RECORD_OPTIONS_SUFFIX);
+}
+
+/** The source of a file below the documents directory: its relative path, with forward slashes. */
+function sourceKey(relativePath: string): string {
+  return relativePath.split(path.sep).join('/');
+}
+
+/** Every ingestible file below dirPath. */
+async function listFiles(dirPath: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (isIgnored(entry.name)) continue;
+
+    const filePath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(filePath)));
+    } else {
+      files.push(filePath);
+    }
+  }
+
+  return files.sort();
+}
+
 async function loadDocumentsFromDirectory(dirPath: string): Promise<FileDocument[]> {
   const documents: FileDocument[] = [];
 
   try {
-    const files = await fs.readdir(dirPath);
+    for (const filePath of await listFiles(dirPath)) {
+      try {
+        console.log(`📄 Loading: ${filePath}`);
+        const source = sourceKey(path.relative(dirPath, filePath));
+        const doc = await loadDocumentFromFile(filePath, source);
+        documents.push(doc);
+      } catch (error) {
+        console.warn(`⚠️ Skipping file ${filePath}: ${error}`);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading directory ${dirPath}:`, error);
+  }
+
+  return documents;
+}
+
+// Files modified this close to the last manifest write may have changed again
+// without a new mtime (coarse timestamps, same-millisecond edits), so they are
+// always hashed; 2 seconds covers the coarsest file systems
+const RACY_WINDOW_MS = 2000;
+
+// Files stat'ed and hashed at the same time, bounding open descriptors and memory
+const SCAN_CONCURRENCY = 16;
+
+/**
+ * Hashes the file unless its mtime and size still match the manifest entry
+ * and the mtime is safely older than the manifest. Record options count as
+ * part of their data file, so editing them re-ingests it.
+ */
+async function scanFile(
+  docsPath: string,
+  filePath: string,
+  manifest: IngestionManifest
+): Promise<FileState> {
+  const relativePath = path.relative(docsPath, filePath);
+  const optionsPath = `${filePath}${RECORD_OPTIONS_SUFFIX}`;
+  const optionsStats = await fs.stat(optionsPath).catch(() => null);
+
+  const stats = await fs.stat(filePath);
+  const modified =
+    optionsStats && optionsStats.mtime > stats.mtime ? optionsStats.mtime : stats.mtime;
+  const mtime = modified.toISOString();
+  const size = stats.size + (optionsStats?.size ?? 0);
+  const entry = manifest.files[relativePath];
+
+  const racy = modified.getTime() > Date.parse(manifest.updatedAt) - RACY_WINDOW_MS;
+  if (entry && entry.mtime === mtime && entry.size === size && !racy) {
+    return { path: relativePath, contentHash: entry.contentHash, mtime, size };
+  }
+
+  const content = await fs.readFile(filePath);
+  const hashed = optionsStats ? Buffer.concat([content, await fs.readFile(optionsPath)]) : content;
+  return { path: relativePath, contentHash: contentHash(hashed), mtime, size };
+}
+
+const SUPPORTED_FORMATS = `
+  - Text files (.txt)
+  - Markdown (.md, .markdown)
+  - PDFs (.pdf)
+  - JSON (.json, .jsonl, .ndjson)
+  - CSV (.csv)
+  - HTML (.html, .htm)
+  - Word, PowerPoint and Excel (.docx, .pptx, .xlsx)
+  - Email (.eml, .mbox)
+  - Source code (.ts, .tsx, .js, .jsx, .mjs, .cjs, .py, .go)`;
+
+/** Where ingested chunks go: a vector store, or the server's RAG pipeline. */
+export interface ChunkSink {
+  addDocuments(documents: Document[]): Promise<void>;
+  deleteChunks(chunkIds: string[]): Promise<void>;
+  deleteBySource(source: string): Promise<number>;
+  /** Adds sources to `duplicateSources` of stored chunks, keyed by chunk id. */
+  addDuplicateSources?(sources: Map<string, string[]>): Promise<void>;
+  /** Takes a source off `duplicateSources` of stored chunks, keyed by chunk id. */
+  removeDuplicateSources?(chunkIds: string[], source: string): Promise<void>;
+}
+
+/** What a dry run would do with a new or changed file. */
+export interface FileEstimate {
+  path: string;
+  chunks: number;
+  // Chunks that would be embedded, and their tokens; unchanged chunks are reused
+  newChunks: number;
+  tokens: number;
+}
+
+export interface IngestionSummary {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: string[];
+  failed: string[];
+  chunksAdded: number;
+  chunksRemoved: number;
+  estimates?: FileEstimate[];
+  duplicates?: DuplicateCluster[];
+}
+
+export function emptySummary(): IngestionSummary {
+  return {
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: [],
+    failed: [],
+    chunksAdded: 0,
+    chunksRemoved: 0,
+  };
+}
+
+/**
+ * Records merged duplicates on the chunks they repeat. Runs after the batch
+ * was stored, since the chunk a duplicate merges into may be part of it.
+ */
+export async function storeDuplicateSources(
+  sink: ChunkSink,
+  deduplicator: ChunkDeduplicator
+): Promise<void> {
+  const merges = deduplicator.takeMerges();
+  if (merges.size > 0 && sink.addDuplicateSources) {
+    await sink.addDuplicateSources(merges);
+  }
+}
+
+/**
+ * Takes a source off the chunks it was folded into before (`before`) but no
+ * longer is (`after`), once it was removed or ingested again.
+ */
+export async function dropDuplicateSources(
+  sink: ChunkSink,
+  source: string,
+  before: string[] = [],
+  after: string[] = []
+): Promise<void> {
+  const stale = before.filter(chunkId => !after.includes(chunkId));
+  if (stale.length > 0 && sink.removeDuplicateSources) {
+    await sink.removeDuplicateSources(stale, source);
+  }
+}
+
+/**
+ * Fingerprints to keep in the manifest entry of a source, when its chunks
+ * have them, and the chunks its duplicates were folded into.
+ */
+export function chunkFingerprints(
+  chunks: Document[],
+  deduplicator: ChunkDeduplicator,
+  source: string
+): Pick<ManifestEntry, 'fingerprints' | 'chunkHashes' | 'foldedInto'> {
+  const foldedInto = deduplicator.takeFolded(source);
+  return {
+    ...(chunks.length > 0 &&
+      chunks.every(chunk => chunk.metadata.minhash) && {
+        fingerprints: chunks.map(chunk => chunk.metadata.minhash),
+        chunkHashes: chunks.map(chunk => textHash(chunk.pageContent)),
+      }),
+    ...(foldedInto.length > 0 && { foldedInto }),
+  };
+}
+
+/**
+ * Stores the chunks of one source in place of the ones it had before and
+ * returns their ids. Only chunks with new ids are embedded, and stale ones
+ * are deleted after the new ones are stored, so a failure keeps the old
+ * version searchable. A full replace clears the source first and re-adds all.
+ */
+export async function replaceChunks(
+  sink: ChunkSink,
+  source: string,
+  chunks: Document[],
+  options: { previousIds: string[]; full: boolean; summary: IngestionSummary }
+): Promise<string[]> {
+  const { previousIds, full, summary } = options;
+  const chunkIds = chunks.map((chunk, i) => ensureChunkId(chunk, i));
+
+  if (full) {
+    // The manifest's ids first, since they may have been stored under another
+    // source; then anything ingested before the manifest existed
+    await sink.deleteChunks(previousIds);
+    summary.chunksRemoved += previousIds.length + (await sink.deleteBySource(source));
+  }
+
+  // Chunks whose id is unchanged are already stored with the same content
+  const newChunks = full
+    ? chunks
+    : chunks.filter(chunk => !previousIds.includes(chunk.metadata.chunkId));
+  if (newChunks.length > 0) {
+    await sink.addDocuments(newChunks);
+  }
+  summary.chunksAdded += newChunks.length;
+
+  if (!full) {
+    const stale = previousIds.filter(id => !chunkIds.includes(id));
+    await sink.deleteChunks(stale);
+    summary.chunksRemoved += stale.length;
+  }
+
+  return chunkIds;
+}
+
+/** A sink that can list the chunks stored for a source. */
+export interface SourceStore extends ChunkSink {
+  getChunks(source: string): Promise<Document[]>;
+}
+
+/**
+ * Replaces the chunks of a source no manifest tracks, such as an upload. Its
+ * current chunk ids are read from the store, and they are only deleted once
+ * the new chunks are stored. Returns how many chunks the source had before.
+ */
+export async function replaceSource(
+  store: SourceStore,
+  source: string,
+  chunks: Document[]
+): Promise<number> {
+  const previousIds = (await store.getChunks(source))
+    .map(chunk => chunk.metadata.chunkId)
+    .filter(Boolean);
+  await replaceChunks(store, source, chunks, { previousIds, full: false, summary: emptySummary() });
+  return previousIds.length;
+}
+
+export interface DirectoryIngestorOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+  strategy?: ChunkingStrategyName;
+  persistManifest?: boolean;
+  manifestPath?: string;
+  collection?: string;
+  /** Globs in .gitignore syntax, matched against paths relative to the directory. */
+  include?: string[];
+  exclude?: string[];
+  /** Added to every chunk; metadata set by the loaders wins. */
+  metadata?: Record<string, string>;
+  /** Files loaded and embedded at the same time. */
+  concurrency?: number;
+  dedup?: DedupPolicy;
+}
+
+// Runs fn over the items with at most `limit` calls in flight
+async function forEachConcurrently<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) await fn(items[next++]);
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+}
+
+/**
+ * Ingests sources again whose dropped or merged duplicates were folded into
+ * chunks that have since been changed or deleted: their content is no longer
+ * in the index. Repeats until no such chunks are left. `restore` re-ingests
+ * one source, recording into the summary it is given.
+ */
+export async function restoreFolded(
+  manifest: IngestionManifest,
+  deduplicator: ChunkDeduplicator,
+  summary: IngestionSummary,
+  restore: (source: string, summary: IngestionSummary) => Promise<void>,
+  options: { include?: (source: string) => boolean; concurrency?: number } = {}
+): Promise<void> {
+  const include = options.include ?? (() => true);
+
+  for (;;) {
+    const folded = foldedEntries(manifest, deduplicator.takeRemoved()).filter(include);
+    if (folded.length === 0) return;
+
+    const listed = new Set([...summary.added, ...summary.updated]);
+    const refolded = new Set(folded);
+    summary.unchanged = summary.unchanged.filter(source => !refolded.has(source));
+
+    await forEachConcurrently(folded, options.concurrency ?? 1, async source => {
+      const restored = emptySummary();
+      try {
+        await restore(source, restored);
+      } catch (error) {
+        console.warn(`⚠️ Skipping ${source}: ${error}`);
+        restored.failed.push(source);
+      }
+
+      summary.chunksAdded += restored.chunksAdded;
+      summary.chunksRemoved += restored.chunksRemoved;
+      summary.removed.push(...restored.removed);
+      summary.failed.push(...restored.failed);
+      if (restored.updated.length > 0 && !listed.has(source)) summary.updated.push(source);
+    });
+  }
+}
+
+/**
+ * Keeps a vector store in line with a documents directory. Only new or
+ * changed files are chunked and embedded, and chunks of changed or deleted
+ * files are removed; the manifest records what each file contributed.
+ * Include and exclude globs narrow what a sync looks at: files outside them
+ * are neither ingested nor removed.
+ */
+export class DirectoryIngestor {
+  private manifest: IngestionManifest;
+  private chunkingPipeline: ChunkingPipeline;
+  private strategy: ChunkingStrategyName;
+  // Mock stores live in memory, so their manifest must not outlive the process
+  private persistManifest: boolean;
+  private manifestPath: string;
+  private collection: string;
+  private include: IgnoreRule[] | null;
+  private exclude: IgnoreRule[];
+  private metadata: Record<string, string>;
+  private concurrency: number;
+
+  constructor(
+    private docsPath: string,
+    private sink: ChunkSink,
+    options: DirectoryIngestorOptions = {}
+  ) {
+    this.persistManifest = options.persistManifest ?? !config.mockMode;
+    this.manifestPath = options.manifestPath ?? config.ingestion.manifestPath;
+    this.collection = options.collection ?? config.qdrant.collectionName;
+    this.manifest = emptyManifest(this.collection);
+    this.strategy = options.strategy ?? config.rag.chunkingStrategy;
+    this.include = options.include?.length ? parseGitignore(options.include.join('\n')) : null;
+    this.exclude = parseGitignore((options.exclude ?? []).join('\n'));
+    this.metadata = options.metadata ?? {};
+    this.concurrency = Math.max(1, options.concurrency ?? 1);
+    this.chunkingPipeline = new ChunkingPipeline(
+      createChunkingStrategy(this.strategy, {
+        chunkSize: options.chunkSize,
+        chunkOverlap: options.chunkOverlap,
+      }),
+      { dedup: options.dedup }
+    );
+  }
+
+  async loadManifest(): Promise<void> {
+    if (this.persistManifest) {
+      this.manifest = await loadManifest(this.manifestPath, this.collection);
+    }
+  }
+
+  /** Whether a path relative to the directory passes the include and exclude globs. */
+  private inScope(relativePath: string): boolean {
+    const posixPath = relativePath.split(path.sep).join('/');
+    if (this.include && !isGitIgnored(this.include, posixPath)) return false;
+    return !isGitIgnored(this.exclude, posixPath);
+  }
+
+  /** The manifest narrowed to the files a sync may touch. */
+  private scopedManifest(inScope: (file: string) => boolean): IngestionManifest {
+    return {
+      ...this.manifest,
+      files: Object.fromEntries(
+        Object.entries(this.manifest.files).filter(([file]) => inScope(file))
+      ),
+    };
+  }
 
-    for (const file of files) {
-      // Skip hidden files and .gitkeep
-      if (file.startsWith('.')) continue;
+  /**
+   * Syncs the whole directory. With `full`, every file is re-ingested and
+   * replaces all existing chunks of its source. Switching chunking strategies
+   * implies a full sync. A dry run loads and chunks new and changed files but
+   * writes nothing, and reports what embedding them would take.
+   */
+  async sync(options: { full?: boolean; dryRun?: boolean } = {}): Promise<IngestionSummary> {
+    const files = (await listFiles(this.docsPath)).filter(file =>
+      this.inScope(path.relative(this.docsPath, file))
+    );
+    const { states, failed } = await this.scanFiles(files);
+
+    const previousStrategy = this.manifest.chunkingStrategy ?? 'adaptive';
+    const strategyChanged =
+      Object.keys(this.manifest.files).length > 0 && previousStrategy !== this.strategy;
+    if (strategyChanged) {
+      console.log(
+        `✂️ Chunking strategy changed from ${previousStrategy} to ${this.strategy}, ` +
+          're-ingesting all files'
+      );
+    }
+
+    const plan = planIngestion(
+      this.scopedManifest(file => this.inScope(file) && !failed.includes(file)),
+      states
+    );
+    return this.apply(plan, !!options.full || strategyChanged, !!options.dryRun, failed);
+  }
+
+  /**
+   * Scans files a few at a time. Files that vanished since they were listed
+   * are left out and count as removed; files that cannot be read are
+   * returned as failed, so the caller leaves their chunks alone.
+   */
+  private async scanFiles(files: string[]): Promise<{ states: FileState[]; failed: string[] }> {
+    const states: Array<FileState | undefined> = [];
+    const failed: string[] = [];
+
+    await forEachConcurrently([...files.keys()], SCAN_CONCURRENCY, async i => {
+      try {
+        states[i] = await scanFile(this.docsPath, files[i], this.manifest);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+        const relativePath = path.relative(this.docsPath, files[i]);
+        console.warn(`⚠️ Skipping file ${relativePath}: ${error}`);
+        failed.push(relativePath);
+      }
+    });
+
+    return { states: states.filter((state): state is FileState => !!state), failed };
+  }
+
+  /** Syncs only the given paths (files or directories, relative to the documents directory). */
+  async syncPaths(relativePaths: string[]): Promise<IngestionSummary> {
+    const inScope = (file: string) =>
+      this.inScope(file) &&
+      relativePaths.some(p => file === p || file.startsWith(`${p}${path.sep}`));
+
+    const files: string[] = [];
+    for (const relativePath of relativePaths) {
+      const filePath = path.join(this.docsPath, relativePath);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (!stats) continue;
+
+      const listed = stats.isDirectory() ? await listFiles(filePath) : [filePath];
+      files.push(...listed.filter(file => inScope(path.relative(this.docsPath, file))));
+    }
+    const { states, failed } = await this.scanFiles(files);
+
+    const scope = (file: string) => inScope(file) && !failed.includes(file);
+    return this.apply(planIngestion(this.scopedManifest(scope), states), false, false, failed);
+  }
+
+  private async apply(
+    plan: IngestionPlan,
+    full: boolean,
+    dryRun: boolean,
+    unreadable: string[] = []
+  ): Promise<IngestionSummary> {
+    const summary = emptySummary();
+    summary.failed.push(...unreadable);
+    summary.unchanged = full ? [] : plan.unchanged.map(file => file.path);
+    const { deduplicator } = this.chunkingPipeline;
+
+    // New chunks are checked against what stays stored; a full sync stores everything anew
+    if (!full) deduplicator.register(fingerprintedChunks(this.manifest, plan.removed));
+    for (const file of plan.removed) {
+      deduplicator.forget(this.manifest.files[file].chunkIds);
+    }
+
+    if (!full && !dryRun) {
+      // Unchanged files may only have been touched; keep their new mtime
+      for (const file of plan.unchanged) {
+        Object.assign(this.manifest.files[file.path], { mtime: file.mtime, size: file.size });
+      }
+    }
+
+    const changed = full
+      ? [...plan.added, ...plan.updated, ...plan.unchanged]
+      : [...plan.added, ...plan.updated];
+
+    if (dryRun) {
+      summary.estimates = [];
+      const counter = createTokenCounter(config.openai.embeddingModel);
+      try {
+        await forEachConcurrently(changed, this.concurrency, async file => {
+          try {
+            await this.estimateFile(file, full, counter, summary);
+          } catch (error) {
+            console.warn(`⚠️ Skipping file ${file.path}: ${error}`);
+            summary.failed.push(file.path);
+          }
+        });
+      } finally {
+        counter.free();
+      }
+
+      for (const file of plan.removed) {
+        summary.chunksRemoved += this.manifest.files[file].chunkIds.length;
+        summary.removed.push(file);
+      }
+      deduplicator.takeMerges();
+      deduplicator.takeRemoved();
+      return this.withDuplicates(sortSummary(summary));
+    }
+
+    await forEachConcurrently(changed, this.concurrency, async file => {
+      try {
+        await this.ingestFile(file, full, summary);
+      } catch (error) {
+        console.warn(`⚠️ Skipping file ${file.path}: ${error}`);
+        summary.failed.push(file.path);
+      }
+    });
+
+    for (const file of plan.removed) {
+      try {
+        const { chunkIds, foldedInto } = this.manifest.files[file];
+        await this.sink.deleteChunks(chunkIds);
+        await dropDuplicateSources(this.sink, sourceKey(file), foldedInto);
+        summary.chunksRemoved += chunkIds.length;
+        delete this.manifest.files[file];
+        summary.removed.push(file);
+      } catch (error) {
+        console.warn(`⚠️ Could not remove chunks of ${file}: ${error}`);
+        summary.failed.push(file);
+      }
+    }
+
+    const states = new Map(
+      [...plan.added, ...plan.updated, ...plan.unchanged].map(file => [file.path, file])
+    );
+    await restoreFolded(
+      this.manifest,
+      deduplicator,
+      summary,
+      (file, restored) => this.ingestFile(states.get(file)!, false, restored),
+      { include: file => states.has(file), concurrency: this.concurrency }
+    );
+
+    this.manifest.chunkingStrategy = this.strategy;
+    if (this.persistManifest) {
+      await saveManifest(this.manifestPath, this.manifest);
+    } else {
+      // Scans compare mtimes with it even when the manifest only lives in memory
+      this.manifest.updatedAt = new Date().toISOString();
+    }
+
+    return this.withDuplicates(sortSummary(summary));
+  }
+
+  private withDuplicates(summary: IngestionSummary): IngestionSummary {
+    const duplicates = this.chunkingPipeline.deduplicator.takeClusters();
+    if (duplicates.length > 0) summary.duplicates = duplicates;
+    return summary;
+  }
+
+  private async chunkFile(file: FileState): Promise<{ source: string; chunks: Document[] }> {
+    // The file's current chunks are about to be replaced, so they are no originals
+    this.chunkingPipeline.deduplicator.forget(this.manifest.files[file.path]?.chunkIds ?? []);
+
+    console.log(`📄 Loading: ${file.path}`);
+    const doc = await loadDocumentFromFile(
+      path.join(this.docsPath, file.path),
+      sourceKey(file.path)
+    );
+    delete doc.metadata.filePath;
+    doc.metadata = { ...this.metadata, ...doc.metadata };
+
+    const chunks = await this.chunkingPipeline.processDocuments([doc]);
+    return { source: doc.metadata.source, chunks };
+  }
+
+  private async estimateFile(
+    file: FileState,
+    full: boolean,
+    counter: TokenCounter,
+    summary: IngestionSummary
+  ): Promise<void> {
+    const previousIds = this.manifest.files[file.path]?.chunkIds ?? [];
+    const { chunks } = await this.chunkFile(file);
+    const newChunks = chunks.filter(
+      (chunk, i) => full || !previousIds.includes(ensureChunkId(chunk, i))
+    );
+    const chunkIds = chunks.map(chunk => chunk.metadata.chunkId);
+
+    summary.estimates!.push({
+      path: file.path,
+      chunks: chunks.length,
+      newChunks: newChunks.length,
+      tokens: newChunks.reduce((sum, chunk) => sum + counter.count(chunk.pageContent), 0),
+    });
+    summary.chunksAdded += newChunks.length;
+    summary.chunksRemoved += full
+      ? previousIds.length
+      : previousIds.filter(id => !chunkIds.includes(id)).length;
+    (this.manifest.files[file.path] ? summary.updated : summary.added).push(file.path);
+  }
+
+  private async ingestFile(
+    file: FileState,
+    full: boolean,
+    summary: IngestionSummary
+  ): Promise<void> {
+    const entry = this.manifest.files[file.path];
+    const { source, chunks } = await this.chunkFile(file);
+    const chunkIds = await replaceChunks(this.sink, source, chunks, {
+      previousIds: entry?.chunkIds ?? [],
+      full,
+      summary,
+    });
+
+    await storeDuplicateSources(this.sink, this.chunkingPipeline.deduplicator);
+    const fingerprints = chunkFingerprints(chunks, this.chunkingPipeline.deduplicator, source);
+    await dropDuplicateSources(this.sink, source, entry?.foldedInto, fingerprints.foldedInto);
+
+    (entry ? summary.updated : summary.added).push(file.path);
+    this.manifest.files[file.path] = {
+      contentHash: file.contentHash,
+      mtime: file.mtime,
+      size: file.size,
+      chunkIds,
+      ...fingerprints,
+    };
+  }
+
+  /**
+   * Watches the directory recursively and syncs changed paths once events
+   * stop arriving for `debounceMs`. Errors are logged per file and never stop
+   * the watcher; a watcher error (the folder was deleted, or the system ran out
+   * of watches) is logged and closes it. Recursive watching needs Node.js 20 on
+   * Linux. Call `close()` on the result to stop watching.
+   */
+  watch(debounceMs: number = config.ingestion.watchDebounceMs): FSWatcher {
+    const pending = new Set<string>();
+    let timer: NodeJS.Timeout | undefined;
+    let running: Promise<void> = Promise.resolve();
 
-      const filePath = path.join(dirPath, file);
-      const stats = await fs.stat(filePath);
+    const flush = () => {
+      const paths = Array.from(pending);
+      pending.clear();
 
-      if (stats.isDirectory()) {
-        // Recursively load from subdirectories
-        const subDocs = await loadDocumentsFromDirectory(filePath);
-        documents.push(...subDocs);
-      } else {
+      // Syncs run one at a time so the manifest is never updated concurrently
+      running = running.then(async () => {
         try {
-          console.log(`📄 Loading: ${filePath}`);
-          const doc = await loadDocumentFromFile(filePath);
-          documents.push(doc);
+          const summary = await this.syncPaths(paths);
+          const changes =
+            summary.added.length + summary.updated.length + summary.removed.length;
+          if (changes > 0 || summary.failed.length > 0) {
+            console.log(`🔄 Synced documents: ${formatCounts(summary)}`);
+          }
         } catch (error) {
-          console.warn(`⚠️ Skipping file ${filePath}: ${error}`);
+          console.error('❌ Watch sync failed:', error);
         }
+      });
+    };
+
+    const onChange = (_event: string, filename: string | Buffer | null) => {
+      if (!filename) return;
+      let relativePath = filename.toString();
+
+      // Editing record options re-ingests the file they describe
+      if (relativePath.endsWith(RECORD_OPTIONS_SUFFIX)) {
+        relativePath = relativePath.slice(0, -RECORD_OPTIONS_SUFFIX.length);
       }
+      if (relativePath.split(path.sep).some(isIgnored)) return;
+
+      pending.add(relativePath);
+      clearTimeout(timer);
+      timer = setTimeout(flush, debounceMs);
+    };
+
+    let watcher: FSWatcher;
+    try {
+      watcher = watchFs(this.docsPath, { recursive: true }, onChange);
+    } catch (error: any) {
+      if (error?.code === 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') {
+        throw new Error(`Watching ${this.docsPath} needs Node.js 20 or later on this platform`);
+      }
+      throw error;
     }
-  } catch (error) {
-    console.error(`Error reading directory ${dirPath}:`, error);
+
+    watcher.on('error', error => {
+      console.error(`❌ Stopped watching ${this.docsPath}:`, error);
+      watcher.close();
+    });
+    watcher.on('close', () => clearTimeout(timer));
+    console.log(`👀 Watching ${this.docsPath} for changes`);
+    return watcher;
   }
+}
 
-  return documents;
+function formatCounts(summary: IngestionSummary): string {
+  return (
+    `+${summary.added.length} ~${summary.updated.length} -${summary.removed.length}` +
+    (summary.failed.length > 0 ? ` (${summary.failed.length} failed)` : '')
+  );
+}
+
+// Files finish in any order when loaded concurrently
+function sortSummary(summary: IngestionSummary): IngestionSummary {
+  for (const list of [summary.added, summary.updated, summary.removed, summary.failed]) {
+    list.sort();
+  }
+  summary.estimates?.sort((a, b) => a.path.localeCompare(b.path));
+  return summary;
 }
 
-async function ingestDocuments(documentsPath?: string) {
+export function formatChanges(summary: IngestionSummary): string {
+  const lines = [
+    ...summary.added.map(file => `  + ${file}`),
+    ...summary.updated.map(file => `  ~ ${file}`),
+    ...summary.removed.map(file => `  - ${file}`),
+    ...summary.failed.map(file => `  ! ${file}`),
+  ];
+  const chunk = (ref: { source: string; chunkIndex?: number }) =>
+    ref.chunkIndex === undefined ? ref.source : `${ref.source} #${ref.chunkIndex}`;
+  const clusters = (summary.duplicates ?? []).map(
+    cluster =>
+      `  ${chunk(cluster.kept)} (${cluster.kind}): ` +
+      cluster.duplicates.map(duplicate => chunk(duplicate)).join(', ')
+  );
+
+  return (
+    (lines.length > 0 ? `\n📝 Changes:\n${lines.join('\n')}\n` : '') +
+    (clusters.length > 0 ? `\n🧬 Duplicate clusters:\n${clusters.join('\n')}\n` : '')
+  );
+}
+
+export type IngestDocumentsOptions = Omit<Partial<IngestCliOptions>, 'documentsPath' | 'help'>;
+
+/** Machine-readable outcome of a run, written with `--report`. */
+export interface IngestionReport {
+  documentsPath: string;
+  collection: string;
+  dryRun: boolean;
+  full: boolean;
+  chunkingStrategy: ChunkingStrategyName;
+  chunkSize: number;
+  chunkOverlap: number;
+  dedupPolicy: DedupPolicy;
+  embeddingModel: string;
+  startedAt: string;
+  durationMs: number;
+  summary: IngestionSummary;
+  // Dry runs only
+  tokens?: number;
+  estimatedCostUsd?: number | null;
+}
+
+function formatEstimates(summary: IngestionSummary, tokens: number, cost: number | null): string {
+  const lines = (summary.estimates ?? []).map(
+    estimate =>
+      `  ${estimate.path}: ${estimate.chunks} chunks (${estimate.newChunks} new), ` +
+      `${estimate.tokens} tokens`
+  );
+  const price = cost === null ? 'unknown for this model' : `$${cost.toFixed(4)}`;
+  return `
+🧮 Dry run, nothing was written:
+${lines.join('\n') || '  No new or changed files'}
+  - Tokens to embed: ${tokens}
+  - Estimated embedding cost: ${price} (${config.openai.embeddingModel})
+`;
+}
+
+async function ingestDocuments(
+  documentsPath?: string,
+  options: IngestDocumentsOptions = {}
+): Promise<IngestionSummary | undefined> {
   const docsPath = documentsPath || path.join(process.cwd(), 'documents');
+  const startedAt = new Date();
 
-  console.log('🚀 Starting document ingestion...');
+  console.log(`🚀 Starting document ingestion${options.dryRun ? ' (dry run)' : ''}...`);
   console.log(`📁 Looking for documents in: ${docsPath}`);
 
   try {
@@ -133,18 +1058,17 @@ async function ingestDocuments(documentsPath?: string) {
     try {
       await fs.access(docsPath);
     } catch {
+      if (options.dryRun) {
+        console.log(`⚠️  ${docsPath} does not exist`);
+        return;
+      }
       console.log(`📂 Creating documents directory at: ${docsPath}`);
       await fs.mkdir(docsPath, { recursive: true });
-      console.log(`
+      if (!options.watch) {
+        console.log(`
 ⚠️  No documents found! Please add documents to the 'documents' directory:
 
-Supported formats:
-  - Text files (.txt)
-  - Markdown (.md, .markdown)
-  - PDFs (.pdf)
-  - JSON (.json)
-  - CSV (.csv)
-  - HTML (.html, .htm)
+Supported formats:${SUPPORTED_FORMATS}
 
 Example:
   documents/
@@ -153,72 +1077,114 @@ Example:
     ├── data.csv
     └── notes.txt
       `);
-      return;
+        return;
+      }
     }
 
-    // Load documents from directory
-    const documents = await loadDocumentsFromDirectory(docsPath);
+    const collection = options.collection ?? config.qdrant.collectionName;
+    // A dry run never writes, so it does not need Qdrant
+    const vectorStore =
+      config.mockMode || options.dryRun
+        ? new MockVectorStore()
+        : new HybridVectorStore(collection);
 
-    if (documents.length === 0) {
-      console.log(`
-⚠️  No documents found in ${docsPath}
-
-Please add documents to the directory. Supported formats:
-  - Text files (.txt)
-  - Markdown (.md, .markdown)
-  - PDFs (.pdf)
-  - JSON (.json)
-  - CSV (.csv)
-  - HTML (.html, .htm)
-      `);
-      return;
+    if (!options.dryRun) {
+      await vectorStore.initialize();
+      console.log(`✅ ${config.mockMode ? 'Mock' : ''} Vector store initialized (${collection})`);
     }
 
-    console.log(`✅ Loaded ${documents.length} documents`);
+    const chunkSize = options.chunkSize ?? parseInt(process.env.CHUNK_SIZE || '512');
+    const chunkOverlap = options.chunkOverlap ?? parseInt(process.env.CHUNK_OVERLAP || '128');
+    const strategy = options.strategy ?? config.rag.chunkingStrategy;
+    // Manifests belong to one collection; other collections get their own file
+    const manifestPath =
+      collection === config.qdrant.collectionName
+        ? config.ingestion.manifestPath
+        : config.ingestion.manifestPath.replace(/(\.json)?$/, `.${collection}.json`);
+    const ingestor = new DirectoryIngestor(docsPath, vectorStore, {
+      chunkSize,
+      chunkOverlap,
+      strategy,
+      manifestPath,
+      collection,
+      include: options.include,
+      exclude: options.exclude,
+      metadata: options.metadata,
+      concurrency: options.concurrency,
+      dedup: options.dedup,
+    });
+    await ingestor.loadManifest();
 
-    // Initialize vector store
-    const vectorStore = config.mockMode
-      ? new MockVectorStore()
-      : new HybridVectorStore();
+    const summary = await ingestor.sync({ full: options.full, dryRun: options.dryRun });
+    const fileCount = summary.added.length + summary.updated.length + summary.unchanged.length;
 
-    await vectorStore.initialize();
-    console.log(`✅ ${config.mockMode ? 'Mock' : ''} Vector store initialized`);
-
-    // Initialize chunking pipeline
-    const chunkSize = parseInt(process.env.CHUNK_SIZE || '512');
-    const chunkOverlap = parseInt(process.env.CHUNK_OVERLAP || '128');
-    const chunkingPipeline = new ChunkingPipeline(
-      new AdaptiveChunking(chunkSize, chunkOverlap)
-    );
+    const report: IngestionReport = {
+      documentsPath: docsPath,
+      collection,
+      dryRun: !!options.dryRun,
+      full: !!options.full,
+      chunkingStrategy: strategy,
+      chunkSize,
+      chunkOverlap,
+      dedupPolicy: options.dedup ?? config.ingestion.dedupPolicy,
+      embeddingModel: config.openai.embeddingModel,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      summary,
+    };
+    if (summary.estimates) {
+      report.tokens = summary.estimates.reduce((sum, estimate) => sum + estimate.tokens, 0);
+      report.estimatedCostUsd = embeddingCost(report.tokens, config.openai.embeddingModel);
+    }
+    if (options.report) {
+      await fs.mkdir(path.dirname(options.report), { recursive: true });
+      await fs.writeFile(options.report, JSON.stringify(report, null, 2));
+      console.log(`🧾 Report written to ${options.report}`);
+    }
 
-    // Process documents
-    console.log(`📄 Processing ${documents.length} documents...`);
-    const chunks = await chunkingPipeline.processDocuments(documents);
-    console.log(`✂️ Created ${chunks.length} chunks`);
+    if (fileCount + summary.failed.length + summary.removed.length === 0 && !options.watch) {
+      console.log(`
+⚠️  No documents found in ${docsPath}
 
-    // Add to vector store
-    console.log('💾 Adding chunks to vector store...');
-    await vectorStore.addDocuments(chunks);
+Please add documents to the directory. Supported formats:${SUPPORTED_FORMATS}
+      `);
+      return summary;
+    }
 
     // Print summary
-    console.log('✅ Ingestion complete!');
+    console.log(options.dryRun ? '✅ Dry run complete!' : '✅ Ingestion complete!');
     console.log(`
-📊 Summary:
-  - Documents processed: ${documents.length}
-  - Total chunks created: ${chunks.length}
-  - Average chunks per document: ${Math.round(chunks.length / documents.length)}
+📊 Summary${options.full ? ' (full rebuild)' : ''}:
+  - Added: ${summary.added.length}
+  - Updated: ${summary.updated.length}
+  - Removed: ${summary.removed.length}
+  - Unchanged: ${summary.unchanged.length}
+  - Failed: ${summary.failed.length}
+  - Chunks ${options.dryRun ? 'to embed' : 'embedded'}: ${summary.chunksAdded}
+  - Chunks ${options.dryRun ? 'to delete' : 'deleted'}: ${summary.chunksRemoved}
+  - Chunking strategy: ${strategy}
   - Chunk size: ${chunkSize}
   - Chunk overlap: ${chunkOverlap}
+  - Dedup policy: ${report.dedupPolicy}
+${formatChanges(summary)}`);
+
+    if (summary.estimates) {
+      console.log(formatEstimates(summary, report.tokens!, report.estimatedCostUsd ?? null));
+      return summary;
+    }
 
-📝 Document Details:
-${documents.map(doc => `  - ${doc.metadata.title} (${doc.metadata.fileType}, ${(doc.metadata.fileSize / 1024).toFixed(1)}KB)`).join('\n')}
+    if (options.watch) {
+      ingestor.watch();
+      return summary;
+    }
 
-🚀 Your RAG system is ready! Start the server with:
+    console.log(`🚀 Your RAG system is ready! Start the server with:
   npm run dev
 
 Then visit http://localhost:3000
     `);
 
+    return summary;
   } catch (error) {
     console.error('❌ Ingestion failed:', error);
     process.exit(1);
@@ -227,8 +1193,20 @@ Then visit http://localhost:3000
 
 // Run ingestion if this file is executed directly
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const customPath = process.argv[2];
-  ingestDocuments(customPath);
+  let options: IngestCliOptions;
+  try {
+    options = parseIngestArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${INGEST_USAGE}`);
+    process.exit(1);
+  }
+
+  if (options.help) {
+    console.log(INGEST_USAGE);
+  } else {
+    const { documentsPath, help: _help, ...ingestOptions } = options;
+    ingestDocuments(documentsPath, ingestOptions);
+  }
 }
 
-export { ingestDocuments, loadDocumentFromFile, loadDocumentsFromDirectory };
+export { ingestDocuments, loadDocumentFromFile, loadDocumentsFromDirectory, listFiles };
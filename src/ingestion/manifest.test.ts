@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { emptyManifest, loadManifest, planIngestion, saveManifest } from './manifest.js';
+
+describe('manifest', () => {
+  const entry = (contentHash: string) => ({ contentHash, mtime: '', chunkIds: ['id'] });
+  const file = (filePath: string, contentHash: string) => ({
+    path: filePath,
+    contentHash,
+    mtime: '2026-10-19T00:00:00.000Z',
+  });
+
+  it('should classify files as added, updated, removed or unchanged', () => {
+    const manifest = emptyManifest('docs');
+    manifest.files = { 'a.md': entry('1'), 'b.md': entry('2'), 'gone.md': entry('3') };
+
+    const plan = planIngestion(manifest, [file('a.md', '1'), file('b.md', 'x'), file('c.md', '4')]);
+
+    expect(plan.added.map(f => f.path)).toEqual(['c.md']);
+    expect(plan.updated.map(f => f.path)).toEqual(['b.md']);
+    expect(plan.unchanged.map(f => f.path)).toEqual(['a.md']);
+    expect(plan.removed).toEqual(['gone.md']);
+  });
+
+  it('should round-trip and ignore manifests of other collections', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'manifest-'));
+    const manifestPath = path.join(dir, 'nested', 'manifest.json');
+
+    try {
+      expect((await loadManifest(manifestPath, 'docs')).files).toEqual({});
+
+      const manifest = emptyManifest('docs');
+      manifest.files['a.md'] = entry('1');
+      await saveManifest(manifestPath, manifest);
+
+      expect((await loadManifest(manifestPath, 'docs')).files).toEqual({ 'a.md': entry('1') });
+      expect((await loadManifest(manifestPath, 'other')).files).toEqual({});
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,128 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { IndexedChunk } from '../lib/dedup.js';
+
+export interface ManifestEntry {
+  contentHash: string;
+  mtime: string;
+  // Bytes on disk (with record options), checked along with the mtime
+  size?: number;
+  chunkIds: string[];
+  // MinHash signature and text hash of each chunk when duplicate detection is on,
+  // in chunkIds order
+  fingerprints?: string[];
+  chunkHashes?: string[];
+  // Chunks of other entries that this one's dropped or merged duplicates were
+  // folded into; the entry is ingested again when one of them goes away
+  foldedInto?: string[];
+  // Crawled pages: HTTP validators for conditional requests, and the pages they
+  // link to so the crawl can continue past a 304
+  etag?: string;
+  lastModified?: string;
+  links?: string[];
+}
+
+/**
+ * What was ingested from a documents directory, keyed by path relative to it,
+ * from a website, keyed by URL, or from git repositories, keyed by repository
+ * name and path.
+ */
+export interface IngestionManifest {
+  collection: string;
+  updatedAt: string;
+  // Chunks of another strategy can't be reused; manifests without one used adaptive
+  chunkingStrategy?: string;
+  // Git repositories: the commit each one was last ingested at, and the paths that
+  // failed to load then, which the next run retries even if they did not change
+  commits?: Record<string, string>;
+  failedPaths?: Record<string, string[]>;
+  files: Record<string, ManifestEntry>;
+}
+
+export interface FileState {
+  path: string;
+  contentHash: string;
+  mtime: string;
+  size?: number;
+}
+
+export interface IngestionPlan {
+  added: FileState[];
+  updated: FileState[];
+  removed: string[];
+  unchanged: FileState[];
+}
+
+/** Stored chunks with fingerprints, for checking new chunks against them. */
+export function fingerprintedChunks(
+  manifest: IngestionManifest,
+  skip: Iterable<string> = []
+): IndexedChunk[] {
+  const skipped = new Set(skip);
+  return Object.entries(manifest.files)
+    .filter(([key, entry]) => entry.fingerprints && !skipped.has(key))
+    .flatMap(([key, entry]) =>
+      entry.chunkIds.map((chunkId, i) => ({
+        chunkId,
+        source: key,
+        signature: entry.fingerprints![i],
+        textHash: entry.chunkHashes?.[i],
+      }))
+    );
+}
+
+/** Entries whose duplicates were folded into any of the given chunks. */
+export function foldedEntries(manifest: IngestionManifest, chunkIds: Set<string>): string[] {
+  if (chunkIds.size === 0) return [];
+  return Object.entries(manifest.files)
+    .filter(([, entry]) => entry.foldedInto?.some(chunkId => chunkIds.has(chunkId)))
+    .map(([key]) => key);
+}
+
+export function emptyManifest(collection: string): IngestionManifest {
+  return { collection, updatedAt: new Date().toISOString(), files: {} };
+}
+
+/**
+ * Reads the manifest, starting fresh when it is missing or was written for
+ * another collection (its chunk ids would not exist there).
+ */
+export async function loadManifest(
+  manifestPath: string,
+  collection: string
+): Promise<IngestionManifest> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(manifestPath, 'utf-8')) as IngestionManifest;
+    return manifest.collection === collection ? manifest : emptyManifest(collection);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyManifest(collection);
+    throw error;
+  }
+}
+
+export async function saveManifest(
+  manifestPath: string,
+  manifest: IngestionManifest
+): Promise<void> {
+  await fs.mkdir(path.dirname(manifestPath), { recursive: true });
+  manifest.updatedAt = new Date().toISOString();
+  await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+}
+
+/** Compares the files on disk with the manifest by content hash. */
+export function planIngestion(manifest: IngestionManifest, files: FileState[]): IngestionPlan {
+  const plan: IngestionPlan = { added: [], updated: [], removed: [], unchanged: [] };
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    seen.add(file.path);
+    const entry = manifest.files[file.path];
+
+    if (!entry) plan.added.push(file);
+    else if (entry.contentHash !== file.contentHash) plan.updated.push(file);
+    else plan.unchanged.push(file);
+  }
+
+  plan.removed = Object.keys(manifest.files).filter(file => !seen.has(file));
+  return plan;
+}
@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { docxToMarkdown, pptxToMarkdown, xlsxSheets } from './office.js';
+
+/**
+ * Minimal ZIP writer; the reader does not check CRCs, so they are left at zero.
+ * `header` overrides the flags or declared size of every entry.
+ */
+function zip(
+  files: Record<string, string>,
+  header: { flags?: number; size?: number } = {}
+): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, text] of Object.entries(files)) {
+    const nameBytes = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(text));
+    const size = header.size ?? Buffer.byteLength(text);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(header.flags ?? 0, 6);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    locals.push(local, nameBytes, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(header.flags ?? 0, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const paragraph = (text: string, style?: string, list = false) =>
+  '<w:p><w:pPr>' +
+  (style ? `<w:pStyle w:val="${style}"/>` : '') +
+  (list ? '<w:numPr><w:ilvl w:val="0"/></w:numPr>' : '') +
+  `</w:pPr><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+describe('docxToMarkdown', () => {
+  it('should turn heading styles, lists and tables into Markdown', () => {
+    const docx = zip({
+      'word/document.xml':
+        '<?xml version="1.0"?><w:document><w:body>' +
+        paragraph('Leave Policy', 'Kop1') +
+        paragraph('Staff get 25 days &amp; public holidays.') +
+        paragraph('Request in advance', undefined, true) +
+        paragraph('Tell your manager', undefined, true) +
+        '<w:tbl><w:tr><w:tc>' + paragraph('Years') + '</w:tc><w:tc>' + paragraph('Days') +
+        '</w:tc></w:tr><w:tr><w:tc>' + paragraph('5+') + '</w:tc><w:tc>' + paragraph('28') +
+        '</w:tc></w:tr></w:tbl></w:body></w:document>',
+      'word/styles.xml':
+        '<w:styles><w:style w:type="paragraph" w:styleId="Kop1">' +
+        '<w:name w:val="heading 1"/></w:style></w:styles>',
+      'docProps/core.xml': '<cp:coreProperties><dc:title>Handbook</dc:title>' +
+        '<dc:creator>HR</dc:creator></cp:coreProperties>',
+    });
+
+    const document = docxToMarkdown(docx);
+
+    expect(document.title).toBe('Handbook');
+    expect(document.author).toBe('HR');
+    expect(document.content).toBe(
+      [
+        '# Leave Policy',
+        'Staff get 25 days & public holidays.',
+        '- Request in advance\n- Tell your manager',
+        '| Years | Days |\n| --- | --- |\n| 5+ | 28 |',
+      ].join('\n\n')
+    );
+  });
+
+  it('should reject archives that are not Word documents', () => {
+    expect(() => docxToMarkdown(zip({ 'other.xml': '<x/>' }))).toThrow(/Not a Word document/);
+    expect(() => docxToMarkdown(Buffer.from('plain text'))).toThrow(/Not a ZIP archive/);
+  });
+
+  it('should reject zip bombs, encrypted, ZIP64 and corrupt archives', () => {
+    const part = 'word/document.xml';
+    const bomb = zip({ [part]: 'a'.repeat(1_000_000) }, { size: 100 });
+    expect(() => docxToMarkdown(bomb)).toThrow(/larger than its declared size/);
+    expect(() => docxToMarkdown(zip({ [part]: 'a' }, { size: 2 ** 31 }))).toThrow(/too large/);
+    expect(() => docxToMarkdown(zip({ [part]: 'a' }, { flags: 1 }))).toThrow(/Encrypted/);
+
+    const zip64 = zip({ [part]: 'a' });
+    zip64.writeUInt16LE(0xffff, zip64.length - 12);
+    expect(() => docxToMarkdown(zip64)).toThrow(/ZIP64/);
+
+    const truncated = zip({ [part]: 'a' });
+    truncated.writeUInt32LE(truncated.length, truncated.length - 6);
+    expect(() => docxToMarkdown(truncated)).toThrow(/Corrupt ZIP archive/);
+  });
+});
+
+describe('pptxToMarkdown', () => {
+  const shape = (text: string, placeholder?: string) =>
+    '<p:sp><p:nvSpPr>' +
+    (placeholder ? `<p:nvPr><p:ph type="${placeholder}"/></p:nvPr>` : '') +
+    `</p:nvSpPr><p:txBody><a:p><a:r><a:t>${text}</a:t></a:r></a:p></p:txBody></p:sp>`;
+
+  it('should write one section per slide in presentation order with speaker notes', () => {
+    const pptx = zip({
+      'ppt/presentation.xml':
+        '<p:presentation><p:sldIdLst><p:sldId id="256" r:id="rId3"/>' +
+        '<p:sldId id="257" r:id="rId2"/></p:sldIdLst></p:presentation>',
+      'ppt/_rels/presentation.xml.rels':
+        '<Relationships><Relationship Id="rId2" Target="slides/slide1.xml"/>' +
+        '<Relationship Id="rId3" Target="slides/slide2.xml"/></Relationships>',
+      'ppt/slides/slide1.xml': `<p:sld>${shape('Roadmap', 'title')}${shape('Ship search')}</p:sld>`,
+      'ppt/slides/slide2.xml': `<p:sld>${shape('Welcome', 'ctrTitle')}</p:sld>`,
+      'ppt/slides/_rels/slide1.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="../notesSlides/notesSlide1.xml"/>' +
+        '</Relationships>',
+      'ppt/notesSlides/notesSlide1.xml':
+        `<p:notes>${shape('Slide image', 'sldImg')}${shape('Mention the beta', 'body')}` +
+        `${shape('2', 'sldNum')}</p:notes>`,
+    });
+
+    const presentation = pptxToMarkdown(pptx);
+
+    expect(presentation.slideCount).toBe(2);
+    expect(presentation.content).toBe(
+      [
+        '## Slide 1: Welcome',
+        '## Slide 2: Roadmap',
+        'Ship search',
+        'Speaker notes:\nMention the beta',
+      ].join('\n\n')
+    );
+  });
+});
+
+describe('xlsxSheets', () => {
+  it('should read visible sheets as rows keyed by the header row', () => {
+    const xlsx = zip({
+      'xl/workbook.xml':
+        '<workbook><sheets><sheet name="Products" sheetId="1" r:id="rId1"/>' +
+        '<sheet name="Scratch" sheetId="2" state="hidden" r:id="rId2"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Target="worksheets/sheet2.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>Name</t></si><si><t>Price</t></si>' +
+        '<si><r><t>Wireless </t></r><r><t>Mouse</t></r></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3"><v>24.5</v></c>' +
+        '<c r="C3" t="b"><v>1</v></c></row></sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml': '<worksheet><sheetData/></worksheet>',
+    });
+
+    expect(xlsxSheets(xlsx)).toEqual([
+      {
+        name: 'Products',
+        rows: [{ row: 3, values: { Name: 'Wireless Mouse', Price: 24.5, C: true } }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,443 @@
+import path from 'path';
+import { inflateRawSync } from 'zlib';
+import { decodeEntities, markdownTable } from './html.js';
+
+/**
+ * Loaders for Office Open XML files. DOCX, PPTX and XLSX are ZIP archives of
+ * XML parts, so a small ZIP reader and a few regular expressions cover the
+ * text we index without pulling in a full Office library.
+ */
+
+export interface OfficeDocument {
+  /** Document text as Markdown. */
+  content: string;
+  title?: string;
+  author?: string;
+}
+
+export interface Spreadsheet {
+  name: string;
+  /** Rows below the header row, keyed by header, with their row number. */
+  rows: Array<{ row: number; values: Record<string, string | number | boolean> }>;
+}
+
+// Inflated size limits, so a small archive cannot expand to fill memory
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+const MAX_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Files of a ZIP archive by path. Entries are inflated when they are read, up
+ * to their declared size and the archive's total budget. Every offset is
+ * checked against the buffer; ZIP64 and encrypted archives are rejected.
+ */
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  // The end of central directory record sits in the last 64 KiB (its comment is at most that long)
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  const zip64 =
+    count === 0xffff ||
+    offset === 0xffffffff ||
+    (end >= 20 && buffer.readUInt32LE(end - 20) === 0x07064b50);
+  if (zip64) throw new Error('ZIP64 archives are not supported');
+
+  const corrupt = (detail: string) => new Error(`Corrupt ZIP archive: ${detail}`);
+  const entries = new Map<string, () => Buffer>();
+  let budget = MAX_ARCHIVE_BYTES;
+
+  for (let i = 0; i < count; i++) {
+    // Central directory entries lie between the start of the file and its end record
+    if (offset + 46 > end) throw corrupt('central directory is out of bounds');
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) throw corrupt('bad central directory entry');
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const next = offset + 46 + nameLength + extraLength + commentLength;
+    if (next > end) throw corrupt('central directory is out of bounds');
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    if (flags & 1) throw new Error('Encrypted ZIP archives are not supported');
+    if ([compressedSize, size, localHeader].includes(0xffffffff)) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    entries.set(name, () => {
+      if (localHeader + 30 > buffer.length || buffer.readUInt32LE(localHeader) !== 0x04034b50) {
+        throw corrupt(`bad local header for ${name}`);
+      }
+      // The local header repeats the name and has its own extra field
+      const start =
+        localHeader +
+        30 +
+        buffer.readUInt16LE(localHeader + 26) +
+        buffer.readUInt16LE(localHeader + 28);
+      if (start + compressedSize > buffer.length) throw corrupt(`${name} is out of bounds`);
+      if (size > Math.min(MAX_ENTRY_BYTES, budget)) {
+        throw new Error(`ZIP entry ${name} is too large to extract`);
+      }
+      budget -= size;
+
+      const data = buffer.subarray(start, start + compressedSize);
+      let content: Buffer;
+      if (method === 0) {
+        content = data;
+      } else if (method === 8) {
+        try {
+          // One byte over the declared size tells a lying header from an exact fit
+          content = inflateRawSync(data, { maxOutputLength: size + 1 });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw corrupt(`${name} is larger than its declared size`);
+          }
+          throw error;
+        }
+      } else {
+        throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+      }
+
+      if (content.length !== size) throw corrupt(`${name} does not match its declared size`);
+      return content;
+    });
+
+    offset = next;
+  }
+
+  return entries;
+}
+
+function readPart(files: Map<string, () => Buffer>, name: string): string | undefined {
+  return files.get(name)?.().toString('utf-8');
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : undefined;
+}
+
+/** Text of every `<tag>` element, e.g. the runs of a paragraph. */
+function elementText(xml: string, tag: string): string {
+  const runs = xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, 'g'));
+  return decodeEntities(Array.from(runs, run => run[1]).join(''));
+}
+
+/** Relationship targets by id, resolved against the part the relationships belong to. */
+function relationships(files: Map<string, () => Buffer>, part: string): Map<string, string> {
+  const directory = path.posix.dirname(part);
+  const relsPath = path.posix.join(directory, '_rels', `${path.posix.basename(part)}.rels`);
+  const targets = new Map<string, string>();
+
+  for (const [tag] of (readPart(files, relsPath) ?? '').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attribute(tag, 'Id');
+    const target = attribute(tag, 'Target');
+    if (!id || !target || attribute(tag, 'TargetMode') === 'External') continue;
+
+    targets.set(
+      id,
+      target.startsWith('/')
+        ? target.slice(1)
+        : path.posix.normalize(path.posix.join(directory, target))
+    );
+  }
+
+  return targets;
+}
+
+/** Title and author from the document properties. */
+function coreProperties(files: Map<string, () => Buffer>): { title?: string; author?: string } {
+  const core = readPart(files, 'docProps/core.xml') ?? '';
+  const title = elementText(core, 'dc:title').trim();
+  const author = elementText(core, 'dc:creator').trim();
+  return { ...(title && { title }), ...(author && { author }) };
+}
+
+/** Heading levels of paragraph styles, from their names ("heading 2") or outline level. */
+function headingStyles(stylesXml: string): Map<string, number> {
+  const levels = new Map<string, number>();
+  const style = /<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g;
+
+  for (const [, tag, body] of stylesXml.matchAll(style)) {
+    const id = attribute(tag, 'w:styleId');
+    const name = (body.match(/<w:name w:val="([^"]*)"/)?.[1] ?? '').toLowerCase();
+    // Outline level 9 is body text
+    const outline = Number(body.match(/<w:outlineLvl w:val="(\d)"/)?.[1] ?? 9);
+    const level = name === 'title' ? 1 : Number(name.match(/^heading (\d)$/)?.[1] ?? 0);
+
+    if (id && (level || outline < 9)) {
+      levels.set(id, Math.min(6, level || outline + 1));
+    }
+  }
+
+  return levels;
+}
+
+/** DOCX body as Markdown: heading styles become headings, tables become Markdown tables. */
+export function docxToMarkdown(buffer: Buffer): OfficeDocument {
+  const files = readZip(buffer);
+  const documentXml = readPart(files, 'word/document.xml');
+  if (!documentXml) throw new Error('Not a Word document: word/document.xml is missing');
+
+  const styles = headingStyles(readPart(files, 'word/styles.xml') ?? '');
+  const blocks: string[] = [];
+  const tables: Array<{ rows: string[][]; row: string[]; cell: string[] }> = [];
+  let paragraph = '';
+  let level = 0;
+  let listItem = false;
+  let inText = false;
+
+  for (const [token, closing, tag, attributes, text] of documentXml.matchAll(
+    /<(\/?)([\w:]+)([^>]*?)\/?>|([^<]+)/g
+  )) {
+    if (text !== undefined) {
+      if (inText) paragraph += decodeEntities(text);
+      continue;
+    }
+    const table = tables[tables.length - 1];
+    const selfClosing = token.endsWith('/>');
+
+    switch (tag) {
+      case 'w:p':
+        if (!closing && !selfClosing) {
+          paragraph = '';
+          level = 0;
+          listItem = false;
+        } else if (closing) {
+          const line = paragraph.replace(/[ \t]+/g, ' ').trim();
+          if (!line) break;
+          if (table) table.cell.push(line);
+          else if (level) blocks.push(`${'#'.repeat(level)} ${line.replace(/\n/g, ' ')}`);
+          else blocks.push(listItem ? `- ${line}` : line);
+        }
+        break;
+      case 'w:pStyle':
+        level = styles.get(attribute(attributes, 'w:val') ?? '') ?? 0;
+        break;
+      case 'w:outlineLvl':
+        if (Number(attribute(attributes, 'w:val')) < 9) {
+          level = Math.min(6, Number(attribute(attributes, 'w:val')) + 1);
+        }
+        break;
+      case 'w:numPr':
+        listItem = true;
+        break;
+      case 'w:t':
+        inText = !closing && !selfClosing;
+        break;
+      case 'w:tab':
+        paragraph += ' ';
+        break;
+      case 'w:br':
+      case 'w:cr':
+        paragraph += '\n';
+        break;
+      case 'w:tbl':
+        if (!closing) {
+          tables.push({ rows: [], row: [], cell: [] });
+        } else if (table) {
+          tables.pop();
+          const parent = tables[tables.length - 1];
+          // Nested tables are flattened into the cell that holds them
+          if (parent) parent.cell.push(...table.rows.map(row => row.join(' ')));
+          else if (table.rows.length > 0) blocks.push(markdownTable(table.rows));
+        }
+        break;
+      case 'w:tr':
+        if (table && closing && table.row.some(cell => cell)) table.rows.push(table.row);
+        if (table) table.row = [];
+        break;
+      case 'w:tc':
+        if (table && closing) table.row.push(table.cell.join(' ').replace(/\s+/g, ' '));
+        if (table) table.cell = [];
+        break;
+    }
+  }
+
+  return { content: mergeListItems(blocks).join('\n\n'), ...coreProperties(files) };
+}
+
+/** Consecutive list items form one block, like a Markdown list. */
+function mergeListItems(blocks: string[]): string[] {
+  return blocks.reduce<string[]>((merged, block) => {
+    const previous = merged[merged.length - 1];
+    if (block.startsWith('- ') && previous?.split('\n').pop()?.startsWith('- ')) {
+      merged[merged.length - 1] = `${previous}\n${block}`;
+    } else {
+      merged.push(block);
+    }
+    return merged;
+  }, []);
+}
+
+/** Paragraph lines of a shape or frame, e.g. the bullets of a text box. */
+function paragraphs(xml: string): string[] {
+  return Array.from(xml.matchAll(/<a:p\b[^>]*>([\s\S]*?)<\/a:p>/g), ([, paragraph]) =>
+    elementText(paragraph, 'a:t').replace(/\s+/g, ' ').trim()
+  ).filter(Boolean);
+}
+
+const TITLE_PLACEHOLDERS = ['title', 'ctrTitle'];
+// Placeholders on notes pages that repeat the slide rather than hold notes
+const NOTES_CHROME = ['sldImg', 'sldNum', 'hdr', 'ftr', 'dt'];
+
+/** One `## Slide N: Title` section per slide, with its text and speaker notes. */
+export function pptxToMarkdown(buffer: Buffer): OfficeDocument & { slideCount: number } {
+  const files = readZip(buffer);
+  const presentation = readPart(files, 'ppt/presentation.xml');
+  if (!presentation) {
+    throw new Error('Not a PowerPoint presentation: ppt/presentation.xml is missing');
+  }
+
+  const slideTargets = relationships(files, 'ppt/presentation.xml');
+  const slides = Array.from(presentation.matchAll(/<p:sldId\b[^>]*>/g), ([tag]) =>
+    slideTargets.get(attribute(tag, 'r:id') ?? '')
+  ).filter((slide): slide is string => Boolean(slide && files.has(slide)));
+
+  const sections = slides.map((slide, index) => {
+    let title = '';
+    const body: string[] = [];
+
+    for (const [shape] of readPart(files, slide)!.matchAll(
+      /<p:(sp|graphicFrame)\b[\s\S]*?<\/p:\1>/g
+    )) {
+      const placeholder = shape.match(/<p:ph\b[^>]*>/)?.[0];
+      const type = placeholder && attribute(placeholder, 'type');
+      if (type && TITLE_PLACEHOLDERS.includes(type) && !title) {
+        title = paragraphs(shape).join(' ');
+      } else {
+        body.push(...paragraphs(shape));
+      }
+    }
+
+    const notesPart = Array.from(relationships(files, slide).values()).find(target =>
+      target.includes('notesSlides/')
+    );
+    const notes: string[] = [];
+    for (const [shape] of (notesPart ? readPart(files, notesPart) ?? '' : '').matchAll(
+      /<p:sp\b[\s\S]*?<\/p:sp>/g
+    )) {
+      const placeholder = shape.match(/<p:ph\b[^>]*>/)?.[0];
+      const type = placeholder && attribute(placeholder, 'type');
+      if (!type || !NOTES_CHROME.includes(type)) notes.push(...paragraphs(shape));
+    }
+
+    return [
+      `## Slide ${index + 1}${title ? `: ${title}` : ''}`,
+      ...(body.length > 0 ? [body.join('\n')] : []),
+      ...(notes.length > 0 ? [`Speaker notes:\n${notes.join('\n')}`] : []),
+    ].join('\n\n');
+  });
+
+  return {
+    content: sections.join('\n\n'),
+    slideCount: slides.length,
+    ...coreProperties(files),
+  };
+}
+
+/** Zero-based column of a cell reference such as "B7". */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/)?.[0] ?? 'A';
+  return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellValue(cellTag: string, cellXml: string, sharedStrings: string[]) {
+  const raw = decodeEntities(cellXml.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '');
+
+  switch (attribute(cellTag, 't')) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? '';
+    case 'inlineStr':
+      return elementText(cellXml, 't');
+    case 'b':
+      return raw === '1';
+    case 'str':
+    case 'e':
+      return raw;
+    default:
+      // Numbers, including dates, which are stored as days since 1900
+      return raw === '' ? raw : Number(raw);
+  }
+}
+
+/**
+ * Visible sheets of an XLSX workbook with their rows. The first non-empty row
+ * of a sheet is its header; columns without a header are named by letter.
+ */
+export function xlsxSheets(buffer: Buffer): Spreadsheet[] {
+  const files = readZip(buffer);
+  const workbook = readPart(files, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook: xl/workbook.xml is missing');
+
+  const sharedStrings = Array.from(
+    (readPart(files, 'xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g),
+    // Phonetic runs (<rPh>) annotate the text rather than being part of it
+    ([, item]) => elementText(item.replace(/<rPh\b[\s\S]*?<\/rPh>/g, ''), 't')
+  );
+  const sheetTargets = relationships(files, 'xl/workbook.xml');
+  const sheets: Spreadsheet[] = [];
+
+  for (const [tag] of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const target = sheetTargets.get(attribute(tag, 'r:id') ?? '');
+    const state = attribute(tag, 'state');
+    if (!target || !files.has(target) || state === 'hidden' || state === 'veryHidden') continue;
+
+    const grid: Array<{ row: number; cells: Array<string | number | boolean> }> = [];
+    for (const [, rowTag, rowXml] of readPart(files, target)!.matchAll(
+      /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+    )) {
+      const cells: Array<string | number | boolean> = [];
+      for (const [, cellTag, cellXml = ''] of (rowXml ?? '').matchAll(
+        /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+      )) {
+        const reference = attribute(cellTag, 'r');
+        const column = reference ? columnIndex(reference) : cells.length;
+        cells[column] = cellValue(cellTag, cellXml, sharedStrings);
+      }
+
+      if (cells.some(cell => cell !== undefined && cell !== '')) {
+        grid.push({ row: Number(attribute(rowTag, 'r')) || grid.length + 1, cells });
+      }
+    }
+
+    const [header, ...rows] = grid;
+    if (!header) continue;
+    const columns = header.cells.map(cell => String(cell ?? '').trim());
+    const width = Math.max(columns.length, ...rows.map(row => row.cells.length));
+    const names = Array.from({ length: width }, (_, i) => columns[i] || columnName(i));
+
+    sheets.push({
+      name: attribute(tag, 'name') ?? `Sheet ${sheets.length + 1}`,
+      rows: rows.map(({ row, cells }) => ({
+        row,
+        values: Object.fromEntries(
+          names
+            .map((name, i) => [name, cells[i]] as const)
+            .filter(([, value]) => value !== undefined && value !== '')
+        ),
+      })),
+    });
+  }
+
+  return sheets;
+}
@@ -0,0 +1,57 @@
+import { Document } from 'langchain/document';
+import { ChunkSink } from './ingest-files.js';
+
+/** In-memory chunk sink for ingestion tests, keyed by chunk id like the vector stores. */
+export class RecordingSink implements ChunkSink {
+  chunks = new Map<string, Document>();
+  // Sources whose chunks cannot be stored
+  failing = new Set<string>();
+
+  async addDocuments(documents: Document[]): Promise<void> {
+    const failed = documents.find(doc => this.failing.has(doc.metadata.source));
+    if (failed) throw new Error(`Cannot store ${failed.metadata.source}`);
+    documents.forEach(doc => this.chunks.set(doc.metadata.chunkId, doc));
+  }
+
+  async deleteChunks(chunkIds: string[]): Promise<void> {
+    chunkIds.forEach(id => this.chunks.delete(id));
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    const ids = [...this.chunks].filter(([, doc]) => doc.metadata.source === source);
+    ids.forEach(([id]) => this.chunks.delete(id));
+    return ids.length;
+  }
+
+  async addDuplicateSources(sources: Map<string, string[]>): Promise<void> {
+    sources.forEach((duplicateSources, id) => {
+      const doc = this.chunks.get(id);
+      if (!doc) return;
+      doc.metadata.duplicateSources = Array.from(
+        new Set([...(doc.metadata.duplicateSources ?? []), ...duplicateSources])
+      );
+    });
+  }
+
+  async removeDuplicateSources(chunkIds: string[], source: string): Promise<void> {
+    chunkIds.forEach(id => {
+      const doc = this.chunks.get(id);
+      if (!doc?.metadata.duplicateSources) return;
+      doc.metadata.duplicateSources = doc.metadata.duplicateSources.filter(
+        (duplicate: string) => duplicate !== source
+      );
+    });
+  }
+
+  async getChunks(source: string): Promise<Document[]> {
+    return [...this.chunks.values()].filter(doc => doc.metadata.source === source);
+  }
+
+  sources(): string[] {
+    return [...new Set([...this.chunks.values()].map(doc => doc.metadata.source))].sort();
+  }
+
+  find(source: string): Document | undefined {
+    return [...this.chunks.values()].find(doc => doc.metadata.source === source);
+  }
+}
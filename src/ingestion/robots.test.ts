@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { isAllowed, parseRobotsTxt } from './robots.js';
+
+const robotsTxt = `
+# Comments are ignored
+User-agent: *
+Disallow: /private
+Allow: /private/public
+Disallow: /*.pdf$
+Crawl-delay: 2
+
+User-agent: OtherBot
+User-agent: AdvancedRAGCrawler
+Disallow: /drafts
+
+Sitemap: https://docs.example.com/sitemap.xml
+`;
+
+describe('parseRobotsTxt', () => {
+  it('should apply the longest matching rule of the * group', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'SomeBot/2.0');
+
+    expect(isAllowed(policy, '/guide')).toBe(true);
+    expect(isAllowed(policy, '/private/notes')).toBe(false);
+    expect(isAllowed(policy, '/private/public/faq')).toBe(true);
+    expect(isAllowed(policy, '/files/report.pdf')).toBe(false);
+    expect(isAllowed(policy, '/files/report.pdf?download=1')).toBe(true);
+    expect(policy.crawlDelay).toBe(2);
+    expect(policy.sitemaps).toEqual(['https://docs.example.com/sitemap.xml']);
+  });
+
+  it('should prefer the group naming our user agent', () => {
+    const policy = parseRobotsTxt(robotsTxt, 'AdvancedRAGCrawler/1.0');
+
+    expect(isAllowed(policy, '/drafts/next')).toBe(false);
+    expect(isAllowed(policy, '/private/notes')).toBe(true);
+    expect(policy.crawlDelay).toBeUndefined();
+  });
+});
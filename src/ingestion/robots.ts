@@ -0,0 +1,92 @@
+/**
+ * robots.txt rules for one crawler, following RFC 9309: the group naming our
+ * user agent applies, otherwise the `*` group, and the longest matching rule
+ * wins with Allow winning ties.
+ */
+export interface RobotsPolicy {
+  rules: Array<{ allow: boolean; pattern: string }>;
+  /** Seconds to wait between requests, when the site asks for it. */
+  crawlDelay?: number;
+  sitemaps: string[];
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsPolicy['rules'];
+  crawlDelay?: number;
+}
+
+export const ALLOW_ALL: RobotsPolicy = { rules: [], sitemaps: [] };
+export const DISALLOW_ALL: RobotsPolicy = { rules: [{ allow: false, pattern: '/' }], sitemaps: [] };
+
+export function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+  const product = userAgent.split('/')[0].toLowerCase();
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | undefined;
+  let inAgentLines = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+
+    const field = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (field === 'sitemap') {
+      sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!inAgentLines || !current) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      inAgentLines = true;
+    } else if (current) {
+      inAgentLines = false;
+      if ((field === 'allow' || field === 'disallow') && value) {
+        current.rules.push({ allow: field === 'allow', pattern: value });
+      } else if (field === 'crawl-delay' && !isNaN(parseFloat(value))) {
+        current.crawlDelay = parseFloat(value);
+      }
+    }
+  }
+
+  const named = groups.filter(group =>
+    group.agents.some(agent => agent !== '*' && product.includes(agent))
+  );
+  const matching = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+
+  return {
+    rules: matching.flatMap(group => group.rules),
+    crawlDelay: matching.find(group => group.crawlDelay !== undefined)?.crawlDelay,
+    sitemaps,
+  };
+}
+
+function patternMatches(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+}
+
+/** Whether a path (with its query string) may be crawled. */
+export function isAllowed(policy: RobotsPolicy, path: string): boolean {
+  if (path === '/robots.txt') return true;
+
+  let best: { allow: boolean; length: number } | undefined;
+  for (const rule of policy.rules) {
+    if (!patternMatches(rule.pattern, path)) continue;
+    const length = rule.pattern.length;
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { allow: rule.allow, length };
+    }
+  }
+
+  return best?.allow ?? true;
+}
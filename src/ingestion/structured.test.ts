@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { csvRecords, jsonRecords, parseCsv, recordsToDocuments } from './structured.js';
+
+describe('parseCsv', () => {
+  it('should handle quoted commas, escaped quotes and line breaks', () => {
+    const csv = '\uFEFFname,notes\r\n"Mouse, wireless","Says ""hi""\nthen sleeps"\r\nHub,\r\n';
+
+    expect(parseCsv(csv)).toEqual([
+      { name: 'Mouse, wireless', notes: 'Says "hi"\nthen sleeps' },
+      { name: 'Hub', notes: '' },
+    ]);
+  });
+
+  it('should skip blank lines', () => {
+    expect(parseCsv('a,b\n\n1,2\n\n')).toEqual([{ a: '1', b: '2' }]);
+  });
+});
+
+describe('csvRecords', () => {
+  const csv = 'sku,name,price,in_stock,zip\n007,Wireless Mouse,24.5,true,02134\n';
+
+  it('should write all fields as text and keep typed values as metadata', () => {
+    const [record] = csvRecords(csv);
+
+    expect(record.content).toBe(
+      'sku: 007\nname: Wireless Mouse\nprice: 24.5\nin_stock: true\nzip: 02134'
+    );
+    expect(record.metadata).toEqual({
+      recordIndex: 0,
+      sku: '007',
+      name: 'Wireless Mouse',
+      price: 24.5,
+      in_stock: true,
+      zip: '02134',
+    });
+  });
+
+  it('should keep templated fields out of metadata', () => {
+    const [record] = csvRecords(csv, {
+      textTemplate: '{name} costs {price}',
+      titleField: 'name',
+      idField: 'sku',
+    });
+
+    expect(record.content).toBe('Wireless Mouse costs 24.5');
+    expect(record.metadata).toEqual({
+      recordIndex: 0,
+      recordTitle: 'Wireless Mouse',
+      recordId: '007',
+      sku: '007',
+      in_stock: true,
+      zip: '02134',
+    });
+  });
+
+  it('should keep values as written in the text and the record id', () => {
+    const [record] = csvRecords('order,total,note\n12345678901234567891,1.50,ok\n', {
+      idField: 'order',
+    });
+
+    expect(record.content).toBe('order: 12345678901234567891\ntotal: 1.50\nnote: ok');
+    expect(record.metadata).toEqual({
+      recordIndex: 0,
+      recordId: '12345678901234567891',
+      order: '12345678901234567891',
+      total: 1.5,
+      note: 'ok',
+    });
+  });
+
+  it('should not let columns take over pipeline metadata', () => {
+    const [record] = csvRecords('chunkId,symbol,sectionPath,price\n7,ACME,Q3,12\n');
+
+    expect(record.metadata).toEqual({
+      recordIndex: 0,
+      field_chunkId: 7,
+      field_symbol: 'ACME',
+      field_sectionPath: 'Q3',
+      price: 12,
+    });
+  });
+});
+
+describe('recordsToDocuments', () => {
+  it('should flatten nested fields and not overwrite file metadata', () => {
+    const [record] = recordsToDocuments(
+      [{ title: 'Guide', body: 'Long text', author: { name: 'Ada' }, tags: ['a', 'b'] }],
+      { textFields: ['body'] }
+    );
+
+    expect(record.content).toBe('body: Long text');
+    expect(record.metadata).toEqual({
+      recordIndex: 0,
+      field_title: 'Guide',
+      'author.name': 'Ada',
+      tags: ['a', 'b'],
+    });
+  });
+});
+
+describe('jsonRecords', () => {
+  it('should read records from a nested path', () => {
+    const data = { data: { items: [{ name: 'Mouse' }, { name: 'Hub' }] } };
+
+    const records = jsonRecords(data, { recordsPath: 'data.items', textTemplate: '{name}' });
+
+    expect(records?.map(record => record.content)).toEqual(['Mouse', 'Hub']);
+  });
+
+  it('should return null for JSON that is not a list of objects', () => {
+    expect(jsonRecords({ name: 'config' })).toBeNull();
+    expect(jsonRecords([1, 2, 3])).toBeNull();
+  });
+
+  it('should reject a records path that does not lead to records', () => {
+    expect(() => jsonRecords({ data: {} }, { recordsPath: 'data.items' })).toThrow(
+      /"data.items" is not an array of objects/
+    );
+  });
+});
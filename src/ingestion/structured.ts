@@ -0,0 +1,250 @@
+import fs from 'fs/promises';
+
+/**
+ * How records of a CSV or JSON file become documents. Read from a sidecar
+ * file next to the data file, e.g. `products.csv.ingest.json`.
+ */
+export interface RecordOptions {
+  /** Embedded text with `{field}` placeholders, e.g. "{name}: {description}". */
+  textTemplate?: string;
+  /** Fields written as "field: value" lines when there is no template. */
+  textFields?: string[];
+  /** Field shown as the record's title in citations. */
+  titleField?: string;
+  /** Field holding a stable record id. */
+  idField?: string;
+  /** JSON only: dot path to the array of records, e.g. "data.items". */
+  recordsPath?: string;
+}
+
+export interface StructuredRecord {
+  content: string;
+  metadata: Record<string, any>;
+}
+
+export const RECORD_OPTIONS_SUFFIX = '.ingest.json';
+
+// Longer strings are prose rather than values worth filtering on
+const MAX_METADATA_VALUE_LENGTH = 100;
+
+// File-level metadata, and keys the chunking and retrieval pipeline sets or
+// reads, that record fields must not overwrite
+const RESERVED_FIELDS = [
+  'source',
+  'title',
+  'fileType',
+  'filePath',
+  'fileSize',
+  'lastModified',
+  'timestamp',
+  'recordIndex',
+  'recordId',
+  'recordTitle',
+  'sheet',
+  'row',
+  'chunkId',
+  'chunkIndex',
+  'totalChunks',
+  'chunkingStrategy',
+  'sourceDocument',
+  'language',
+  'symbol',
+  'sectionPath',
+  'subject',
+  'startLine',
+  'endLine',
+  'pageStart',
+  'pageEnd',
+  'minhash',
+  'duplicateSources',
+];
+
+export async function loadRecordOptions(filePath: string): Promise<RecordOptions> {
+  try {
+    return JSON.parse(await fs.readFile(`${filePath}${RECORD_OPTIONS_SUFFIX}`, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw new Error(`Invalid ${RECORD_OPTIONS_SUFFIX} for ${filePath}: ${error}`);
+  }
+}
+
+/** RFC 4180 CSV: quoted fields may contain commas, doubled quotes and line breaks. */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...records] = rows.filter(r => r.some(value => value.trim()));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim().replace(/^\uFEFF/, ''));
+  return records.map(values =>
+    Object.fromEntries(columns.map((column, i) => [column, (values[i] ?? '').trim()]))
+  );
+}
+
+/**
+ * CSV values are all strings; numbers and booleans are restored in metadata so
+ * they can be range-filtered. The text and record ids keep the value as written.
+ */
+function typedValue(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  // Leading zeros (zip codes, SKUs) are kept as strings, and so are integers
+  // too large to survive as a number (account or order ids)
+  if (/^-?(0|[1-9]\d*)(\.\d+)?$/.test(value)) {
+    const number = Number(value);
+    return Number.isSafeInteger(Math.trunc(number)) ? number : value;
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  return value;
+}
+
+/** Nested objects become dot-separated fields: `{ price: { amount: 5 } }` has `price.amount`. */
+function flatten(record: Record<string, any>, prefix = ''): Record<string, any> {
+  const fields: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(fields, flatten(value, name));
+    } else {
+      fields[name] = value;
+    }
+  }
+
+  return fields;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function isFilterable(value: unknown): boolean {
+  if (typeof value === 'number' || typeof value === 'boolean') return true;
+  if (typeof value === 'string') return value !== '' && value.length <= MAX_METADATA_VALUE_LENGTH;
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    (value.every(v => typeof v === 'string') || value.every(v => typeof v === 'number'))
+  );
+}
+
+/** Metadata keys are restricted to what metadata filters accept. */
+function metadataKey(field: string): string {
+  const key = field.replace(/[^\w.-]+/g, '_');
+  return RESERVED_FIELDS.includes(key) ? `field_${key}` : key;
+}
+
+/**
+ * Turns records into one document each. The template or text fields make up
+ * the embedded text and every other field becomes filterable metadata.
+ * Without either, all fields are written out and the short ones are also
+ * kept as metadata.
+ */
+export function recordsToDocuments(
+  records: Record<string, any>[],
+  options: RecordOptions = {},
+  metadataValue: (value: unknown) => unknown = value => value
+): StructuredRecord[] {
+  return records
+    .map((record, recordIndex) => {
+      const fields = flatten(record);
+      let content: string;
+      let textFields: string[];
+
+      if (options.textTemplate) {
+        const placeholder = /\{([^{}]+)\}/g;
+        textFields = Array.from(options.textTemplate.matchAll(placeholder), m => m[1].trim());
+        content = options.textTemplate.replace(placeholder, (_, field) =>
+          formatValue(fields[field.trim()])
+        );
+      } else {
+        textFields = options.textFields ?? [];
+        content = (options.textFields ?? Object.keys(fields))
+          .filter(field => formatValue(fields[field]))
+          .map(field => `${field}: ${formatValue(fields[field])}`)
+          .join('\n');
+      }
+
+      const metadata: Record<string, any> = { recordIndex };
+      for (const [field, raw] of Object.entries(fields)) {
+        const value = metadataValue(raw);
+        if (!textFields.includes(field) && isFilterable(value)) {
+          metadata[metadataKey(field)] = value;
+        }
+      }
+      if (options.titleField && formatValue(fields[options.titleField])) {
+        metadata.recordTitle = formatValue(fields[options.titleField]);
+      }
+      if (options.idField && formatValue(fields[options.idField])) {
+        metadata.recordId = formatValue(fields[options.idField]);
+      }
+
+      return { content: content.trim(), metadata };
+    })
+    .filter(record => record.content);
+}
+
+export function csvRecords(text: string, options: RecordOptions = {}): StructuredRecord[] {
+  return recordsToDocuments(parseCsv(text), options, typedValue);
+}
+
+/**
+ * Records of a JSON document: the array at `recordsPath`, or the document
+ * itself when it is an array of objects. Returns null for other JSON, which
+ * is then ingested as a whole.
+ */
+export function jsonRecords(data: unknown, options: RecordOptions = {}): StructuredRecord[] | null {
+  const records = options.recordsPath
+    ? options.recordsPath.split('.').reduce<any>((value, key) => value?.[key], data)
+    : data;
+
+  const isRecordList =
+    Array.isArray(records) &&
+    records.length > 0 &&
+    records.every(record => record && typeof record === 'object' && !Array.isArray(record));
+
+  if (!isRecordList) {
+    if (options.recordsPath) {
+      throw new Error(`"${options.recordsPath}" is not an array of objects`);
+    }
+    return null;
+  }
+
+  return recordsToDocuments(records, options);
+}
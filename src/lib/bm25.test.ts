@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { BM25Index, tokenize } from './bm25.js';
+
+describe('bm25', () => {
+  describe('tokenize', () => {
+    it('should drop stopwords and stem words', () => {
+      expect(tokenize('The caching of connections')).toEqual(['cach', 'connect']);
+    });
+
+    it('should keep identifiers whole alongside their parts', () => {
+      const tokens = tokenize('Fix ERR_HTTP_HEADERS_SENT in fs.readFile (E404)');
+
+      expect(tokens).toContain('err_http_headers_sent');
+      expect(tokens).toContain('header');
+      expect(tokens).toContain('fs.readfile');
+      expect(tokens).toContain('e404');
+    });
+  });
+
+  describe('BM25Index', () => {
+    const buildIndex = () => {
+      const index = new BM25Index();
+      index.add('pool', 'Use connection pooling to reuse database connections.');
+      index.add('cache', 'Cache responses in Redis. Caching avoids repeated database queries.');
+      index.add('error', 'The server throws ERR_HTTP_HEADERS_SENT when headers are sent twice.');
+      return index;
+    };
+
+    it('should rank documents by term relevance', () => {
+      const hits = buildIndex().search('database connection pooling', 3);
+
+      expect(hits[0].id).toBe('pool');
+      expect(hits.map(h => h.id)).toContain('cache');
+      expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    });
+
+    it('should find exact error codes', () => {
+      const hits = buildIndex().search('ERR_HTTP_HEADERS_SENT', 3);
+      expect(hits.map(h => h.id)).toEqual(['error']);
+    });
+
+    it('should keep statistics in sync when documents are removed', () => {
+      const index = buildIndex();
+      index.remove('pool');
+
+      expect(index.size).toBe(2);
+      expect(index.search('pooling', 3)).toHaveLength(0);
+      expect(index.search('database', 3).map(h => h.id)).toEqual(['cache']);
+    });
+
+    it('should honour the accept predicate', () => {
+      const hits = buildIndex().search('database', 3, id => id !== 'cache');
+      expect(hits.map(h => h.id)).toEqual(['pool']);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { stemmer } from 'stemmer';
+
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'am', 'an', 'and', 'any', 'are',
+  'as', 'at', 'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but',
+  'by', 'can', 'could', 'did', 'do', 'does', 'doing', 'down', 'during', 'each', 'few', 'for',
+  'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'itself', 'just', 'me', 'more', 'most',
+  'my', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our',
+  'ours', 'out', 'over', 'own', 'same', 'she', 'should', 'so', 'some', 'such', 'than', 'that',
+  'the', 'their', 'theirs', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'to', 'too', 'under', 'until', 'up', 'very', 'was', 'we', 'were', 'what', 'when',
+  'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your',
+  'yours',
+]);
+
+// Words plus compound identifiers such as fs.readFile, ERR_HTTP_HEADERS_SENT or utf-8
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+(?:[.\-:/][\p{L}\p{N}_]+)*/gu;
+
+function normalizeTerm(term: string): string | null {
+  if (term.length < 2 || STOPWORDS.has(term)) return null;
+  // Terms containing digits are codes or versions (E404, v18), so match them exactly
+  return /\d/.test(term) ? term : stemmer(term);
+}
+
+/**
+ * Lowercases, drops stopwords and stems words. Compound identifiers are kept
+ * whole in addition to their parts, so exact error codes and API names still
+ * score highest while their components match partial queries.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+
+  for (const [raw] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    const parts = raw.split(/[._\-:/]+/).filter(Boolean);
+
+    if (parts.length > 1) {
+      tokens.push(raw);
+    }
+
+    for (const part of parts) {
+      const term = normalizeTerm(part);
+      if (term) tokens.push(term);
+    }
+  }
+
+  return tokens;
+}
+
+export interface BM25Hit {
+  id: string;
+  score: number;
+}
+
+/**
+ * In-memory inverted index with Okapi BM25 scoring. Documents are added and
+ * removed incrementally, so term statistics always match the indexed corpus.
+ */
+export class BM25Index {
+  private postings = new Map<string, Map<string, number>>();
+  private documentTerms = new Map<string, string[]>();
+  private documentLengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(
+    private k1: number = 1.2,
+    private b: number = 0.75
+  ) {}
+
+  get size(): number {
+    return this.documentLengths.size;
+  }
+
+  has(id: string): boolean {
+    return this.documentLengths.has(id);
+  }
+
+  add(id: string, text: string): void {
+    if (this.has(id)) this.remove(id);
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    for (const [term, frequency] of termFrequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documentTerms.set(id, Array.from(termFrequencies.keys()));
+    this.documentLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting?.size === 0) this.postings.delete(term);
+    }
+
+    this.totalLength -= this.documentLengths.get(id) || 0;
+    this.documentTerms.delete(id);
+    this.documentLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.documentLengths.clear();
+    this.totalLength = 0;
+  }
+
+  search(query: string, limit: number, accept?: (id: string) => boolean): BM25Hit[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.size === 0) return [];
+
+    const averageLength = this.totalLength / this.size || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const idf = Math.log(1 + (this.size - posting.size + 0.5) / (posting.size + 0.5));
+
+      for (const [id, frequency] of posting) {
+        if (accept && !accept(id)) continue;
+
+        const length = this.documentLengths.get(id) || 0;
+        const saturation =
+          (frequency * (this.k1 + 1)) /
+          (frequency + this.k1 * (1 - this.b + (this.b * length) / averageLength));
+
+        scores.set(id, (scores.get(id) || 0) + idf * saturation);
+      }
+    }
+
+    return Array.from(scores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
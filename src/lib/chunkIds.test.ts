@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { Document } from 'langchain/document';
+import { chunkId, ensureChunkId } from './chunkIds.js';
+
+describe('chunkIds', () => {
+  it('should derive the same id for the same chunk', () => {
+    expect(chunkId('guide.md', 0, 'Use a pool.')).toBe(chunkId('guide.md', 0, 'Use a pool.'));
+  });
+
+  it('should change the id when source, position or content change', () => {
+    const id = chunkId('guide.md', 0, 'Use a pool.');
+
+    expect(chunkId('other.md', 0, 'Use a pool.')).not.toBe(id);
+    expect(chunkId('guide.md', 1, 'Use a pool.')).not.toBe(id);
+    expect(chunkId('guide.md', 0, 'Use a cache.')).not.toBe(id);
+  });
+
+  it('should store the id in the metadata and keep existing ids', () => {
+    const doc = new Document<Record<string, any>>({
+      pageContent: 'text',
+      metadata: { source: 'a.md', chunkIndex: 2 },
+    });
+    const id = ensureChunkId(doc, 0);
+
+    expect(doc.metadata.chunkId).toBe(id);
+    expect(id).toBe(chunkId('a.md', 2, 'text'));
+
+    const preset = new Document({ pageContent: 'text', metadata: { chunkId: 'kept' } });
+    expect(ensureChunkId(preset, 0)).toBe('kept');
+  });
+});
@@ -0,0 +1,32 @@
+import { createHash } from 'crypto';
+import { v5 as uuidv5 } from 'uuid';
+import { Document } from 'langchain/document';
+
+// Fixed namespace so the same chunk always maps to the same UUID
+const CHUNK_NAMESPACE = '6f1c1d52-3b7e-4c8a-9d2f-5a0e8b7c4d31';
+
+export function contentHash(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * Deterministic chunk id from source, chunk index and content hash. It is a
+ * UUID so it can double as the Qdrant point id, which makes re-ingesting an
+ * unchanged chunk overwrite the existing point instead of adding a copy.
+ */
+export function chunkId(source: string, chunkIndex: number, content: string): string {
+  return uuidv5(`${source}#${chunkIndex}#${contentHash(content)}`, CHUNK_NAMESPACE);
+}
+
+/** Returns the chunk id stored in the metadata, deriving one when it is missing. */
+export function ensureChunkId(document: Document, position: number): string {
+  const metadata = document.metadata;
+  if (!metadata.chunkId) {
+    metadata.chunkId = chunkId(
+      metadata.source || metadata.sourceDocument || 'unknown',
+      metadata.chunkIndex ?? position,
+      document.pageContent
+    );
+  }
+  return metadata.chunkId;
+}
@@ -0,0 +1,272 @@
+import { describe, it, expect } from 'vitest';
+import { Document } from 'langchain/document';
+import {
+  AdaptiveChunking,
+  CodeChunking,
+  EmbeddingChunking,
+  MarkdownChunking,
+  SemanticChunking,
+  assignPages,
+  percentile,
+} from './chunking.js';
+import { MockEmbeddings } from './mock/mockServices.js';
+
+const guide = `# Guide
+
+Intro paragraph.
+
+## Backend Optimization
+
+### Caching Strategies
+
+Use Redis for hot keys.
+
+\`\`\`javascript
+const cache = new Map();
+
+function get(key) {
+  return cache.get(key);
+}
+\`\`\`
+
+| Layer | TTL |
+| ----- | --- |
+| CDN   | 1h  |
+
+## Testing
+
+Write tests.
+`;
+
+describe('MarkdownChunking', () => {
+  it('should split on headings and record the heading path', async () => {
+    const chunks = await new MarkdownChunking(512, 0).chunk(guide, { source: 'guide.md' });
+
+    expect(chunks.map(c => c.metadata.sectionPath)).toEqual([
+      undefined,
+      'Backend Optimization > Caching Strategies',
+      'Testing',
+    ]);
+    expect(chunks[1].metadata.headings).toEqual(['Backend Optimization', 'Caching Strategies']);
+    expect(chunks[1].metadata.source).toBe('guide.md');
+    expect(chunks.map(c => c.metadata.chunkIndex)).toEqual([0, 1, 2]);
+  });
+
+  it('should keep code blocks and tables whole', async () => {
+    const chunks = await new MarkdownChunking(40, 0).chunk(guide);
+    const contents = chunks.map(c => c.pageContent);
+
+    expect(contents).toContainEqual(expect.stringMatching(/^```javascript[\s\S]*\n```$/));
+    expect(contents).toContain('| Layer | TTL |\n| ----- | --- |\n| CDN   | 1h  |');
+    expect(
+      chunks.find(c => c.pageContent.startsWith('```'))?.metadata.sectionPath
+    ).toBe('Backend Optimization > Caching Strategies');
+  });
+
+  it('should not treat headings inside code blocks as sections', async () => {
+    const text = '## Shell\n\n```bash\n# install deps\nnpm ci\n```';
+    const chunks = await new MarkdownChunking().chunk(text);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].metadata.sectionPath).toBe('Shell');
+  });
+});
+
+const service = `import { Pool } from 'pg';
+
+/** Shared pool. */
+export interface Options {
+  size: number;
+}
+
+export class UserService {
+  private cache = new Map();
+
+  constructor(private pool: Pool) {}
+
+  async findUser(id: string) {
+    const result = await this.pool.query('SELECT * FROM users WHERE id = $1', [id]);
+    return result.rows[0];
+  }
+
+  clear = () => {
+    this.cache.clear();
+  };
+}
+
+export const handler = async (event: unknown) => {
+  return { status: 200 };
+};
+`;
+
+describe('CodeChunking', () => {
+  const symbols = (chunks: Array<{ metadata: Record<string, any> }>) =>
+    chunks.map(({ metadata }) => [
+      metadata.symbol,
+      metadata.symbolKind,
+      metadata.startLine,
+      metadata.endLine,
+    ]);
+
+  it('should split TypeScript on top-level declarations', async () => {
+    const chunks = await new CodeChunking().chunk(service, { fileType: 'ts' });
+
+    expect(symbols(chunks)).toEqual([
+      [undefined, 'module', 1, 1],
+      ['Options', 'interface', 3, 6],
+      ['UserService', 'class', 8, 21],
+      ['handler', 'function', 23, 25],
+    ]);
+    expect(chunks[1].pageContent.startsWith('/** Shared pool. */')).toBe(true);
+    expect(chunks[0].metadata.language).toBe('typescript');
+  });
+
+  it('should split classes larger than the chunk size into methods', async () => {
+    const chunks = await new CodeChunking(200).chunk(service, { fileType: 'ts' });
+
+    expect(symbols(chunks).slice(2, 6)).toEqual([
+      ['UserService', 'class', 8, 9],
+      ['UserService.constructor', 'method', 11, 11],
+      ['UserService.findUser', 'method', 13, 16],
+      ['UserService.clear', 'method', 18, 21],
+    ]);
+  });
+
+  it('should find Python and Go declarations', async () => {
+    const python = [
+      'import os',
+      '',
+      '@cached',
+      'def load(path,',
+      '         encoding):',
+      '    return open(path)',
+      '',
+      'class Store:',
+      '    def get(self, key):',
+      '        return key',
+    ].join('\n');
+    const go = [
+      'package main',
+      '',
+      'type Server struct {',
+      '\tAddr string',
+      '}',
+      '',
+      '// Start starts the server.',
+      'func (s *Server) Start() error {',
+      '\treturn nil',
+      '}',
+    ].join('\n');
+
+    const pythonChunks = await new CodeChunking().chunk(python, { fileType: 'py' });
+    const goChunks = await new CodeChunking().chunk(go, { fileType: 'go' });
+
+    expect(symbols(pythonChunks)).toEqual([
+      [undefined, 'module', 1, 1],
+      ['load', 'function', 3, 6],
+      ['Store', 'class', 8, 10],
+    ]);
+    expect(symbols(goChunks)).toEqual([
+      [undefined, 'module', 1, 1],
+      ['Server', 'struct', 3, 5],
+      ['Server.Start', 'method', 7, 10],
+    ]);
+  });
+});
+
+/** Embeds texts by topic keywords, so similarity only drops where the topic changes. */
+class TopicEmbeddings extends MockEmbeddings {
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map(text => [
+      (text.match(/cache|redis/gi) || []).length,
+      (text.match(/test|assert/gi) || []).length,
+    ]);
+  }
+}
+
+describe('EmbeddingChunking', () => {
+  const text = [
+    'Redis is a common cache.',
+    'A cache keeps hot keys in memory.',
+    'Expire cache entries with a TTL.',
+    'Write a test for every bug.',
+    'Each test should assert one thing.',
+  ].join(' ');
+
+  it('should start a new chunk where the topic changes', async () => {
+    const chunker = new EmbeddingChunking(new TopicEmbeddings(), {
+      breakpointPercentile: 50,
+      minChunkSize: 10,
+      bufferSize: 0,
+    });
+    const chunks = await chunker.chunk(text, { source: 'notes.txt' });
+
+    expect(chunks.map(c => c.pageContent)).toEqual([
+      'Redis is a common cache. A cache keeps hot keys in memory. Expire cache entries with a TTL.',
+      'Write a test for every bug. Each test should assert one thing.',
+    ]);
+    expect(chunks[1].metadata).toMatchObject({ source: 'notes.txt', chunkIndex: 1 });
+  });
+
+  it('should enforce the minimum and maximum chunk sizes', async () => {
+    const merged = await new EmbeddingChunking(new TopicEmbeddings(), {
+      breakpointPercentile: 50,
+      minChunkSize: 200,
+      bufferSize: 0,
+    }).chunk(text);
+    const split = await new EmbeddingChunking(new TopicEmbeddings(), {
+      breakpointPercentile: 100,
+      maxChunkSize: 70,
+      bufferSize: 0,
+    }).chunk(text);
+
+    expect(merged).toHaveLength(1);
+    expect(split.every(c => c.pageContent.length <= 70)).toBe(true);
+    expect(split.map(c => c.pageContent).join(' ')).toBe(text);
+  });
+
+  it('should interpolate percentiles', () => {
+    expect(percentile([4, 1, 3, 2], 50)).toBe(2.5);
+    expect(percentile([4, 1, 3, 2], 100)).toBe(4);
+    expect(percentile([], 95)).toBe(0);
+  });
+});
+
+describe('AdaptiveChunking', () => {
+  it('should route Markdown files to heading-aware chunking', async () => {
+    const chunks = await new AdaptiveChunking().chunk(guide, { fileType: 'md' });
+
+    expect(chunks[0].metadata.chunkingStrategy).toBe('markdown');
+    expect(chunks[1].metadata.sectionPath).toBe('Backend Optimization > Caching Strategies');
+  });
+
+  it('should route source files to code chunking', async () => {
+    const chunks = await new AdaptiveChunking().chunk(service, { fileType: 'ts' });
+
+    expect(chunks[0].metadata.chunkingStrategy).toBe('code');
+    expect(chunks[0].metadata.contentType).toBe('code');
+  });
+});
+
+describe('assignPages', () => {
+  it('should give chunks the pages they start and end on', async () => {
+    const pages = ['First page text.', 'Second page text.', 'Third page text.'];
+    const content = pages.join('\n\n');
+    const breaks = [
+      { pageNumber: 1, offset: 0 },
+      { pageNumber: 2, offset: 18 },
+      { pageNumber: 3, offset: 37 },
+    ];
+    const chunks = await new SemanticChunking(30, 10).chunk(content);
+    const spanning = new Document({ pageContent: 'text.\n\nSecond', metadata: {} });
+
+    const paged = assignPages(content, [...chunks, spanning], breaks);
+
+    expect(paged.slice(0, 3).map(c => [c.metadata.pageStart, c.metadata.pageEnd])).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 3],
+    ]);
+    expect(paged[3].metadata).toMatchObject({ pageStart: 1, pageEnd: 2 });
+  });
+});
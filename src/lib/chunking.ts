@@ -2,12 +2,23 @@ import { Document } from 'langchain/document';
 import { RecursiveCharacterTextSplitter } from 'langchain/text_splitter';
 import { TokenTextSplitter } from 'langchain/text_splitter';
 import { encoding_for_model } from 'tiktoken';
+import { config } from '../config/index.js';
+import { AdvancedEmbeddings } from './embeddings.js';
+import { MockEmbeddings } from './mock/mockServices.js';
+import { cosineSimilarity } from './mmr.js';
+import { ensureChunkId } from './chunkIds.js';
+import { ChunkDeduplicator, DedupPolicy } from './dedup.js';
 
 export interface ChunkingStrategy {
   name: string;
   chunk(text: string, metadata?: Record<string, any>): Promise<Document[]>;
 }
 
+/**
+ * Recursive character splitter that prefers paragraph, line and sentence
+ * boundaries. Despite its name it does not look at meaning; EmbeddingChunking
+ * does.
+ */
 export class SemanticChunking implements ChunkingStrategy {
   name = 'semantic';
   private splitter: RecursiveCharacterTextSplitter;
@@ -59,17 +70,757 @@ export class TokenBasedChunking implements ChunkingStrategy {
   }
 }
 
+interface MarkdownHeading {
+  level: number;
+  text: string;
+}
+
+interface MarkdownSection {
+  headings: MarkdownHeading[];
+  blocks: string[];
+}
+
+/**
+ * Splits Markdown on heading boundaries and records the heading path of each
+ * chunk. Fenced code blocks and tables are never split, even when they exceed
+ * the chunk size; oversized paragraphs fall back to the semantic splitter.
+ */
+export class MarkdownChunking implements ChunkingStrategy {
+  name = 'markdown';
+  private paragraphChunker: SemanticChunking;
+
+  constructor(private chunkSize: number = 512, chunkOverlap: number = 128) {
+    this.paragraphChunker = new SemanticChunking(chunkSize, chunkOverlap);
+  }
+
+  async chunk(text: string, metadata?: Record<string, any>): Promise<Document[]> {
+    const sections = this.parseSections(text);
+    const contents: Array<{ content: string; headings: string[] }> = [];
+
+    // A single top-level heading is the document title, not part of section paths
+    const titles = sections.filter(
+      section => section.headings.length === 1 && section.headings[0].level === 1
+    ).length;
+    const minLevel = titles === 1 ? 2 : 1;
+
+    // Sections holding only their heading are covered by their subsections' paths
+    const withContent = sections.filter(
+      section => section.blocks.length > (section.headings.length > 0 ? 1 : 0)
+    );
+
+    for (const section of withContent) {
+      const headings = section.headings.filter(h => h.level >= minLevel).map(h => h.text);
+      for (const content of await this.packBlocks(section.blocks)) {
+        contents.push({ content, headings });
+      }
+    }
+
+    return contents.map(({ content, headings }, index) => {
+      const chunkMetadata: Record<string, any> = {
+        ...metadata,
+        chunkIndex: index,
+        chunkingStrategy: this.name,
+        hasPrevious: index > 0,
+        hasNext: index < contents.length - 1,
+        totalChunks: contents.length,
+      };
+      if (headings.length > 0) {
+        chunkMetadata.headings = headings;
+        chunkMetadata.sectionPath = headings.join(' > ');
+      }
+      return new Document({ pageContent: content, metadata: chunkMetadata });
+    });
+  }
+
+  private parseSections(text: string): MarkdownSection[] {
+    const lines = text.split('\n');
+    const headingPattern = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+
+    const sections: MarkdownSection[] = [];
+    const stack: MarkdownHeading[] = [];
+    let current: MarkdownSection = { headings: [], blocks: [] };
+    let block: string[] = [];
+    let fence: string | null = null;
+
+    const endBlock = () => {
+      if (block.some(line => line.trim())) current.blocks.push(block.join('\n').trim());
+      block = [];
+    };
+
+    for (const line of lines) {
+      if (fence) {
+        block.push(line);
+        if (line.trim().startsWith(fence)) {
+          fence = null;
+          endBlock();
+        }
+        continue;
+      }
+
+      const fenceMatch = line.trim().match(/^(`{3,}|~{3,})/);
+      if (fenceMatch) {
+        endBlock();
+        fence = fenceMatch[1];
+        block.push(line);
+        continue;
+      }
+
+      const heading = line.match(headingPattern);
+      if (heading) {
+        endBlock();
+        if (current.blocks.length > 0 || current.headings.length > 0) sections.push(current);
+
+        const level = heading[1].length;
+        while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop();
+        stack.push({ level, text: heading[2] });
+
+        current = { headings: [...stack], blocks: [line] };
+        continue;
+      }
+
+      // Tables are kept together as a single block
+      const isTableRow = line.trim().startsWith('|');
+      const inTable = block.length > 0 && block[block.length - 1].trim().startsWith('|');
+      if (!line.trim() || isTableRow !== inTable) endBlock();
+      if (line.trim()) block.push(line);
+    }
+
+    endBlock();
+    sections.push(current);
+    return sections;
+  }
+
+  /** Packs whole blocks into chunks of up to chunkSize characters. */
+  private async packBlocks(blocks: string[]): Promise<string[]> {
+    const chunks: string[] = [];
+    let current = '';
+
+    const flush = () => {
+      if (current) chunks.push(current);
+      current = '';
+    };
+
+    for (const block of blocks) {
+      if (current && current.length + block.length + 2 <= this.chunkSize) {
+        current = `${current}\n\n${block}`;
+        continue;
+      }
+
+      flush();
+      const isAtomic = /^(`{3,}|~{3,}|\|)/.test(block);
+      if (block.length <= this.chunkSize || isAtomic) {
+        current = block;
+      } else {
+        const pieces = await this.paragraphChunker.chunk(block);
+        chunks.push(...pieces.map(piece => piece.pageContent));
+      }
+    }
+
+    flush();
+    return chunks;
+  }
+}
+
+export interface EmbeddingChunkingOptions {
+  /** Neighbor distances above this percentile of all distances become breakpoints. */
+  breakpointPercentile?: number;
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  /** Sentences on each side embedded along with a sentence, smoothing out short ones. */
+  bufferSize?: number;
+}
+
+interface TextSpan {
+  start: number;
+  end: number;
+}
+
+/** Sentence and line spans of a text, trimmed of surrounding whitespace. */
+function sentenceSpans(text: string): TextSpan[] {
+  const spans: TextSpan[] = [];
+  let start = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const spanStart = start + raw.length - raw.trimStart().length;
+    const spanEnd = end - (raw.length - raw.trimEnd().length);
+    if (spanStart < spanEnd) spans.push({ start: spanStart, end: spanEnd });
+  };
+
+  for (const match of text.matchAll(/[.!?]+(?=\s)|\n/g)) {
+    const end = match.index! + match[0].length;
+    push(end);
+    start = end;
+  }
+  push(text.length);
+
+  return spans;
+}
+
+/** Linearly interpolated percentile (0-100) of a list of numbers. */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (Math.min(Math.max(p, 0), 100) / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Embeds every sentence and starts a new chunk where the cosine distance
+ * between neighboring sentences is unusually large, i.e. where the topic
+ * shifts. Chunks over the maximum size are split again at their largest
+ * internal distance, and chunks under the minimum size are merged into the
+ * more similar neighbor.
+ */
+export class EmbeddingChunking implements ChunkingStrategy {
+  name = 'embedding';
+  private breakpointPercentile: number;
+  private minChunkSize: number;
+  private maxChunkSize: number;
+  private bufferSize: number;
+  private sentenceChunker: SemanticChunking;
+
+  constructor(
+    private embeddings: AdvancedEmbeddings | MockEmbeddings,
+    options: EmbeddingChunkingOptions = {}
+  ) {
+    this.breakpointPercentile = options.breakpointPercentile ?? 95;
+    this.minChunkSize = options.minChunkSize ?? 100;
+    this.maxChunkSize = options.maxChunkSize ?? 1000;
+    this.bufferSize = options.bufferSize ?? 1;
+    // Single sentences longer than the maximum are split by characters
+    this.sentenceChunker = new SemanticChunking(this.maxChunkSize, 0);
+  }
+
+  async chunk(text: string, metadata?: Record<string, any>): Promise<Document[]> {
+    const sentences = sentenceSpans(text);
+    if (sentences.length === 0) return [];
+
+    const distances = await this.sentenceDistances(text, sentences);
+    const threshold = percentile(distances, this.breakpointPercentile);
+    const size = ([from, to]: [number, number]) => sentences[to].end - sentences[from].start;
+
+    let groups: Array<[number, number]> = [];
+    let from = 0;
+    distances.forEach((distance, i) => {
+      if (distance > threshold) {
+        groups.push([from, i]);
+        from = i + 1;
+      }
+    });
+    groups.push([from, sentences.length - 1]);
+
+    groups = groups.flatMap(group => this.splitLarge(group, distances, size));
+    groups = this.mergeSmall(groups, distances, size);
+
+    const contents: string[] = [];
+    for (const [groupStart, groupEnd] of groups) {
+      const content = text.slice(sentences[groupStart].start, sentences[groupEnd].end);
+      if (content.length <= this.maxChunkSize) {
+        contents.push(content);
+      } else {
+        const pieces = await this.sentenceChunker.chunk(content);
+        contents.push(...pieces.map(piece => piece.pageContent));
+      }
+    }
+
+    return contents.map(
+      (content, index) =>
+        new Document({
+          pageContent: content,
+          metadata: { ...metadata, chunkIndex: index, chunkingStrategy: this.name },
+        })
+    );
+  }
+
+  /** Cosine distance between each sentence window and the next one. */
+  private async sentenceDistances(text: string, sentences: TextSpan[]): Promise<number[]> {
+    if (sentences.length < 2) return [];
+
+    const windows = sentences.map((_, i) => {
+      const first = sentences[Math.max(0, i - this.bufferSize)];
+      const last = sentences[Math.min(sentences.length - 1, i + this.bufferSize)];
+      return text.slice(first.start, last.end);
+    });
+
+    const vectors =
+      this.embeddings instanceof MockEmbeddings
+        ? await this.embeddings.embedDocuments(windows)
+        : await this.embeddings.embedDocuments(
+            windows.map(window => new Document({ pageContent: window, metadata: {} }))
+          );
+
+    return vectors.slice(1).map((vector, i) => 1 - cosineSimilarity(vectors[i], vector));
+  }
+
+  private splitLarge(
+    group: [number, number],
+    distances: number[],
+    size: (group: [number, number]) => number
+  ): Array<[number, number]> {
+    const [from, to] = group;
+    if (from === to || size(group) <= this.maxChunkSize) return [group];
+
+    let split = from;
+    for (let i = from + 1; i < to; i++) {
+      if (distances[i] > distances[split]) split = i;
+    }
+
+    return [
+      ...this.splitLarge([from, split], distances, size),
+      ...this.splitLarge([split + 1, to], distances, size),
+    ];
+  }
+
+  private mergeSmall(
+    groups: Array<[number, number]>,
+    distances: number[],
+    size: (group: [number, number]) => number
+  ): Array<[number, number]> {
+    const merged = [...groups];
+    let i = 0;
+
+    while (i < merged.length) {
+      const [from, to] = merged[i];
+      if (merged.length === 1 || size(merged[i]) >= this.minChunkSize) {
+        i++;
+        continue;
+      }
+
+      // Prefer the neighbor across the smaller distance, if the result still fits
+      const neighbors = [
+        { index: i - 1, distance: distances[from - 1] },
+        { index: i + 1, distance: distances[to] },
+      ]
+        .filter(neighbor => neighbor.index >= 0 && neighbor.index < merged.length)
+        .sort((a, b) => a.distance - b.distance);
+
+      const target = neighbors.find(neighbor => {
+        const first = Math.min(i, neighbor.index);
+        return size([merged[first][0], merged[first + 1][1]]) <= this.maxChunkSize;
+      });
+      if (!target) {
+        i++;
+        continue;
+      }
+
+      const first = Math.min(i, target.index);
+      merged.splice(first, 2, [merged[first][0], merged[first + 1][1]]);
+      i = first;
+    }
+
+    return merged;
+  }
+}
+
+export type CodeLanguage = 'typescript' | 'javascript' | 'python' | 'go';
+
+export type SymbolKind =
+  | 'function'
+  | 'class'
+  | 'method'
+  | 'interface'
+  | 'type'
+  | 'enum'
+  | 'struct'
+  | 'module';
+
+const codeExtensions: Record<string, CodeLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  go: 'go',
+};
+
+/**
+ * Language of a source file from its extension (with or without the dot) or
+ * language name, if supported.
+ */
+export function detectLanguage(fileType?: string): CodeLanguage | undefined {
+  if (!fileType) return undefined;
+  const name = fileType.toLowerCase().replace(/^\./, '');
+  return codeExtensions[name] ?? Object.values(codeExtensions).find(language => language === name);
+}
+
+interface SymbolMatch {
+  name: string;
+  kind: SymbolKind;
+}
+
+interface CodeSegment {
+  symbol?: string;
+  kind: SymbolKind;
+  // Zero-based, inclusive line indexes
+  start: number;
+  end: number;
+}
+
+interface LanguageRules {
+  /** Matches a declaration at the top level of a file. */
+  declaration(line: string): SymbolMatch | null;
+  /** Matches a method inside a class body; absent for languages without classes. */
+  member?(line: string): SymbolMatch | null;
+  /** Comments and decorators directly above a declaration belong to it. */
+  leading: RegExp;
+  /** Blocks end by indentation (Python) rather than by closing braces. */
+  indentBlocks: boolean;
+}
+
+function firstMatch(line: string, patterns: Array<[RegExp, SymbolKind]>): SymbolMatch | null {
+  for (const [pattern, kind] of patterns) {
+    const match = line.match(pattern);
+    if (match) return { name: match[1], kind };
+  }
+  return null;
+}
+
+// Optional `export`, `export default` and `declare` in front of a declaration
+const exported = String.raw`^(?:export\s+(?:default\s+)?)?(?:declare\s+)?`;
+const memberModifiers = [
+  'public',
+  'private',
+  'protected',
+  'static',
+  'readonly',
+  'abstract',
+  'override',
+  'async',
+  'get',
+  'set',
+];
+const modifiers = String.raw`(?:(?:${memberModifiers.join('|')})\s+)*`;
+
+const scriptDeclarations: Array<[RegExp, SymbolKind]> = [
+  [new RegExp(String.raw`${exported}(?:async\s+)?function\s*\*?\s*([\w$]+)`), 'function'],
+  [new RegExp(String.raw`${exported}(?:abstract\s+)?class\s+([\w$]+)`), 'class'],
+  [new RegExp(String.raw`${exported}interface\s+([\w$]+)`), 'interface'],
+  [new RegExp(String.raw`${exported}type\s+([\w$]+)`), 'type'],
+  [new RegExp(String.raw`${exported}(?:const\s+)?enum\s+([\w$]+)`), 'enum'],
+  // Functions assigned to variables: `const handler = async (req) => ...`
+  [
+    /^(?:export\s+)?(?:const|let|var)\s+([\w$]+)[^=]*=\s*(?:async\s+)?(?:function\b|\(|\w+\s*=>)/,
+    'function',
+  ],
+];
+
+const scriptMembers: Array<[RegExp, SymbolKind]> = [
+  [new RegExp(String.raw`^\s+${modifiers}\*?\s*(#?[\w$]+)\s*(?:<[^>]*>)?\s*\(`), 'method'],
+  // Arrow function properties: `handle = async (event) => ...`
+  [
+    new RegExp(
+      String.raw`^\s+${modifiers}(#?[\w$]+)[^=(]*=\s*(?:async\s+)?` +
+        String.raw`(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>`
+    ),
+    'method',
+  ],
+];
+
+const scriptRules: LanguageRules = {
+  declaration: line => firstMatch(line, scriptDeclarations),
+  member: line => {
+    const match = firstMatch(line, scriptMembers);
+    // Control flow such as `if (` looks like a method call at this level
+    return match && !/^(?:if|for|while|switch|catch|return|super)$/.test(match.name) ? match : null;
+  },
+  leading: /^\s*(?:\/\/|\/\*|\*|@)/,
+  indentBlocks: false,
+};
+
+const languageRules: Record<CodeLanguage, LanguageRules> = {
+  typescript: scriptRules,
+  javascript: scriptRules,
+  python: {
+    declaration: line =>
+      firstMatch(line, [
+        [/^(?:async\s+)?def\s+(\w+)/, 'function'],
+        [/^class\s+(\w+)/, 'class'],
+      ]),
+    member: line => firstMatch(line, [[/^\s+(?:async\s+)?def\s+(\w+)/, 'method']]),
+    leading: /^\s*[#@]/,
+    indentBlocks: true,
+  },
+  go: {
+    declaration: line => {
+      const method = line.match(/^func\s+\(\s*\w*\s*\*?\s*(\w+)[^)]*\)\s*(\w+)/);
+      if (method) return { name: `${method[1]}.${method[2]}`, kind: 'method' };
+      return firstMatch(line, [
+        [/^func\s+(\w+)/, 'function'],
+        [/^type\s+(\w+)\s+struct\b/, 'struct'],
+        [/^type\s+(\w+)\s+interface\b/, 'interface'],
+        [/^type\s+(\w+)/, 'type'],
+      ]);
+    },
+    leading: /^\s*\/\//,
+    indentBlocks: false,
+  },
+};
+
+function indentation(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/** Net change in bracket depth, ignoring string literals and line comments. */
+function bracketDelta(line: string): number {
+  const code = line.replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""').replace(/\/\/.*$/, '');
+  let delta = 0;
+  for (const char of code) {
+    if ('{(['.includes(char)) delta++;
+    else if ('})]'.includes(char)) delta--;
+  }
+  return delta;
+}
+
+/**
+ * Splits source files on top-level declarations (functions, classes, types)
+ * and records the symbol, its kind and its line range. Classes larger than
+ * the chunk size are split into their methods, and declarations that are
+ * still too large are split between lines. Declarations are found with
+ * per-language patterns rather than a parser, so unusual formatting may end
+ * up in module-level chunks.
+ */
+export class CodeChunking implements ChunkingStrategy {
+  name = 'code';
+
+  constructor(private chunkSize: number = 1024) {}
+
+  async chunk(text: string, metadata?: Record<string, any>): Promise<Document[]> {
+    const language =
+      detectLanguage(metadata?.language) ?? detectLanguage(metadata?.fileType) ?? 'typescript';
+    const rules = languageRules[language];
+    const lines = text.split('\n');
+
+    const segments = this.findDeclarations(lines, 0, lines.length - 1, rules, false).flatMap(
+      segment => this.splitSegment(lines, segment, rules)
+    );
+
+    return segments.map((segment, index) => {
+      const chunkMetadata: Record<string, any> = {
+        ...metadata,
+        language,
+        symbolKind: segment.kind,
+        startLine: segment.start + 1,
+        endLine: segment.end + 1,
+        chunkIndex: index,
+        chunkingStrategy: this.name,
+        hasPrevious: index > 0,
+        hasNext: index < segments.length - 1,
+        totalChunks: segments.length,
+      };
+      if (segment.symbol) chunkMetadata.symbol = segment.symbol;
+
+      const pageContent = lines.slice(segment.start, segment.end + 1).join('\n');
+      return new Document({ pageContent, metadata: chunkMetadata });
+    });
+  }
+
+  /**
+   * Declarations between `from` and `to`, with the code in between returned
+   * as module segments so that every non-blank line belongs to a segment.
+   */
+  private findDeclarations(
+    lines: string[],
+    from: number,
+    to: number,
+    rules: LanguageRules,
+    members: boolean
+  ): CodeSegment[] {
+    const segments: CodeSegment[] = [];
+    const bodyIndent = members ? this.bodyIndent(lines, from, to) : 0;
+    let gapStart = from;
+
+    const pushGap = (end: number) => {
+      const gap = this.trim(lines, { kind: 'module', start: gapStart, end });
+      if (gap) segments.push(gap);
+    };
+
+    for (let i = from; i <= to; i++) {
+      const line = lines[i];
+      if (!line.trim() || indentation(line) !== bodyIndent) continue;
+
+      const match = members ? rules.member?.(line) : rules.declaration(line);
+      if (!match) continue;
+
+      let start = i;
+      while (start > gapStart && lines[start - 1].trim() && rules.leading.test(lines[start - 1])) {
+        start--;
+      }
+      const end = this.blockEnd(lines, i, to, rules);
+
+      pushGap(start - 1);
+      segments.push({ symbol: match.name, kind: match.kind, start, end });
+      gapStart = end + 1;
+      i = end;
+    }
+
+    pushGap(to);
+    return segments;
+  }
+
+  /** Last line of the declaration starting at `start`. */
+  private blockEnd(lines: string[], start: number, to: number, rules: LanguageRules): number {
+    if (rules.indentBlocks) {
+      const indent = indentation(lines[start]);
+      let end = start;
+      let depth = bracketDelta(lines[start]);
+
+      for (let i = start + 1; i <= to; i++) {
+        const line = lines[i];
+        // Lines inside an open bracket (multi-line signatures) belong to the block
+        if (line.trim() && depth <= 0 && indentation(line) <= indent) break;
+        depth += bracketDelta(line);
+        if (line.trim()) end = i;
+      }
+      return end;
+    }
+
+    let depth = 0;
+    for (let i = start; i <= to; i++) {
+      depth += bracketDelta(lines[i]);
+      const trimmed = lines[i].trim();
+      // A declaration continues while brackets are open or the line ends mid-expression
+      const continues = /(?:=>|[=,(\[{:|&+\-?.]|\bextends|\bimplements)$/.test(trimmed);
+      if (depth <= 0 && trimmed && !continues) return i;
+    }
+    return to;
+  }
+
+  private bodyIndent(lines: string[], from: number, to: number): number {
+    for (let i = from; i <= to; i++) {
+      if (lines[i].trim()) return indentation(lines[i]);
+    }
+    return 0;
+  }
+
+  /** Narrows a segment to its non-blank lines, or null when it is empty. */
+  private trim(lines: string[], segment: CodeSegment): CodeSegment | null {
+    let { start, end } = segment;
+    while (start <= end && !lines[start].trim()) start++;
+    while (end >= start && !lines[end].trim()) end--;
+    return start <= end ? { ...segment, start, end } : null;
+  }
+
+  private size(lines: string[], segment: CodeSegment): number {
+    return lines.slice(segment.start, segment.end + 1).join('\n').length;
+  }
+
+  private splitSegment(lines: string[], segment: CodeSegment, rules: LanguageRules): CodeSegment[] {
+    if (this.size(lines, segment) <= this.chunkSize) return [segment];
+
+    if (segment.kind === 'class' && rules.member) {
+      const methods = this.splitClass(lines, segment, rules);
+      if (methods) return methods.flatMap(part => this.splitLines(lines, part));
+    }
+
+    return this.splitLines(lines, segment);
+  }
+
+  /**
+   * Splits a class into its header (including fields) and one segment per
+   * method, with the closing brace kept on the last method. Returns null
+   * when no methods are found.
+   */
+  private splitClass(
+    lines: string[],
+    segment: CodeSegment,
+    rules: LanguageRules
+  ): CodeSegment[] | null {
+    let header = segment.start;
+    while (!rules.declaration(lines[header])) header++;
+
+    // The class body starts after the line that opens it
+    let bodyStart = header;
+    if (!rules.indentBlocks) {
+      while (bodyStart < segment.end && !lines[bodyStart].includes('{')) bodyStart++;
+    }
+    bodyStart++;
+
+    const bodyEnd = rules.indentBlocks ? segment.end : segment.end - 1;
+    const members = this.findDeclarations(lines, bodyStart, bodyEnd, rules, true);
+    const methods = members.filter(member => member.kind === 'method');
+    if (methods.length === 0) return null;
+
+    // Fields and comments between methods stay with the preceding part
+    const parts: CodeSegment[] = [
+      { symbol: segment.symbol, kind: 'class', start: segment.start, end: methods[0].start - 1 },
+      ...methods.map((method, i) => ({
+        symbol: `${segment.symbol}.${method.symbol}`,
+        kind: method.kind,
+        start: method.start,
+        end: i < methods.length - 1 ? methods[i + 1].start - 1 : segment.end,
+      })),
+    ];
+    return parts.map(part => this.trim(lines, part)).filter((part): part is CodeSegment => !!part);
+  }
+
+  /** Splits an oversized segment between lines, preferring blank lines as break points. */
+  private splitLines(lines: string[], segment: CodeSegment): CodeSegment[] {
+    if (this.size(lines, segment) <= this.chunkSize) return [segment];
+
+    const parts: CodeSegment[] = [];
+    let start = segment.start;
+    let lastBlank = -1;
+
+    for (let i = segment.start; i <= segment.end; i++) {
+      if (i > start && this.size(lines, { ...segment, start, end: i }) > this.chunkSize) {
+        const end = lastBlank > start ? lastBlank : i - 1;
+        const part = this.trim(lines, { ...segment, start, end });
+        if (part) parts.push(part);
+        start = end + 1;
+        lastBlank = -1;
+      }
+      if (!lines[i].trim()) lastBlank = i;
+    }
+
+    const last = this.trim(lines, { ...segment, start, end: segment.end });
+    if (last) parts.push(last);
+    return parts;
+  }
+}
+
 export class AdaptiveChunking implements ChunkingStrategy {
   name = 'adaptive';
   private semanticChunker: SemanticChunking;
   private tokenChunker: TokenBasedChunking;
+  private markdownChunker: MarkdownChunking;
+  private codeChunker: CodeChunking;
 
   constructor(chunkSize: number = 512, chunkOverlap: number = 128) {
     this.semanticChunker = new SemanticChunking(chunkSize, chunkOverlap);
     this.tokenChunker = new TokenBasedChunking(chunkSize, chunkOverlap);
+    this.markdownChunker = new MarkdownChunking(chunkSize, chunkOverlap);
+    // Whole functions are more useful than evenly sized pieces, so allow larger chunks
+    this.codeChunker = new CodeChunking(chunkSize * 2);
   }
 
   async chunk(text: string, metadata?: Record<string, any>): Promise<Document[]> {
+    // Markdown files keep their heading structure, as do HTML and Office documents,
+    // which are loaded as Markdown
+    if (['md', 'markdown', 'html', 'htm', 'docx', 'pptx'].includes(metadata?.fileType)) {
+      const chunks = await this.markdownChunker.chunk(text, metadata);
+      return chunks.map(chunk => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, contentType: 'markdown' },
+      }));
+    }
+
+    // Source files are split on their declarations
+    if (detectLanguage(metadata?.language ?? metadata?.fileType)) {
+      const chunks = await this.codeChunker.chunk(text, metadata);
+      return chunks.map(chunk => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, contentType: 'code' },
+      }));
+    }
+
     // Determine content type and choose strategy
     const contentType = this.detectContentType(text);
     
@@ -116,20 +867,126 @@ export class AdaptiveChunking implements ChunkingStrategy {
   }
 }
 
+export type ChunkingStrategyName =
+  | 'adaptive'
+  | 'recursive'
+  | 'token'
+  | 'markdown'
+  | 'code'
+  | 'embedding';
+
+export const chunkingStrategies: ChunkingStrategyName[] = [
+  'adaptive',
+  'recursive',
+  'token',
+  'markdown',
+  'code',
+  'embedding',
+];
+
+export interface ChunkingOptions {
+  chunkSize?: number;
+  chunkOverlap?: number;
+  /** Used by the embedding strategy; defaults to the configured embeddings. */
+  embeddings?: AdvancedEmbeddings | MockEmbeddings;
+}
+
+export function createChunkingStrategy(
+  name: ChunkingStrategyName,
+  options: ChunkingOptions = {}
+): ChunkingStrategy {
+  const chunkSize = options.chunkSize ?? config.rag.chunkSize;
+  const chunkOverlap = options.chunkOverlap ?? config.rag.chunkOverlap;
+
+  switch (name) {
+    case 'adaptive':
+      return new AdaptiveChunking(chunkSize, chunkOverlap);
+    case 'recursive':
+      return new SemanticChunking(chunkSize, chunkOverlap);
+    case 'token':
+      return new TokenBasedChunking(chunkSize, chunkOverlap);
+    case 'markdown':
+      return new MarkdownChunking(chunkSize, chunkOverlap);
+    case 'code':
+      return new CodeChunking(chunkSize);
+    case 'embedding':
+      return new EmbeddingChunking(
+        options.embeddings ?? (config.mockMode ? new MockEmbeddings() : new AdvancedEmbeddings()),
+        {
+          breakpointPercentile: config.rag.semanticBreakpointPercentile,
+          minChunkSize: config.rag.semanticMinChunkSize,
+          maxChunkSize: chunkSize,
+        }
+      );
+  }
+}
+
+/** Where a page starts in a document's content. Pages are numbered from 1. */
+export interface PageBreak {
+  pageNumber: number;
+  offset: number;
+}
+
+/**
+ * Sets `pageStart`/`pageEnd` on chunks by finding each chunk in the content.
+ * Chunks arrive in document order, so each search starts after the previous
+ * match; chunks that can't be found (e.g. rewritten whitespace) get no pages.
+ */
+export function assignPages(content: string, chunks: Document[], pages: PageBreak[]): Document[] {
+  const pageAt = (offset: number) =>
+    pages.filter(page => page.offset <= offset).pop()?.pageNumber ?? pages[0]?.pageNumber;
+  let cursor = 0;
+
+  return chunks.map(chunk => {
+    let start = content.indexOf(chunk.pageContent, cursor);
+    if (start < 0) start = content.indexOf(chunk.pageContent);
+    if (start < 0 || pages.length === 0) return chunk;
+
+    cursor = start + 1;
+    const end = start + Math.max(chunk.pageContent.length - 1, 0);
+    return {
+      ...chunk,
+      metadata: { ...chunk.metadata, pageStart: pageAt(start), pageEnd: pageAt(end) },
+    };
+  });
+}
+
 export class ChunkingPipeline {
   private strategy: ChunkingStrategy;
+  /** Duplicate detection across every batch this pipeline processes. */
+  readonly deduplicator: ChunkDeduplicator;
 
-  constructor(strategy: ChunkingStrategy = new AdaptiveChunking()) {
+  constructor(
+    strategy: ChunkingStrategy = new AdaptiveChunking(),
+    options: { dedup?: DedupPolicy; dedupThreshold?: number } = {}
+  ) {
     this.strategy = strategy;
+    this.deduplicator = new ChunkDeduplicator(
+      options.dedup ?? config.ingestion.dedupPolicy,
+      options.dedupThreshold ?? config.ingestion.dedupThreshold
+    );
   }
 
   async processDocuments(
-    documents: Array<{ content: string; metadata?: Record<string, any> }>
+    documents: Array<{
+      content: string;
+      metadata?: Record<string, any>;
+      pages?: PageBreak[];
+      records?: Array<{ content: string; metadata: Record<string, any> }>;
+      parts?: Array<{ content: string; metadata: Record<string, any> }>;
+    }>
   ): Promise<Document[]> {
     const allChunks: Document[] = [];
 
     for (const doc of documents) {
-      const chunks = await this.strategy.chunk(doc.content, doc.metadata);
+      let chunks = doc.records
+        ? this.recordChunks(doc.records, doc.metadata)
+        : doc.parts
+          ? await this.partChunks(doc.parts, doc.metadata)
+          : await this.strategy.chunk(doc.content, doc.metadata);
+      if (doc.pages) {
+        chunks = assignPages(doc.content, chunks, doc.pages);
+      }
       
       // Add document-level metadata to each chunk
       const enhancedChunks = chunks.map(chunk => ({
@@ -141,10 +998,62 @@ export class ChunkingPipeline {
         },
       }));
 
+      if (this.deduplicator.policy !== 'off') {
+        // Duplicates are tracked by chunk id, which must not shift when some are dropped
+        enhancedChunks.forEach((chunk, i) => ensureChunkId(chunk, i));
+      }
       allChunks.push(...enhancedChunks);
     }
 
-    return allChunks;
+    return this.deduplicator.apply(allChunks);
+  }
+
+  /** Records (CSV rows, JSON objects) are small and self-contained, so each is one chunk. */
+  private recordChunks(
+    records: Array<{ content: string; metadata: Record<string, any> }>,
+    metadata?: Record<string, any>
+  ): Document[] {
+    return records.map(
+      (record, index) =>
+        new Document({
+          pageContent: record.content,
+          metadata: {
+            ...metadata,
+            ...record.metadata,
+            chunkIndex: index,
+            chunkingStrategy: 'record',
+            totalChunks: records.length,
+          },
+        })
+    );
+  }
+
+  /**
+   * Parts (the messages of a mailbox) are chunked on their own so no chunk
+   * spans two of them, then numbered as one document.
+   */
+  private async partChunks(
+    parts: Array<{ content: string; metadata: Record<string, any> }>,
+    metadata?: Record<string, any>
+  ): Promise<Document[]> {
+    const chunks: Document[] = [];
+    for (const part of parts) {
+      chunks.push(...(await this.strategy.chunk(part.content, { ...metadata, ...part.metadata })));
+    }
+
+    return chunks.map(
+      (chunk, index) =>
+        new Document({
+          pageContent: chunk.pageContent,
+          metadata: {
+            ...chunk.metadata,
+            chunkIndex: index,
+            totalChunks: chunks.length,
+            hasPrevious: index > 0,
+            hasNext: index < chunks.length - 1,
+          },
+        })
+    );
   }
 
   setStrategy(strategy: ChunkingStrategy): void {
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { Document } from 'langchain/document';
+import { ContextExpander, joinChunks } from './contextExpansion.js';
+import { SearchResult } from './vectorStore.js';
+
+const chunk = (source: string, chunkIndex: number, content: string) =>
+  new Document({ pageContent: content, metadata: { source, chunkIndex } });
+
+const guide = [
+  chunk('guide.md', 0, 'Intro to the guide.'),
+  chunk('guide.md', 1, 'Use a connection pool.'),
+  chunk('guide.md', 2, 'Set the pool size to 10.'),
+  chunk('guide.md', 3, 'Cache responses in Redis.'),
+  chunk('guide.md', 4, 'Expire cache keys.'),
+];
+
+const store = {
+  async getChunks(source: string, chunkIndexes?: number[]) {
+    return guide.filter(
+      doc =>
+        doc.metadata.source === source &&
+        (!chunkIndexes || chunkIndexes.includes(doc.metadata.chunkIndex))
+    );
+  },
+};
+
+const hit = (index: number, score: number = 1): SearchResult => ({ document: guide[index], score });
+
+describe('ContextExpander', () => {
+  it('should add neighbouring chunks around a match', async () => {
+    const expander = new ContextExpander(store, { mode: 'neighbors', window: 1, maxTokens: 1000 });
+    const [block] = await expander.expand([hit(1)]);
+
+    expect(block.document.pageContent).toBe(
+      'Intro to the guide.\nUse a connection pool.\nSet the pool size to 10.'
+    );
+    expect(block.document.metadata.contextRange).toEqual({ start: 0, end: 2 });
+  });
+
+  it('should merge matches whose ranges touch into one block', async () => {
+    const expander = new ContextExpander(store, { mode: 'neighbors', window: 1, maxTokens: 1000 });
+    const blocks = await expander.expand([hit(1, 0.9), hit(3, 0.8)]);
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].score).toBe(0.9);
+    expect(blocks[0].document.metadata.contextRange).toEqual({ start: 0, end: 4 });
+  });
+
+  it('should prefer the following chunk when the budget is tight', async () => {
+    // The match costs 6 tokens, leaving room for exactly one neighbour
+    const expander = new ContextExpander(store, { mode: 'document', window: 1, maxTokens: 13 });
+    const [block] = await expander.expand([hit(1)]);
+
+    expect(block.document.metadata.contextRange).toEqual({ start: 1, end: 2 });
+  });
+
+  it('should keep same-named files in different folders apart', async () => {
+    const readmes = [
+      chunk('api/README.md', 0, 'API overview.'),
+      chunk('api/README.md', 1, 'Send a bearer token.'),
+      chunk('guides/README.md', 0, 'Guides overview.'),
+      chunk('guides/README.md', 1, 'Start with the tutorial.'),
+    ];
+    const readmeStore = {
+      async getChunks(source: string, chunkIndexes?: number[]) {
+        return readmes.filter(
+          doc =>
+            doc.metadata.source === source &&
+            (!chunkIndexes || chunkIndexes.includes(doc.metadata.chunkIndex))
+        );
+      },
+    };
+    const expander = new ContextExpander(readmeStore, {
+      mode: 'neighbors',
+      window: 1,
+      maxTokens: 1000,
+    });
+
+    const blocks = await expander.expand([
+      { document: readmes[1], score: 0.9 },
+      { document: readmes[3], score: 0.8 },
+    ]);
+    expect(blocks.map(block => block.document.pageContent)).toEqual([
+      'API overview.\nSend a bearer token.',
+      'Guides overview.\nStart with the tutorial.',
+    ]);
+  });
+
+  it('should leave results without chunk metadata untouched', async () => {
+    const loose: SearchResult = { document: new Document({ pageContent: 'x' }), score: 1 };
+    const expander = new ContextExpander(store, { mode: 'document', window: 1, maxTokens: 1000 });
+
+    expect(await expander.expand([loose])).toEqual([loose]);
+  });
+});
+
+describe('joinChunks', () => {
+  it('should drop text repeated by chunk overlap', () => {
+    const overlap = 'the connection pool is shared';
+    expect(joinChunks(`First, ${overlap}`, `${overlap} across requests.`)).toBe(
+      `First, ${overlap} across requests.`
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { Document } from 'langchain/document';
+import { SearchResult } from './vectorStore.js';
+
+export type ContextExpansionMode = 'off' | 'neighbors' | 'document';
+
+export const contextExpansionModes: ContextExpansionMode[] = ['off', 'neighbors', 'document'];
+
+export interface ContextExpansionOptions {
+  mode: ContextExpansionMode;
+  /** Chunks to add on each side of a match in 'neighbors' mode */
+  window: number;
+  /** Token budget for all context blocks together, matched chunks included */
+  maxTokens: number;
+}
+
+/** Anything that can look up stored chunks of a source by their chunkIndex. */
+export interface ChunkSource {
+  getChunks(source: string, chunkIndexes?: number[]): Promise<Document[]>;
+}
+
+interface ChunkRange {
+  source: string;
+  start: number;
+  end: number;
+}
+
+interface Block {
+  result: SearchResult;
+  range?: ChunkRange;
+}
+
+/** Rough token count (about 4 characters per token for English text). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** Joins consecutive chunks, dropping the text repeated by chunk overlap. */
+export function joinChunks(previous: string, next: string): string {
+  for (let length = Math.min(previous.length, next.length); length >= 20; length--) {
+    if (previous.endsWith(next.substring(0, length))) {
+      return previous + next.substring(length);
+    }
+  }
+  return `${previous}\n${next}`;
+}
+
+/**
+ * Widens each result to the chunks around it (or its whole document) so
+ * sentences that continue past a chunk boundary reach the LLM. Chunks are
+ * added alternately after and before the match while the token budget lasts,
+ * and results whose ranges touch in the same document become one block.
+ */
+export class ContextExpander {
+  private chunks = new Map<string, Map<number, Document>>();
+  private loadedSources = new Set<string>();
+
+  constructor(
+    private store: ChunkSource,
+    private options: ContextExpansionOptions
+  ) {}
+
+  async expand(results: SearchResult[]): Promise<SearchResult[]> {
+    if (this.options.mode === 'off' || results.length === 0) return results;
+
+    this.chunks.clear();
+    this.loadedSources.clear();
+
+    const covered = new Map<string, Set<number>>();
+    const blocks: Block[] = [];
+    let budget =
+      this.options.maxTokens -
+      results.reduce((sum, r) => sum + estimateTokens(r.document.pageContent), 0);
+
+    for (const result of results) {
+      const { source, chunkIndex } = result.document.metadata;
+      if (!source || typeof chunkIndex !== 'number') {
+        blocks.push({ result });
+        continue;
+      }
+
+      const chunks = await this.loadChunks(source, chunkIndex);
+      chunks.set(chunkIndex, result.document);
+      const seen = covered.get(source) ?? new Set<number>();
+      covered.set(source, seen.add(chunkIndex));
+
+      const range = { source, start: chunkIndex, end: chunkIndex };
+      const maxDistance = this.options.mode === 'neighbors' ? this.options.window : chunks.size;
+      const open = { after: true, before: true };
+
+      for (let distance = 1; distance <= maxDistance && (open.after || open.before); distance++) {
+        for (const side of ['after', 'before'] as const) {
+          if (!open[side]) continue;
+
+          const index = side === 'after' ? chunkIndex + distance : chunkIndex - distance;
+          const chunk = chunks.get(index);
+          const cost = !chunk || seen.has(index) ? 0 : estimateTokens(chunk.pageContent);
+
+          if (!chunk || cost > budget) {
+            open[side] = false;
+            continue;
+          }
+
+          budget -= cost;
+          seen.add(index);
+          if (side === 'after') range.end = index;
+          else range.start = index;
+        }
+      }
+
+      this.addRange(blocks, result, range);
+    }
+
+    return blocks.map(block => this.toResult(block));
+  }
+
+  private async loadChunks(source: string, chunkIndex: number): Promise<Map<number, Document>> {
+    const chunks = this.chunks.get(source) ?? new Map<number, Document>();
+    this.chunks.set(source, chunks);
+
+    let wanted: number[] | undefined;
+    if (this.options.mode === 'document') {
+      // Whole documents are fetched once per source
+      if (this.loadedSources.has(source)) return chunks;
+      this.loadedSources.add(source);
+    } else {
+      wanted = [];
+      for (let offset = -this.options.window; offset <= this.options.window; offset++) {
+        const index = chunkIndex + offset;
+        if (index >= 0 && !chunks.has(index)) wanted.push(index);
+      }
+      if (wanted.length === 0) return chunks;
+    }
+
+    for (const chunk of await this.store.getChunks(source, wanted)) {
+      if (!chunks.has(chunk.metadata.chunkIndex)) chunks.set(chunk.metadata.chunkIndex, chunk);
+    }
+    return chunks;
+  }
+
+  /** Merges the range into an earlier block of the same document it overlaps or touches. */
+  private addRange(blocks: Block[], result: SearchResult, range: ChunkRange): void {
+    const touching = blocks.find(
+      block =>
+        block.range?.source === range.source &&
+        range.start <= block.range.end + 1 &&
+        range.end >= block.range.start - 1
+    );
+
+    if (touching?.range) {
+      touching.range.start = Math.min(touching.range.start, range.start);
+      touching.range.end = Math.max(touching.range.end, range.end);
+    } else {
+      blocks.push({ result, range });
+    }
+  }
+
+  private toResult({ result, range }: Block): SearchResult {
+    if (!range) return result;
+
+    const chunks = this.chunks.get(range.source)!;
+    const metadata: Record<string, any> = {
+      ...result.document.metadata,
+      contextRange: { start: range.start, end: range.end },
+    };
+    let content = '';
+
+    for (let index = range.start; index <= range.end; index++) {
+      const chunk = chunks.get(index)!;
+      content = content ? joinChunks(content, chunk.pageContent) : chunk.pageContent;
+
+      // The block spans the pages of all its chunks
+      if (chunk.metadata.pageStart) {
+        metadata.pageStart = Math.min(metadata.pageStart ?? Infinity, chunk.metadata.pageStart);
+        metadata.pageEnd = Math.max(metadata.pageEnd ?? 0, chunk.metadata.pageEnd);
+      }
+    }
+
+    return {
+      ...result,
+      document: new Document({ pageContent: content, metadata }),
+    };
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { InMemoryConversationStore, FileConversationStore } from './conversation.js';
+
+const turn = (question: string) => ({
+  question,
+  answer: `answer to ${question}`,
+  timestamp: new Date().toISOString(),
+});
+
+describe('ConversationStore', () => {
+  describe('InMemoryConversationStore', () => {
+    it('should keep only the most recent turns', async () => {
+      const store = new InMemoryConversationStore(2);
+      const { id } = await store.create();
+
+      await store.appendTurn(id, turn('one'));
+      await store.appendTurn(id, turn('two'));
+      const conversation = await store.appendTurn(id, turn('three'));
+
+      expect(conversation.turns.map(t => t.question)).toEqual(['two', 'three']);
+    });
+
+    it('should reject turns for unknown conversations', async () => {
+      const store = new InMemoryConversationStore();
+      await expect(store.appendTurn('missing', turn('one'))).rejects.toThrow();
+    });
+  });
+
+  describe('FileConversationStore', () => {
+    it('should persist conversations across store instances', async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+
+      try {
+        const { id } = await new FileConversationStore(directory, 5).create();
+        await new FileConversationStore(directory, 5).appendTurn(id, turn('one'));
+
+        const conversation = await new FileConversationStore(directory, 5).get(id);
+        expect(conversation?.turns.map(t => t.question)).toEqual(['one']);
+
+        expect(await new FileConversationStore(directory, 5).delete(id)).toBe(true);
+        expect(await new FileConversationStore(directory, 5).get(id)).toBeNull();
+      } finally {
+        await fs.rm(directory, { recursive: true, force: true });
+      }
+    });
+
+    it('should not resolve ids outside the store directory', async () => {
+      const store = new FileConversationStore(os.tmpdir(), 5);
+      expect(await store.get('../etc/passwd')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/index.js';
+
+export interface ConversationTurn {
+  question: string;
+  rewrittenQuestion?: string;
+  answer: string;
+  timestamp: string;
+}
+
+export interface Conversation {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  turns: ConversationTurn[];
+}
+
+export interface ConversationStore {
+  create(): Promise<Conversation>;
+  get(id: string): Promise<Conversation | null>;
+  appendTurn(id: string, turn: ConversationTurn): Promise<Conversation>;
+  delete(id: string): Promise<boolean>;
+}
+
+function newConversation(): Conversation {
+  const now = new Date().toISOString();
+  return { id: uuidv4(), createdAt: now, updatedAt: now, turns: [] };
+}
+
+function withTurn(
+  conversation: Conversation,
+  turn: ConversationTurn,
+  maxTurns: number
+): Conversation {
+  // Keep only the most recent turns so prompts and files stay bounded
+  const turns = [...conversation.turns, turn].slice(-maxTurns);
+  return { ...conversation, turns, updatedAt: turn.timestamp };
+}
+
+export class InMemoryConversationStore implements ConversationStore {
+  private conversations = new Map<string, Conversation>();
+
+  constructor(private maxTurns: number = config.conversation.maxTurns) {}
+
+  async create(): Promise<Conversation> {
+    const conversation = newConversation();
+    this.conversations.set(conversation.id, conversation);
+    return conversation;
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    return this.conversations.get(id) || null;
+  }
+
+  async appendTurn(id: string, turn: ConversationTurn): Promise<Conversation> {
+    const conversation = this.conversations.get(id);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${id}`);
+    }
+
+    const updated = withTurn(conversation, turn, this.maxTurns);
+    this.conversations.set(id, updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+}
+
+export class FileConversationStore implements ConversationStore {
+  constructor(
+    private directory: string = config.conversation.storePath,
+    private maxTurns: number = config.conversation.maxTurns
+  ) {}
+
+  async create(): Promise<Conversation> {
+    const conversation = newConversation();
+    await this.write(conversation);
+    return conversation;
+  }
+
+  async get(id: string): Promise<Conversation | null> {
+    const filePath = this.filePath(id);
+    if (!filePath) return null;
+
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async appendTurn(id: string, turn: ConversationTurn): Promise<Conversation> {
+    const conversation = await this.get(id);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${id}`);
+    }
+
+    const updated = withTurn(conversation, turn, this.maxTurns);
+    await this.write(updated);
+    return updated;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const filePath = this.filePath(id);
+    if (!filePath) return false;
+
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private filePath(id: string): string | null {
+    // Ids come from clients, so refuse anything that could escape the directory
+    if (!/^[\w-]+$/.test(id)) return null;
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private async write(conversation: Conversation): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.filePath(conversation.id)!, JSON.stringify(conversation, null, 2));
+  }
+}
+
+export function createConversationStore(): ConversationStore {
+  if (config.conversation.store === 'file') {
+    return new FileConversationStore();
+  }
+  return new InMemoryConversationStore();
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import { Document } from 'langchain/document';
+import { ChunkDeduplicator, DuplicateIndex, fingerprint, similarity } from './dedup.js';
+
+const footer =
+  'This document is maintained by the platform team. For questions about deployments, ' +
+  'on-call rotations or access requests, open a ticket in the service desk and include ' +
+  'the name of the affected service, the environment and a link to the relevant dashboard. ' +
+  'Changes to this page are reviewed every quarter, and outdated sections are archived ' +
+  'in the wiki so that links from older incident reports keep working for auditors.';
+
+const chunk = (chunkId: string, source: string, pageContent: string, chunkIndex = 0) =>
+  new Document({ pageContent, metadata: { chunkId, source, chunkIndex } });
+
+// A signature whose last `changed` values differ from the all-zero one
+const variant = (changed: number) => '0000'.repeat(64 - changed) + '1111'.repeat(changed);
+
+describe('fingerprint', () => {
+  it('should score small edits as similar and different text as dissimilar', () => {
+    const { signature } = fingerprint(footer);
+    const edited = footer.replace('quarter', 'month').replace('Changes', 'changes');
+    const unrelated = 'Redis caches hot keys in memory and evicts the least recently used ones.';
+
+    expect(signature).toMatch(/^[0-9a-f]{256}$/);
+    expect(similarity(signature, fingerprint(footer).signature)).toBe(1);
+    expect(similarity(signature, fingerprint(edited).signature)).toBeGreaterThan(0.8);
+    expect(similarity(signature, fingerprint(unrelated).signature)).toBeLessThan(0.2);
+  });
+});
+
+describe('DuplicateIndex', () => {
+  it('should find the most similar entry and prefer the earliest on ties', () => {
+    const index = new DuplicateIndex();
+    index.add({ chunkId: 'a', source: 'a.md', signature: variant(8) });
+    index.add({ chunkId: 'b', source: 'b.md', signature: variant(8) });
+    index.add({ chunkId: 'c', source: 'c.md', signature: variant(4) });
+
+    expect(index.nearest(variant(0), 0.8)).toMatchObject({
+      entry: { chunkId: 'c' },
+      similarity: 60 / 64,
+    });
+    expect(index.nearest(variant(12), 0.8)?.entry.chunkId).toBe('a');
+    expect(index.nearest(variant(32), 0.8)).toBeNull();
+
+    index.remove(['a', 'b', 'c']);
+    expect(index.nearest(variant(8), 0.8)).toBeNull();
+    expect(index.size).toBe(0);
+  });
+});
+
+describe('ChunkDeduplicator', () => {
+  const batch = () => [
+    chunk('a0', 'a.md', footer),
+    chunk('a1', 'a.md', 'Intro to caching.', 1),
+    chunk('b0', 'b.md', footer),
+    chunk('b1', 'b.md', 'Intro to caching.', 1),
+  ];
+
+  it('should report duplicates without removing them', () => {
+    const deduplicator = new ChunkDeduplicator('report');
+    const chunks = deduplicator.apply(batch());
+
+    expect(chunks).toHaveLength(4);
+    expect(chunks[0].metadata.minhash).toBe(fingerprint(footer).signature);
+    expect(deduplicator.takeClusters()).toEqual([
+      {
+        kind: 'exact',
+        kept: { chunkId: 'a0', source: 'a.md', chunkIndex: 0 },
+        duplicates: [{ chunkId: 'b0', source: 'b.md', chunkIndex: 0, similarity: 1 }],
+      },
+      {
+        kind: 'exact',
+        kept: { chunkId: 'a1', source: 'a.md', chunkIndex: 1 },
+        duplicates: [{ chunkId: 'b1', source: 'b.md', chunkIndex: 1, similarity: 1 }],
+      },
+    ]);
+    expect(deduplicator.takeClusters()).toEqual([]);
+  });
+
+  it('should drop duplicates, or merge their sources into the kept chunk', () => {
+    expect(new ChunkDeduplicator('drop').apply(batch()).map(c => c.metadata.chunkId)).toEqual([
+      'a0',
+      'a1',
+    ]);
+
+    const deduplicator = new ChunkDeduplicator('merge');
+    const chunks = deduplicator.apply(batch());
+    expect(chunks.map(c => c.metadata.duplicateSources)).toEqual([['b.md'], ['b.md']]);
+    expect(deduplicator.takeMerges()).toEqual(
+      new Map([
+        ['a0', ['b.md']],
+        ['a1', ['b.md']],
+      ])
+    );
+  });
+
+  it('should match registered chunks but not a chunk against its own earlier version', () => {
+    const deduplicator = new ChunkDeduplicator('drop');
+    deduplicator.register([
+      { chunkId: 'a0', source: 'a.md', signature: fingerprint(footer).signature },
+    ]);
+
+    expect(deduplicator.apply([chunk('a0', 'a.md', footer)])).toHaveLength(1);
+    expect(deduplicator.apply([chunk('c0', 'c.md', footer)])).toHaveLength(0);
+
+    deduplicator.forget(['a0']);
+    expect(deduplicator.apply([chunk('d0', 'd.md', footer)])).toHaveLength(1);
+  });
+
+  it('should call clusters exact only when the text is identical', () => {
+    const deduplicator = new ChunkDeduplicator('report');
+    // Shingles ignore case, so the signatures are equal but the texts are not
+    deduplicator.apply([chunk('a0', 'a.md', footer), chunk('b0', 'b.md', footer.toUpperCase())]);
+
+    expect(deduplicator.takeClusters()).toEqual([
+      expect.objectContaining({
+        kind: 'near',
+        duplicates: [expect.objectContaining({ chunkId: 'b0', similarity: 1 })],
+      }),
+    ]);
+  });
+
+  it('should track what duplicates were folded into and which kept chunks are gone', () => {
+    const deduplicator = new ChunkDeduplicator('drop');
+    deduplicator.apply(batch());
+
+    expect(deduplicator.takeFolded('b.md')).toEqual(['a0', 'a1']);
+    expect(deduplicator.takeFolded('b.md')).toEqual([]);
+
+    // a0 is stored again when its file is re-chunked; a1 is gone
+    deduplicator.forget(['a0', 'a1']);
+    deduplicator.apply([chunk('a0', 'a.md', footer)]);
+    expect(deduplicator.takeRemoved()).toEqual(new Set(['a1']));
+  });
+
+  it('should pass chunks through untouched when off', () => {
+    const chunks = new ChunkDeduplicator('off').apply(batch());
+    expect(chunks).toHaveLength(4);
+    expect(chunks[0].metadata.minhash).toBeUndefined();
+  });
+});
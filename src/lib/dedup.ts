@@ -0,0 +1,286 @@
+import { createHash } from 'crypto';
+import { Document } from 'langchain/document';
+import { contentHash } from './chunkIds.js';
+
+/**
+ * Near-duplicate detection for chunks. Each chunk gets a MinHash signature of
+ * its word 3-gram shingles, whose matching positions estimate how many
+ * shingles two chunks share (their Jaccard similarity). Copied READMEs,
+ * versioned docs and boilerplate footers share nearly all of them, even after
+ * small edits.
+ */
+
+export const dedupPolicies = ['off', 'report', 'drop', 'merge'] as const;
+export type DedupPolicy = (typeof dedupPolicies)[number];
+
+const SHINGLE_SIZE = 3;
+// Too few shingles to tell a near duplicate from a different short text
+const MIN_SHINGLES = 8;
+const NUM_HASHES = 64;
+// Only the low 16 bits of each minimum are kept, as 4 hex digits
+const HASH_DIGITS = 4;
+// Chunks become candidates when all rows of a band match: likely from a
+// similarity of about 0.5, near certain from 0.7
+const BANDS = 16;
+const ROWS = NUM_HASHES / BANDS;
+
+function shingles(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length <= SHINGLE_SIZE) return [words.join(' ')];
+  return words
+    .slice(0, words.length - SHINGLE_SIZE + 1)
+    .map((_, i) => words.slice(i, i + SHINGLE_SIZE).join(' '));
+}
+
+export interface Fingerprint {
+  /** MinHash signature, NUM_HASHES values of 4 hex digits each. */
+  signature: string;
+  shingleCount: number;
+}
+
+export function fingerprint(text: string): Fingerprint {
+  const terms = Array.from(new Set(shingles(text)));
+  const minimums = new Array<number>(NUM_HASHES).fill(Infinity);
+
+  for (const term of terms) {
+    // Each hash function is h1 + i * h2 over two halves of one digest
+    const digest = createHash('md5').update(term).digest();
+    const h1 = digest.readUInt32LE(0);
+    const h2 = digest.readUInt32LE(4) | 1;
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const hash = (h1 + Math.imul(i, h2)) >>> 0;
+      if (hash < minimums[i]) minimums[i] = hash;
+    }
+  }
+
+  const signature = minimums
+    .map(minimum => (minimum & 0xffff).toString(16).padStart(HASH_DIGITS, '0'))
+    .join('');
+  return { signature, shingleCount: terms.length };
+}
+
+/**
+ * Short hash of a chunk's text. Equal signatures only mean the shingles are
+ * probably alike, so exact copies are told apart by this instead.
+ */
+export function textHash(text: string): string {
+  return contentHash(text).slice(0, 16);
+}
+
+/** Estimated Jaccard similarity of the shingles behind two signatures, from 0 to 1. */
+export function similarity(a: string, b: string): number {
+  let matches = 0;
+  for (let i = 0; i < a.length; i += HASH_DIGITS) {
+    if (a.slice(i, i + HASH_DIGITS) === b.slice(i, i + HASH_DIGITS)) matches++;
+  }
+  return matches / NUM_HASHES;
+}
+
+export interface IndexedChunk {
+  chunkId: string;
+  source: string;
+  chunkIndex?: number;
+  signature: string;
+  textHash?: string;
+}
+
+export interface DuplicateCluster {
+  /** "exact" when every duplicate has the same text as the kept chunk. */
+  kind: 'exact' | 'near';
+  kept: { chunkId: string; source: string; chunkIndex?: number };
+  duplicates: Array<{ chunkId: string; source: string; chunkIndex?: number; similarity: number }>;
+}
+
+/** Signatures of known chunks, looked up by locality-sensitive hashing of their bands. */
+export class DuplicateIndex {
+  private entries = new Map<string, IndexedChunk>();
+  private bands = Array.from({ length: BANDS }, () => new Map<string, Set<string>>());
+  // Insertion order, so the first of several equally similar chunks is the one kept
+  private order = new Map<string, number>();
+  private added = 0;
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private bandKey(signature: string, band: number): string {
+    const width = ROWS * HASH_DIGITS;
+    return signature.slice(band * width, (band + 1) * width);
+  }
+
+  add(entry: IndexedChunk): void {
+    this.remove([entry.chunkId]);
+    this.entries.set(entry.chunkId, entry);
+    this.order.set(entry.chunkId, this.added++);
+    this.bands.forEach((band, i) => {
+      const key = this.bandKey(entry.signature, i);
+      if (!band.has(key)) band.set(key, new Set());
+      band.get(key)!.add(entry.chunkId);
+    });
+  }
+
+  remove(chunkIds: string[]): void {
+    for (const chunkId of chunkIds) {
+      const entry = this.entries.get(chunkId);
+      if (!entry) continue;
+      this.entries.delete(chunkId);
+      this.order.delete(chunkId);
+      this.bands.forEach((band, i) => {
+        band.get(this.bandKey(entry.signature, i))?.delete(chunkId);
+      });
+    }
+  }
+
+  /** The most similar known chunk of at least minSimilarity; the earliest added wins ties. */
+  nearest(
+    signature: string,
+    minSimilarity: number
+  ): { entry: IndexedChunk; similarity: number } | null {
+    const candidates = new Set<string>();
+    this.bands.forEach((band, i) => {
+      band.get(this.bandKey(signature, i))?.forEach(id => candidates.add(id));
+    });
+
+    let best: { entry: IndexedChunk; similarity: number } | null = null;
+    const order = (entry: IndexedChunk) => this.order.get(entry.chunkId)!;
+    for (const chunkId of candidates) {
+      const entry = this.entries.get(chunkId)!;
+      const score = similarity(signature, entry.signature);
+      if (score < minSimilarity) continue;
+      if (
+        !best ||
+        score > best.similarity ||
+        (score === best.similarity && order(entry) < order(best.entry))
+      ) {
+        best = { entry, similarity: score };
+      }
+    }
+
+    return best;
+  }
+}
+
+/**
+ * Applies a dedup policy to chunks as they leave the chunking pipeline. The
+ * index spans every batch it sees plus the stored chunks registered with it,
+ * so a chunk is compared with the rest of the batch and with the store.
+ */
+export class ChunkDeduplicator {
+  private index = new DuplicateIndex();
+  private clusters = new Map<string, DuplicateCluster>();
+  // Sources to record on chunks that duplicates were merged into
+  private merges = new Map<string, Set<string>>();
+  // Chunks each source's dropped or merged duplicates were folded into
+  private folded = new Map<string, Set<string>>();
+  // Forgotten chunks that were not stored again
+  private removed = new Set<string>();
+
+  constructor(
+    readonly policy: DedupPolicy,
+    private threshold = 0.8
+  ) {}
+
+  /** Chunks already in the store, from a manifest. */
+  register(entries: IndexedChunk[]): void {
+    entries.forEach(entry => this.index.add(entry));
+  }
+
+  /** Chunks that are about to be replaced or deleted, so nothing duplicates them anymore. */
+  forget(chunkIds: string[]): void {
+    this.index.remove(chunkIds);
+    chunkIds.forEach(chunkId => this.removed.add(chunkId));
+  }
+
+  /**
+   * Fingerprints every chunk (as `metadata.minhash`) and returns the ones to
+   * store. Chunks need their `chunkId` already. "report" keeps duplicates,
+   * "drop" leaves them out and "merge" leaves them out but lists their
+   * sources in `duplicateSources` of the chunk they repeat.
+   */
+  apply(chunks: Document[]): Document[] {
+    if (this.policy === 'off') return chunks;
+
+    const kept: Document[] = [];
+    const batch = new Map<string, Document>();
+
+    for (const chunk of chunks) {
+      const { signature, shingleCount } = fingerprint(chunk.pageContent);
+      const hash = textHash(chunk.pageContent);
+      const { chunkId, source, chunkIndex } = chunk.metadata;
+      chunk.metadata.minhash = signature;
+
+      const threshold = shingleCount >= MIN_SHINGLES ? this.threshold : 1;
+      const match = this.index.nearest(signature, threshold);
+      if (!match || match.entry.chunkId === chunkId) {
+        this.index.add({ chunkId, source, chunkIndex, signature, textHash: hash });
+        this.removed.delete(chunkId);
+        batch.set(chunkId, chunk);
+        kept.push(chunk);
+        continue;
+      }
+
+      const { entry } = match;
+      const cluster: DuplicateCluster = this.clusters.get(entry.chunkId) ?? {
+        kind: 'exact',
+        kept: { chunkId: entry.chunkId, source: entry.source, chunkIndex: entry.chunkIndex },
+        duplicates: [],
+      };
+      cluster.duplicates.push({ chunkId, source, chunkIndex, similarity: match.similarity });
+      if (entry.textHash !== hash) cluster.kind = 'near';
+      this.clusters.set(entry.chunkId, cluster);
+
+      if (this.policy === 'report') {
+        kept.push(chunk);
+        continue;
+      }
+      if (source !== entry.source) {
+        const folded = this.folded.get(source) ?? new Set<string>();
+        this.folded.set(source, folded.add(entry.chunkId));
+      }
+      if (this.policy === 'merge' && source !== entry.source) {
+        const sources = this.merges.get(entry.chunkId) ?? new Set<string>();
+        sources.add(source);
+        this.merges.set(entry.chunkId, sources);
+
+        const original = batch.get(entry.chunkId);
+        if (original) original.metadata.duplicateSources = Array.from(sources);
+      }
+    }
+
+    return kept;
+  }
+
+  /** Duplicate clusters found since the last call. */
+  takeClusters(): DuplicateCluster[] {
+    const clusters = Array.from(this.clusters.values());
+    this.clusters.clear();
+    return clusters;
+  }
+
+  /** Sources to add to stored chunks under the merge policy, since the last call. */
+  takeMerges(): Map<string, string[]> {
+    const merges = new Map(
+      Array.from(this.merges, ([chunkId, sources]) => [chunkId, Array.from(sources)])
+    );
+    this.merges.clear();
+    return merges;
+  }
+
+  /** Chunks of other sources that duplicates in `source` were folded into, since the last call. */
+  takeFolded(source: string): string[] {
+    const folded = Array.from(this.folded.get(source) ?? []);
+    this.folded.delete(source);
+    return folded;
+  }
+
+  /**
+   * Chunks forgotten and not stored again since the last call. Sources whose
+   * duplicates were folded into one of them have to be ingested again, since
+   * their content is no longer in the index.
+   */
+  takeRemoved(): Set<string> {
+    const removed = new Set(this.removed);
+    this.removed.clear();
+    return removed;
+  }
+}
@@ -1,6 +1,7 @@
 import { OpenAIEmbeddings } from '@langchain/openai';
 import { config } from '../config/index.js';
 import { Document } from 'langchain/document';
+import { DictionaryExpansion, QueryExpansion, expandedQueryText } from './queryExpansion.js';
 
 export class AdvancedEmbeddings {
   private embeddings: OpenAIEmbeddings;
@@ -17,8 +18,8 @@ export class AdvancedEmbeddings {
     const texts = documents.map(doc => {
       // Enhance embedding with metadata
       const metadataString = Object.entries(doc.metadata)
-        .filter(([key]) => ['title', 'category', 'tags'].includes(key))
-        .map(([key, value]) => `${key}: ${value}`)
+        .filter(([key]) => ['title', 'sectionPath', 'symbol', 'category', 'tags'].includes(key))
+        .map(([key, value]) => `${key === 'sectionPath' ? 'section' : key}: ${value}`)
         .join(' ');
       
       return metadataString ? `${metadataString}\n\n${doc.pageContent}` : doc.pageContent;
@@ -31,43 +32,31 @@ export class AdvancedEmbeddings {
     return this.embeddings.embedQuery(query);
   }
 
-  async embedQueryWithExpansion(query: string): Promise<{
+  async embedQueryWithExpansion(
+    query: string,
+    expansion?: QueryExpansion
+  ): Promise<{
     original: number[];
     expanded: number[] | null;
     expansionTerms: string[];
+    hypotheticalDocument?: string;
   }> {
     const original = await this.embedQuery(query);
-    
-    // Query expansion using hypothetical answer generation
-    const expansionTerms = await this.generateQueryExpansion(query);
-    
-    if (expansionTerms.length > 0) {
-      const expandedQuery = `${query} ${expansionTerms.join(' ')}`;
-      const expanded = await this.embedQuery(expandedQuery);
-      return { original, expanded, expansionTerms };
-    }
-
-    return { original, expanded: null, expansionTerms: [] };
-  }
-
-  private async generateQueryExpansion(query: string): Promise<string[]> {
-    // Simplified query expansion - in production, use LLM for this
-    const expansions: Record<string, string[]> = {
-      'performance': ['speed', 'optimization', 'efficiency', 'latency'],
-      'security': ['authentication', 'authorization', 'encryption', 'vulnerability'],
-      'api': ['endpoint', 'rest', 'graphql', 'interface'],
-      'database': ['sql', 'nosql', 'query', 'index', 'schema'],
-    };
 
-    const terms: string[] = [];
-    const lowerQuery = query.toLowerCase();
-    
-    for (const [key, values] of Object.entries(expansions)) {
-      if (lowerQuery.includes(key)) {
-        terms.push(...values.filter(v => !lowerQuery.includes(v)).slice(0, 2));
-      }
+    // Without an explicit strategy, fall back to the cheap dictionary expansion
+    const resolved = expansion ?? (await new DictionaryExpansion().expand(query));
+    const expandedText = expandedQueryText(query, resolved);
+
+    if (expandedText) {
+      const expanded = await this.embedQuery(expandedText);
+      return {
+        original,
+        expanded,
+        expansionTerms: resolved.expansionTerms,
+        hypotheticalDocument: resolved.hypotheticalDocument,
+      };
     }
 
-    return terms;
+    return { original, expanded: null, expansionTerms: [] };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { matchesFilter, parseMetadataFilter, toQdrantFilter } from './filters.js';
+
+describe('filters', () => {
+  describe('parseMetadataFilter', () => {
+    it('should accept equality, list and range conditions', () => {
+      const filter = parseMetadataFilter({
+        category: 'security',
+        fileType: { in: ['md', 'pdf'] },
+        lastModified: { gte: '2026-07-01' },
+      });
+
+      expect(filter).toEqual({
+        category: 'security',
+        fileType: { in: ['md', 'pdf'] },
+        lastModified: { gte: '2026-07-01' },
+      });
+    });
+
+    it('should treat missing or empty filters as no filter', () => {
+      expect(parseMetadataFilter(undefined)).toBeUndefined();
+      expect(parseMetadataFilter({})).toBeUndefined();
+    });
+
+    it('should reject unknown operators and invalid dates', () => {
+      expect(() => parseMetadataFilter({ category: { like: 'sec' } })).toThrow(/Invalid filter/);
+      expect(() => parseMetadataFilter({ lastModified: { gte: 'last quarter' } })).toThrow(
+        /Invalid filter/
+      );
+    });
+  });
+
+  describe('toQdrantFilter', () => {
+    it('should map conditions onto metadata payload keys', () => {
+      expect(
+        toQdrantFilter({
+          category: 'security',
+          source: { ne: 'old.md' },
+          pageCount: { gt: 2, lte: 10 },
+        })
+      ).toEqual({
+        must: [
+          { key: 'metadata.category', match: { value: 'security' } },
+          { key: 'metadata.pageCount', range: { gt: 2, lte: 10 } },
+        ],
+        must_not: [{ key: 'metadata.source', match: { value: 'old.md' } }],
+      });
+    });
+  });
+
+  describe('matchesFilter', () => {
+    const metadata = {
+      category: 'security',
+      tags: ['auth', 'tls'],
+      pageCount: 4,
+      lastModified: '2026-08-15T10:00:00.000Z',
+    };
+
+    it('should match equality, lists and negation', () => {
+      expect(matchesFilter(metadata, { category: 'security' })).toBe(true);
+      expect(matchesFilter(metadata, { tags: 'tls' })).toBe(true);
+      expect(matchesFilter(metadata, { category: { in: ['ops', 'security'] } })).toBe(true);
+      expect(matchesFilter(metadata, { category: { ne: 'security' } })).toBe(false);
+      expect(matchesFilter(metadata, { tags: { nin: ['auth'] } })).toBe(false);
+    });
+
+    it('should compare numeric and date ranges', () => {
+      expect(matchesFilter(metadata, { pageCount: { gte: 4, lt: 5 } })).toBe(true);
+      expect(matchesFilter(metadata, { lastModified: { gte: '2026-07-01' } })).toBe(true);
+      expect(matchesFilter(metadata, { lastModified: { lt: '2026-07-01' } })).toBe(false);
+      expect(matchesFilter(metadata, { missing: { gt: 1 } })).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+import type { Schemas } from '@qdrant/js-client-rest';
+
+const scalarSchema = z.union([z.string(), z.number(), z.boolean()]);
+const listSchema = z.union([z.array(z.string()), z.array(z.number())]);
+// Numbers for numeric fields, ISO date strings for dates such as lastModified
+const boundSchema = z.union([
+  z.number(),
+  z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Expected an ISO date'),
+]);
+
+const conditionSchema = z
+  .object({
+    eq: scalarSchema.optional(),
+    ne: scalarSchema.optional(),
+    in: listSchema.optional(),
+    nin: listSchema.optional(),
+    gt: boundSchema.optional(),
+    gte: boundSchema.optional(),
+    lt: boundSchema.optional(),
+    lte: boundSchema.optional(),
+  })
+  .strict()
+  .refine(condition => Object.keys(condition).length > 0, 'Condition must not be empty');
+
+/**
+ * Filter on chunk metadata. Each key is a metadata field; a bare value means
+ * equality, an object combines operators. All fields must match.
+ *
+ * { "category": "security", "lastModified": { "gte": "2026-07-01" }, "source": { "ne": "old.md" } }
+ */
+export const metadataFilterSchema = z.record(
+  z.string().regex(/^[\w.-]+$/, 'Invalid metadata field name'),
+  z.union([scalarSchema, conditionSchema])
+);
+
+export type MetadataFilter = z.infer<typeof metadataFilterSchema>;
+export type FilterCondition = z.infer<typeof conditionSchema>;
+
+type Scalar = z.infer<typeof scalarSchema>;
+type Bound = z.infer<typeof boundSchema>;
+
+export function parseMetadataFilter(input: unknown): MetadataFilter | undefined {
+  if (input === undefined || input === null) return undefined;
+
+  const result = metadataFilterSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const field = issue.path.length > 0 ? `${issue.path.join('.')}: ` : '';
+    throw new Error(`Invalid filter - ${field}${issue.message}`);
+  }
+
+  return Object.keys(result.data).length > 0 ? result.data : undefined;
+}
+
+function toCondition(value: Scalar | FilterCondition): FilterCondition {
+  return typeof value === 'object' ? value : { eq: value };
+}
+
+export function toQdrantFilter(filter?: MetadataFilter): Schemas['Filter'] | undefined {
+  if (!filter) return undefined;
+
+  const must: Schemas['Condition'][] = [];
+  const mustNot: Schemas['Condition'][] = [];
+
+  for (const [field, value] of Object.entries(filter)) {
+    const key = `metadata.${field}`;
+    const condition = toCondition(value);
+
+    if (condition.eq !== undefined) must.push({ key, match: { value: condition.eq } });
+    if (condition.ne !== undefined) mustNot.push({ key, match: { value: condition.ne } });
+    if (condition.in) must.push({ key, match: { any: condition.in } });
+    if (condition.nin) mustNot.push({ key, match: { any: condition.nin } });
+
+    const range = Object.fromEntries(
+      (['gt', 'gte', 'lt', 'lte'] as const)
+        .filter(op => condition[op] !== undefined)
+        .map(op => [op, condition[op]])
+    );
+    if (Object.keys(range).length > 0) {
+      must.push({ key, range: range as Schemas['RangeInterface'] });
+    }
+  }
+
+  return {
+    ...(must.length > 0 && { must }),
+    ...(mustNot.length > 0 && { must_not: mustNot }),
+  };
+}
+
+function compareBound(value: unknown, bound: Bound): number | null {
+  if (typeof bound === 'number') {
+    return typeof value === 'number' ? value - bound : null;
+  }
+
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isNaN(time) ? null : time - Date.parse(bound);
+}
+
+export function matchesFilter(metadata: Record<string, any>, filter?: MetadataFilter): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([field, value]) => {
+    const condition = toCondition(value);
+    // Mirror Qdrant's nested key lookup, e.g. "loc.city"
+    const actual = field.split('.').reduce<any>((obj, part) => obj?.[part], metadata);
+    const values: unknown[] = Array.isArray(actual) ? actual : [actual];
+
+    if (condition.eq !== undefined && !values.includes(condition.eq)) return false;
+    if (condition.ne !== undefined && values.includes(condition.ne)) return false;
+    if (condition.in && !values.some(v => (condition.in as unknown[]).includes(v))) return false;
+    if (condition.nin && values.some(v => (condition.nin as unknown[]).includes(v))) return false;
+
+    const checks: Array<[Bound | undefined, (diff: number) => boolean]> = [
+      [condition.gt, diff => diff > 0],
+      [condition.gte, diff => diff >= 0],
+      [condition.lt, diff => diff < 0],
+      [condition.lte, diff => diff <= 0],
+    ];
+
+    return checks.every(([bound, check]) => {
+      if (bound === undefined) return true;
+      return values.some(v => {
+        const diff = compareBound(v, bound);
+        return diff !== null && check(diff);
+      });
+    });
+  });
+}
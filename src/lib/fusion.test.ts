@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { Document } from 'langchain/document';
+import { reciprocalRankFusion } from './fusion.js';
+import { SearchResult } from './vectorStore.js';
+
+const result = (content: string, scores: Partial<SearchResult> = {}): SearchResult => ({
+  document: new Document({ pageContent: content, metadata: {} }),
+  score: 0,
+  ...scores,
+});
+
+describe('reciprocalRankFusion', () => {
+  it('should merge duplicates and rank shared results first', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { results: [result('caching', { vectorScore: 0.9 }), result('pooling')], weight: 1 },
+        { results: [result('indexes'), result('caching', { keywordScore: 4 })], weight: 1 },
+      ],
+      10
+    );
+
+    expect(fused.map(r => r.document.pageContent)).toEqual(['caching', 'indexes', 'pooling']);
+    expect(fused[0].vectorScore).toBe(0.9);
+    expect(fused[0].keywordScore).toBe(4);
+  });
+
+  it('should keep chunks with the same opening apart when their ids differ', () => {
+    const withId = (chunkId: string) => ({
+      document: new Document({ pageContent: 'Shared heading\n\nbody', metadata: { chunkId } }),
+      score: 0,
+    });
+
+    const fused = reciprocalRankFusion([{ results: [withId('a'), withId('b')], weight: 1 }], 10);
+    expect(fused).toHaveLength(2);
+  });
+
+  it('should apply list weights and the limit', () => {
+    const fused = reciprocalRankFusion(
+      [
+        { results: [result('vector hit')], weight: 0.2 },
+        { results: [result('keyword hit')], weight: 0.8 },
+      ],
+      1
+    );
+
+    expect(fused.map(r => r.document.pageContent)).toEqual(['keyword hit']);
+  });
+});
@@ -0,0 +1,61 @@
+import { SearchResult } from './vectorStore.js';
+
+export interface RankedList {
+  results: SearchResult[];
+  weight: number;
+}
+
+/**
+ * Identity used to merge the same chunk across result lists. Points ingested
+ * before chunk ids existed fall back to their opening text.
+ */
+export function fusionKey(result: SearchResult): string {
+  return result.document.metadata?.chunkId ?? result.document.pageContent.substring(0, 100);
+}
+
+function maxScore(a?: number, b?: number): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.max(a, b);
+}
+
+/**
+ * Weighted Reciprocal Rank Fusion: each list contributes weight / (k + rank)
+ * for every result it contains. Results seen in several lists are merged,
+ * keeping the best vector and keyword scores.
+ */
+export function reciprocalRankFusion(
+  lists: RankedList[],
+  limit: number,
+  k: number = 60
+): SearchResult[] {
+  const fusedScores = new Map<string, { result: SearchResult; score: number }>();
+
+  for (const { results, weight } of lists) {
+    results.forEach((result, rank) => {
+      const key = fusionKey(result);
+      const rrfScore = weight * (1 / (k + rank + 1));
+      const fused = fusedScores.get(key);
+
+      if (fused) {
+        fused.score += rrfScore;
+        fused.result = {
+          ...fused.result,
+          vectorScore: maxScore(fused.result.vectorScore, result.vectorScore),
+          keywordScore: maxScore(fused.result.keywordScore, result.keywordScore),
+        };
+      } else {
+        fusedScores.set(key, { result, score: rrfScore });
+      }
+    });
+  }
+
+  // Sort by fused score and return top results
+  return Array.from(fusedScores.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(item => ({
+      ...item.result,
+      score: item.score,
+    }));
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { Document } from 'langchain/document';
+import { maximalMarginalRelevance } from './mmr.js';
+import { SearchResult } from './vectorStore.js';
+
+const result = (content: string, score: number, embedding?: number[]): SearchResult => ({
+  document: new Document({ pageContent: content, metadata: {} }),
+  score,
+  embedding,
+});
+
+describe('maximalMarginalRelevance', () => {
+  const results = [
+    result('pooling', 0.9, [1, 0, 0]),
+    result('pooling (overlap)', 0.85, [0.99, 0.1, 0]),
+    result('caching', 0.7, [0, 1, 0]),
+    result('indexes', 0.1, [0, 0, 1]),
+  ];
+  const contents = (selected: SearchResult[]) => selected.map(r => r.document.pageContent);
+
+  it('should skip near-duplicates in favour of diverse results', () => {
+    expect(contents(maximalMarginalRelevance(results, 2, 0.5))).toEqual(['pooling', 'caching']);
+  });
+
+  it('should keep relevance order when lambda is 1', () => {
+    expect(contents(maximalMarginalRelevance(results, 3, 1))).toEqual([
+      'pooling',
+      'pooling (overlap)',
+      'caching',
+    ]);
+  });
+
+  it('should keep original scores and treat missing embeddings as dissimilar', () => {
+    const selected = maximalMarginalRelevance(
+      [result('a', 3), result('b', 2), result('c', 1)],
+      3,
+      0.5
+    );
+
+    expect(contents(selected)).toEqual(['a', 'b', 'c']);
+    expect(selected.map(r => r.score)).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,70 @@
+import { SearchResult } from './vectorStore.js';
+
+export type MMRStage = 'off' | 'before-rerank' | 'after-rerank';
+
+export const mmrStages: MMRStage[] = ['off', 'before-rerank', 'after-rerank'];
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/** Min-max scales scores to [0, 1] so RRF, BM25 and rerank scores are comparable. */
+function normalizeScores(scores: number[]): number[] {
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min;
+  return scores.map(score => (range > 0 ? (score - min) / range : 1));
+}
+
+function similarity(a: SearchResult, b: SearchResult): number {
+  return a.embedding && b.embedding ? cosineSimilarity(a.embedding, b.embedding) : 0;
+}
+
+/**
+ * Maximal Marginal Relevance: greedily picks the result with the best
+ * `lambda * relevance - (1 - lambda) * similarity to already picked results`.
+ * Relevance is the result's current score, so the same selection works on
+ * retrieval scores and on reranker scores. Results without an embedding are
+ * treated as dissimilar to everything.
+ */
+export function maximalMarginalRelevance(
+  results: SearchResult[],
+  limit: number,
+  lambda: number
+): SearchResult[] {
+  if (results.length === 0) return [];
+
+  const relevance = normalizeScores(results.map(r => r.score));
+  const maxSimilarity = new Array<number>(results.length).fill(0);
+  const remaining = new Set(results.keys());
+  const selected: SearchResult[] = [];
+
+  while (selected.length < limit && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+
+    for (const i of remaining) {
+      const score = lambda * relevance[i] - (1 - lambda) * maxSimilarity[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+
+    remaining.delete(best);
+    selected.push(results[best]);
+
+    for (const i of remaining) {
+      maxSimilarity[i] = Math.max(maxSimilarity[i], similarity(results[i], results[best]));
+    }
+  }
+
+  return selected;
+}
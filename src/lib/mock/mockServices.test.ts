@@ -37,6 +37,69 @@ describe('MockServices', () => {
       const results = await store.hybridSearch('test query');
       expect(results).toHaveLength(0);
     });
+
+    it('should support vector-only and keyword-only search', async () => {
+      const store = new MockVectorStore();
+      await store.addDocuments([
+        { pageContent: 'connection pooling for databases', metadata: { source: 'db.md' } },
+        { pageContent: 'caching with redis', metadata: { source: 'cache.md' } },
+      ] as any);
+
+      const keywordResults = await store.keywordSearch('redis');
+      expect(keywordResults.map(r => r.document.metadata.source)).toEqual(['cache.md']);
+      expect(keywordResults[0].keywordScore).toBeGreaterThan(0);
+
+      const vectorResults = await store.vectorSearch('redis', 1);
+      expect(vectorResults).toHaveLength(1);
+      expect(vectorResults[0].vectorScore).toBeDefined();
+      expect(vectorResults[0].keywordScore).toBeUndefined();
+    });
+
+    it('should list sources with chunk counts', async () => {
+      const store = new MockVectorStore();
+      await store.addDocuments([
+        { pageContent: 'first chunk', metadata: { source: 'b.md' } },
+        { pageContent: 'second chunk', metadata: { source: 'b.md' } },
+        { pageContent: 'other chunk', metadata: { source: 'a.md' } },
+      ] as any);
+
+      const sources = await store.listSources();
+      expect(sources.map(s => [s.source, s.chunkCount])).toEqual([
+        ['a.md', 1],
+        ['b.md', 2],
+      ]);
+    });
+
+    it('should delete all chunks for a source', async () => {
+      const store = new MockVectorStore();
+      await store.addDocuments([
+        { pageContent: 'first chunk', metadata: { source: 'a.md' } },
+        { pageContent: 'second chunk', metadata: { source: 'a.md' } },
+        { pageContent: 'other chunk', metadata: { source: 'b.md' } },
+      ] as any);
+
+      expect(await store.deleteBySource('a.md')).toBe(2);
+      expect(await store.deleteBySource('missing.md')).toBe(0);
+
+      const sources = await store.listSources();
+      expect(sources.map(s => s.source)).toEqual(['b.md']);
+    });
+
+    it('should overwrite chunks with the same id when re-ingesting', async () => {
+      const store = new MockVectorStore();
+      const chunks = () =>
+        [
+          { pageContent: 'first chunk', metadata: { source: 'a.md', chunkIndex: 0 } },
+          { pageContent: 'second chunk', metadata: { source: 'a.md', chunkIndex: 1 } },
+        ] as any;
+
+      await store.addDocuments(chunks());
+      await store.addDocuments(chunks());
+
+      const results = await store.keywordSearch('chunk', 10);
+      expect(results).toHaveLength(2);
+      expect(results[0].document.metadata.chunkId).toMatch(/^[0-9a-f-]{36}$/);
+    });
   });
 
   describe('MockReranker', () => {
@@ -66,5 +129,20 @@ describe('MockServices', () => {
       expect(answer1).toEqual(answer2);
       expect(answer1.length).toBeGreaterThan(0);
     });
+
+    it('should rewrite follow-up questions using the previous turn', async () => {
+      const llm = new MockLLM();
+      const history = [
+        { question: 'How does Node.js cache modules?', answer: '...', timestamp: '' },
+      ];
+
+      expect(await llm.rewriteQuestion('What about its caching?', history)).toBe(
+        'What about its caching? (regarding: How does Node.js cache modules?)'
+      );
+      expect(await llm.rewriteQuestion('Explain streams', history)).toBe('Explain streams');
+      expect(await llm.rewriteQuestion('What about its caching?', [])).toBe(
+        'What about its caching?'
+      );
+    });
   });
 });
\ No newline at end of file
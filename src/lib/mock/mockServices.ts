@@ -1,5 +1,10 @@
 import { Document } from 'langchain/document';
-import { SearchResult } from '../vectorStore.js';
+import { NativeFusion, SearchOptions, SearchResult, SourceSummary } from '../vectorStore.js';
+import { ConversationTurn } from '../conversation.js';
+import { matchesFilter } from '../filters.js';
+import { BM25Index } from '../bm25.js';
+import { cosineSimilarity } from '../mmr.js';
+import { ensureChunkId } from '../chunkIds.js';
 
 export class MockEmbeddings {
   async embedDocuments(texts: string[]): Promise<number[][]> {
@@ -37,67 +42,208 @@ export class MockEmbeddings {
 export class MockVectorStore {
   private documents: Document[] = [];
   private embeddings: number[][] = [];
+  private ids: string[] = [];
+  private keywordIndex = new BM25Index();
 
   async initialize(): Promise<void> {
     console.log('🔧 Mock Vector Store initialized');
   }
 
+  nativeFusion(): NativeFusion | null {
+    return null;
+  }
+
   async addDocuments(documents: Document[]): Promise<void> {
-    this.documents.push(...documents);
     const mockEmbeddings = new MockEmbeddings();
     const newEmbeddings = await mockEmbeddings.embedDocuments(
       documents.map(d => d.pageContent)
     );
-    this.embeddings.push(...newEmbeddings);
+
+    documents.forEach((doc, i) => {
+      const id = ensureChunkId(doc, i);
+      this.keywordIndex.add(id, doc.pageContent);
+
+      // Same upsert semantics as Qdrant: an existing chunk id is overwritten
+      const position = this.ids.indexOf(id);
+      if (position >= 0) {
+        this.documents[position] = doc;
+        this.embeddings[position] = newEmbeddings[i];
+      } else {
+        this.ids.push(id);
+        this.documents.push(doc);
+        this.embeddings.push(newEmbeddings[i]);
+      }
+    });
     console.log(`📝 Added ${documents.length} documents to mock store`);
   }
 
-  async hybridSearch(query: string, limit: number = 10): Promise<SearchResult[]> {
-    if (this.documents.length === 0) {
-      return [];
-    }
+  async vectorSearch(
+    query: string,
+    limit: number = 10,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const { expansion } = options;
+    const expandedText =
+      expansion?.hypotheticalDocument ||
+      (expansion?.expansionTerms.length ? `${query} ${expansion.expansionTerms.join(' ')}` : null);
 
-    // Simple keyword matching for mock
-    const queryWords = query.toLowerCase().split(' ');
-    
-    const results = this.documents
-      .map((doc, index) => {
-        const content = doc.pageContent.toLowerCase();
-        const score = queryWords.reduce((acc, word) => {
-          return acc + (content.includes(word) ? 1 : 0);
-        }, 0) / queryWords.length;
-        
-        return {
-          document: doc,
-          score,
-          index
-        };
-      })
-      .filter(r => r.score > 0)
+    // Score against both the original and expanded query, keeping the closer match
+    const mockEmbeddings = new MockEmbeddings();
+    const queryEmbeddings = await mockEmbeddings.embedDocuments(
+      expandedText ? [query, expandedText] : [query]
+    );
+
+    return this.documents
+      .map((document, i) => ({
+        document,
+        embedding: this.embeddings[i],
+        score: Math.max(
+          ...queryEmbeddings.map(embedding => cosineSimilarity(embedding, this.embeddings[i]))
+        ),
+      }))
+      .filter(r => matchesFilter(r.document.metadata, options.filter))
       .sort((a, b) => b.score - a.score)
       .slice(0, limit)
       .map(r => ({
         document: r.document,
         score: r.score,
         vectorScore: r.score,
-        keywordScore: r.score,
+        ...(options.withVectors && { embedding: r.embedding }),
       }));
+  }
 
-    // If no keyword matches, return random documents
-    if (results.length === 0) {
-      return this.documents.slice(0, Math.min(3, this.documents.length)).map((doc, i) => ({
-        document: doc,
-        score: 0.5 - (i * 0.1),
-        vectorScore: 0.5 - (i * 0.1),
-      }));
+  async keywordSearch(
+    query: string,
+    limit: number = 10,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const terms = options.expansion?.expansionTerms || [];
+    const keywordQuery = terms.length > 0 ? `${query} ${terms.join(' ')}` : query;
+
+    const positions = new Map(this.ids.map((id, i) => [id, i]));
+    const hits = this.keywordIndex.search(keywordQuery, limit, id =>
+      matchesFilter(this.documents[positions.get(id)!].metadata, options.filter)
+    );
+
+    return hits.map(hit => ({
+      document: this.documents[positions.get(hit.id)!],
+      score: hit.score,
+      keywordScore: hit.score,
+      ...(options.withVectors && { embedding: this.embeddings[positions.get(hit.id)!] }),
+    }));
+  }
+
+  async hybridSearch(
+    query: string,
+    limit: number = 10,
+    alpha: number = 0.5,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const keywordResults = await this.keywordSearch(query, limit, options);
+
+    // If no keyword matches, fall back to the closest mock embeddings
+    if (keywordResults.length === 0) {
+      return this.vectorSearch(query, Math.min(3, limit), options);
     }
 
-    return results;
+    const vectorResults = await this.vectorSearch(query, this.documents.length, options);
+    const vectorScores = new Map(vectorResults.map(r => [r.document, r.score]));
+    // BM25 scores are unbounded, so scale them to [0, 1] before mixing with cosine scores
+    const maxKeywordScore = keywordResults[0].score || 1;
+
+    return keywordResults
+      .map(r => {
+        const vectorScore = vectorScores.get(r.document) ?? 0;
+        return {
+          ...r,
+          vectorScore,
+          score: alpha * vectorScore + (1 - alpha) * (r.score / maxKeywordScore),
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  async listSources(): Promise<SourceSummary[]> {
+    const sources = new Map<string, SourceSummary>();
+
+    for (const doc of this.documents) {
+      const source = doc.metadata.source || 'unknown';
+      const summary = sources.get(source);
+
+      if (summary) {
+        summary.chunkCount++;
+      } else {
+        sources.set(source, {
+          source,
+          chunkCount: 1,
+          title: doc.metadata.title,
+          fileType: doc.metadata.fileType,
+          lastModified: doc.metadata.lastModified,
+        });
+      }
+    }
+
+    return Array.from(sources.values()).sort((a, b) => a.source.localeCompare(b.source));
+  }
+
+  async getChunks(source: string, chunkIndexes?: number[]): Promise<Document[]> {
+    return this.documents
+      .filter(
+        doc =>
+          doc.metadata.source === source &&
+          (!chunkIndexes || chunkIndexes.includes(doc.metadata.chunkIndex))
+      )
+      .sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+  }
+
+  async deleteChunks(chunkIds: string[]): Promise<void> {
+    const remove = new Set(chunkIds);
+    const keep = this.ids.map(id => !remove.has(id));
+
+    chunkIds.forEach(id => this.keywordIndex.remove(id));
+    this.documents = this.documents.filter((_, i) => keep[i]);
+    this.embeddings = this.embeddings.filter((_, i) => keep[i]);
+    this.ids = this.ids.filter((_, i) => keep[i]);
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    const keep = this.documents.map(doc => (doc.metadata.source || 'unknown') !== source);
+    const removed = keep.filter(k => !k).length;
+
+    this.ids.filter((_, i) => !keep[i]).forEach(id => this.keywordIndex.remove(id));
+    this.documents = this.documents.filter((_, i) => keep[i]);
+    this.embeddings = this.embeddings.filter((_, i) => keep[i]);
+    this.ids = this.ids.filter((_, i) => keep[i]);
+
+    return removed;
+  }
+
+  async addDuplicateSources(sources: Map<string, string[]>): Promise<void> {
+    this.ids.forEach((id, i) => {
+      const added = sources.get(id);
+      if (!added) return;
+      const metadata = this.documents[i].metadata;
+      metadata.duplicateSources = Array.from(
+        new Set([...(metadata.duplicateSources ?? []), ...added])
+      );
+    });
+  }
+
+  async removeDuplicateSources(chunkIds: string[], source: string): Promise<void> {
+    this.ids.forEach((id, i) => {
+      const metadata = this.documents[i].metadata;
+      if (!chunkIds.includes(id) || !metadata.duplicateSources) return;
+      metadata.duplicateSources = metadata.duplicateSources.filter(
+        (duplicate: string) => duplicate !== source
+      );
+    });
   }
 
   async deleteCollection(): Promise<void> {
     this.documents = [];
     this.embeddings = [];
+    this.ids = [];
+    this.keywordIndex.clear();
   }
 }
 
@@ -186,6 +332,47 @@ The recommended approach balances performance with maintainability.`
     return responses[hash % responses.length];
   }
 
+  async generateExpansionTerms(query: string): Promise<string> {
+    const terms = ['overview', 'best practices', 'examples', 'configuration', 'troubleshooting'];
+    const lowerQuery = query.toLowerCase();
+    return terms.filter(term => !lowerQuery.includes(term)).slice(0, 3).join(', ');
+  }
+
+  async generateHypotheticalDocument(query: string): Promise<string> {
+    const topic = query.replace(/\?$/, '');
+    return (
+      `This section explains ${topic}. It describes the recommended approach, ` +
+      'the configuration options involved and common pitfalls to avoid.'
+    );
+  }
+
+  async decomposeQuestion(question: string): Promise<string> {
+    let remainder = question.trim().replace(/\?$/, '');
+    const comparison = /^(compare|contrast|what(?:'s| is) the difference between)\s+/i;
+    const isComparison = comparison.test(remainder);
+    remainder = remainder.replace(comparison, '');
+
+    let parts = remainder.split(/\s+(?:versus|vs\.?|compared (?:to|with))\s+/i);
+    if (parts.length === 1 && isComparison) {
+      parts = remainder.split(/\s+and\s+/i);
+    }
+
+    return parts.length > 1 ? parts.join('\n') : question;
+  }
+
+  async rewriteQuestion(question: string, history: ConversationTurn[]): Promise<string> {
+    if (history.length === 0) return question;
+
+    // Only follow-ups that lean on earlier turns get the previous topic attached
+    const isFollowUp = /\b(it|its|they|them|their|this|that|these|those|what about|how about)\b/i.test(
+      question
+    );
+    if (!isFollowUp) return question;
+
+    const previous = history[history.length - 1];
+    return `${question} (regarding: ${previous.rewrittenQuestion || previous.question})`;
+  }
+
   private hashCode(str: string): number {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { defaultRagModel, messagesToQuery, resolveModel } from './openaiCompat.js';
+
+describe('openaiCompat', () => {
+  describe('messagesToQuery', () => {
+    it('should use the last user message as the question and pair earlier turns', () => {
+      const { question, history } = messagesToQuery([
+        { role: 'system', content: 'You are helpful.' },
+        { role: 'user', content: 'How does Node.js cache modules?' },
+        { role: 'assistant', content: 'Through require.cache.' },
+        { role: 'user', content: [{ type: 'text', text: 'How do I clear it?' }] },
+      ]);
+
+      expect(question).toBe('How do I clear it?');
+      expect(history).toHaveLength(1);
+      expect(history[0].question).toBe('How does Node.js cache modules?');
+      expect(history[0].answer).toBe('Through require.cache.');
+    });
+
+    it('should reject conversations that do not end with a user message', () => {
+      expect(() =>
+        messagesToQuery([
+          { role: 'user', content: 'Hi' },
+          { role: 'assistant', content: 'Hello' },
+        ])
+      ).toThrow();
+    });
+  });
+
+  describe('resolveModel', () => {
+    it('should fall back to the default model for unknown ids', () => {
+      expect(resolveModel('rag-vector').retrievalMode).toBe('vector');
+      expect(resolveModel('gpt-4o')).toBe(defaultRagModel);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ConversationTurn } from './conversation.js';
+import { RetrievalMode } from './vectorStore.js';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool' | 'developer';
+  content: string | Array<{ type: string; text?: string }> | null;
+}
+
+export interface RAGModel {
+  id: string;
+  description: string;
+  useReranking: boolean;
+  retrievalMode: RetrievalMode;
+}
+
+// Each model id maps to one of the pipeline configurations from /api/compare
+export const ragModels: RAGModel[] = [
+  {
+    id: 'rag-hybrid-rerank',
+    description: 'Hybrid search with cross-encoder reranking',
+    useReranking: true,
+    retrievalMode: 'hybrid',
+  },
+  {
+    id: 'rag-hybrid',
+    description: 'Hybrid search without reranking',
+    useReranking: false,
+    retrievalMode: 'hybrid',
+  },
+  {
+    id: 'rag-vector',
+    description: 'Vector search only',
+    useReranking: false,
+    retrievalMode: 'vector',
+  },
+  {
+    id: 'rag-keyword',
+    description: 'Keyword search only',
+    useReranking: false,
+    retrievalMode: 'keyword',
+  },
+];
+
+export const defaultRagModel = ragModels[0];
+
+export function resolveModel(modelId?: string): RAGModel {
+  // Many clients hardcode a model name, so unknown ids get the default pipeline
+  return ragModels.find(model => model.id === modelId) || defaultRagModel;
+}
+
+export function messageText(message: ChatMessage): string {
+  if (typeof message.content === 'string') return message.content;
+  if (!Array.isArray(message.content)) return '';
+
+  return message.content
+    .filter(part => part.type === 'text' && part.text)
+    .map(part => part.text)
+    .join('\n');
+}
+
+/**
+ * Splits an OpenAI messages array into the question to answer (the last user
+ * message) and the preceding user/assistant exchanges as conversation turns.
+ * System and tool messages are ignored.
+ */
+export function messagesToQuery(messages: ChatMessage[]): {
+  question: string;
+  history: ConversationTurn[];
+} {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== 'user') {
+    throw new Error('The last message must have role "user"');
+  }
+
+  const question = messageText(last).trim();
+  if (!question) {
+    throw new Error('The last user message must not be empty');
+  }
+
+  const history: ConversationTurn[] = [];
+  let pendingQuestion: string | null = null;
+
+  for (const message of messages.slice(0, -1)) {
+    if (message.role === 'user') {
+      pendingQuestion = messageText(message);
+    } else if (message.role === 'assistant' && pendingQuestion !== null) {
+      history.push({
+        question: pendingQuestion,
+        answer: messageText(message),
+        timestamp: new Date().toISOString(),
+      });
+      pendingQuestion = null;
+    }
+  }
+
+  return { question, history };
+}
+
+export function completionId(): string {
+  return `chatcmpl-${uuidv4().replace(/-/g, '')}`;
+}
+
+export function toChatCompletion(
+  id: string,
+  model: string,
+  answer: string,
+  sources: unknown[]
+): Record<string, any> {
+  return {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content: answer },
+        finish_reason: 'stop',
+      },
+    ],
+    sources,
+  };
+}
+
+export function toChatCompletionChunk(
+  id: string,
+  model: string,
+  delta: { role?: 'assistant'; content?: string },
+  finishReason: 'stop' | null = null,
+  sources?: unknown[]
+): Record<string, any> {
+  return {
+    id,
+    object: 'chat.completion.chunk',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+    ...(sources && { sources }),
+  };
+}
+
+export function openAIError(message: string, param: string | null = null): Record<string, any> {
+  return {
+    error: {
+      message,
+      type: 'invalid_request_error',
+      param,
+      code: null,
+    },
+  };
+}
@@ -66,11 +66,19 @@ export class QdrantInitializer {
   }
 
   private async createCollection(): Promise<void> {
+    const dense = {
+      size: 3072, // OpenAI text-embedding-3-large dimension
+      distance: 'Cosine' as const,
+    };
+
     await this.client.createCollection(this.collectionName, {
-      vectors: {
-        size: 3072, // OpenAI text-embedding-3-large dimension
-        distance: 'Cosine',
-      },
+      // Native hybrid mode needs named dense + sparse vectors (see HybridVectorStore)
+      ...(config.qdrant.hybridMode === 'native'
+        ? {
+            vectors: { dense },
+            sparse_vectors: { bm25: { modifier: 'idf' as const } },
+          }
+        : { vectors: dense }),
       optimizers_config: {
         default_segment_number: 2,
       },
@@ -92,6 +100,21 @@ export class QdrantInitializer {
       field_name: 'metadata.category',
       field_schema: 'keyword',
     });
+
+    await this.client.createPayloadIndex(this.collectionName, {
+      field_name: 'metadata.fileType',
+      field_schema: 'keyword',
+    });
+
+    await this.client.createPayloadIndex(this.collectionName, {
+      field_name: 'metadata.lastModified',
+      field_schema: 'datetime',
+    });
+
+    await this.client.createPayloadIndex(this.collectionName, {
+      field_name: 'metadata.chunkIndex',
+      field_schema: 'integer',
+    });
   }
 
   async resetCollection(): Promise<void> {
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockLLM } from './mock/mockServices.js';
+import { QueryDecomposer } from './queryDecomposition.js';
+
+describe('QueryDecomposer', () => {
+  const decomposer = new QueryDecomposer(new MockLLM());
+
+  it('should split comparison questions into sub-queries', async () => {
+    const subQueries = await decomposer.decompose(
+      'Compare how the Node guide handles caching versus database pooling'
+    );
+    expect(subQueries).toEqual(['how the Node guide handles caching', 'database pooling']);
+  });
+
+  it('should split "difference between" questions on and', async () => {
+    const subQueries = await decomposer.decompose(
+      'What is the difference between REST and GraphQL?'
+    );
+    expect(subQueries).toEqual(['REST', 'GraphQL']);
+  });
+
+  it('should keep single-part questions unchanged', async () => {
+    const question = 'What are the pros and cons of Redis?';
+    expect(await decomposer.decompose(question)).toEqual([question]);
+  });
+
+  it('should strip list markers but keep leading numbers', async () => {
+    const llm = new MockLLM();
+    vi.spyOn(llm, 'decomposeQuestion').mockResolvedValueOnce(
+      '1. 2FA setup steps?\n2) 429 rate limits\n- SSO login'
+    );
+    const subQueries = await new QueryDecomposer(llm).decompose('How do I secure logins?');
+
+    expect(subQueries).toEqual(['2FA setup steps?', '429 rate limits', 'SSO login']);
+  });
+
+  it('should cap the number of sub-queries', async () => {
+    const limited = new QueryDecomposer(new MockLLM(), 2);
+    const subQueries = await limited.decompose('Compare React vs Vue vs Svelte');
+    expect(subQueries).toEqual(['React', 'Vue']);
+  });
+});
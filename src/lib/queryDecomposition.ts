@@ -0,0 +1,49 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { MockLLM } from './mock/mockServices.js';
+
+/**
+ * Splits multi-part questions ("compare X versus Y") into standalone
+ * sub-queries so each part gets its own retrieval.
+ */
+export class QueryDecomposer {
+  constructor(
+    private llm: ChatOpenAI | MockLLM,
+    private maxSubQueries: number = 4
+  ) {}
+
+  /** Returns the sub-queries, or the question itself when it has a single part. */
+  async decompose(question: string): Promise<string[]> {
+    let response: string;
+
+    if (this.llm instanceof MockLLM) {
+      response = await this.llm.decomposeQuestion(question);
+    } else {
+      const prompt = PromptTemplate.fromTemplate(`
+Break the question below into the separate search queries needed to answer it.
+
+Instructions:
+1. Each query must be standalone and cover one part of the question
+2. Use at most {maxSubQueries} queries
+3. If the question only asks about one thing, return it unchanged
+4. Return one query per line, without numbering
+
+Question: {question}
+
+Queries:`);
+
+      const chain = prompt.pipe(this.llm).pipe(new StringOutputParser());
+      response = await chain.invoke({ question, maxSubQueries: String(this.maxSubQueries) });
+    }
+
+    const subQueries = response
+      .split('\n')
+      // Strip list markers only; "2FA setup steps?" starts with a digit
+      .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+      .filter(line => line.length > 0);
+
+    const unique = Array.from(new Set(subQueries)).slice(0, this.maxSubQueries);
+    return unique.length > 0 ? unique : [question];
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockLLM } from './mock/mockServices.js';
+import { createQueryExpansionStrategy, expandedQueryText } from './queryExpansion.js';
+
+describe('queryExpansion', () => {
+  const llm = new MockLLM();
+
+  it('should add dictionary terms not already in the query', async () => {
+    const expansion = await createQueryExpansionStrategy('dictionary', llm).expand(
+      'How do I improve API performance?'
+    );
+
+    expect(expansion.expansionTerms).toEqual(['speed', 'optimization', 'endpoint', 'rest']);
+    expect(expandedQueryText('API performance', expansion)).toBe(
+      'API performance speed optimization endpoint rest'
+    );
+  });
+
+  it('should parse LLM keywords into expansion terms', async () => {
+    const expansion = await createQueryExpansionStrategy('llm', llm).expand(
+      'Show examples of caching'
+    );
+
+    expect(expansion.strategy).toBe('llm');
+    expect(expansion.expansionTerms).toEqual(['overview', 'best practices', 'configuration']);
+  });
+
+  it('should strip list markers but keep numeric terms', async () => {
+    vi.spyOn(llm, 'generateExpansionTerms').mockResolvedValueOnce(
+      '1. 404 errors\n2) 2fa\n- 429, * rate limits'
+    );
+    const expansion = await createQueryExpansionStrategy('llm', llm).expand('API failures');
+
+    expect(expansion.expansionTerms).toEqual(['404 errors', '2fa', '429', 'rate limits']);
+  });
+
+  it('should embed a hypothetical document for HyDE', async () => {
+    const expansion = await createQueryExpansionStrategy('hyde', llm).expand('What is RRF?');
+
+    expect(expansion.expansionTerms).toHaveLength(0);
+    expect(expansion.hypotheticalDocument).toContain('This section explains What is RRF');
+    expect(expandedQueryText('What is RRF?', expansion)).toBe(expansion.hypotheticalDocument);
+  });
+
+  it('should leave the query untouched with no expansion', async () => {
+    const expansion = await createQueryExpansionStrategy('none', llm).expand('API performance');
+    expect(expandedQueryText('API performance', expansion)).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { ChatOpenAI } from '@langchain/openai';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { PromptTemplate } from '@langchain/core/prompts';
+import { MockLLM } from './mock/mockServices.js';
+
+export type QueryExpansionStrategyName = 'none' | 'dictionary' | 'llm' | 'hyde';
+
+export const queryExpansionStrategies: QueryExpansionStrategyName[] = [
+  'none',
+  'dictionary',
+  'llm',
+  'hyde',
+];
+
+export interface QueryExpansion {
+  strategy: QueryExpansionStrategyName;
+  expansionTerms: string[];
+  hypotheticalDocument?: string;
+}
+
+export interface QueryExpansionStrategy {
+  name: QueryExpansionStrategyName;
+  expand(query: string): Promise<QueryExpansion>;
+}
+
+/**
+ * Text to embed alongside the original query: the hypothetical answer for
+ * HyDE, otherwise the query with its expansion terms appended.
+ */
+export function expandedQueryText(query: string, expansion: QueryExpansion): string | null {
+  if (expansion.hypotheticalDocument) return expansion.hypotheticalDocument;
+  if (expansion.expansionTerms.length > 0) return `${query} ${expansion.expansionTerms.join(' ')}`;
+  return null;
+}
+
+export class NoExpansion implements QueryExpansionStrategy {
+  name = 'none' as const;
+
+  async expand(): Promise<QueryExpansion> {
+    return { strategy: this.name, expansionTerms: [] };
+  }
+}
+
+export class DictionaryExpansion implements QueryExpansionStrategy {
+  name = 'dictionary' as const;
+
+  private expansions: Record<string, string[]> = {
+    'performance': ['speed', 'optimization', 'efficiency', 'latency'],
+    'security': ['authentication', 'authorization', 'encryption', 'vulnerability'],
+    'api': ['endpoint', 'rest', 'graphql', 'interface'],
+    'database': ['sql', 'nosql', 'query', 'index', 'schema'],
+  };
+
+  async expand(query: string): Promise<QueryExpansion> {
+    const terms: string[] = [];
+    const lowerQuery = query.toLowerCase();
+
+    for (const [key, values] of Object.entries(this.expansions)) {
+      if (lowerQuery.includes(key)) {
+        terms.push(...values.filter(v => !lowerQuery.includes(v)).slice(0, 2));
+      }
+    }
+
+    return { strategy: this.name, expansionTerms: terms };
+  }
+}
+
+export class LLMExpansion implements QueryExpansionStrategy {
+  name = 'llm' as const;
+
+  constructor(private llm: ChatOpenAI | MockLLM) {}
+
+  async expand(query: string): Promise<QueryExpansion> {
+    let response: string;
+
+    if (this.llm instanceof MockLLM) {
+      response = await this.llm.generateExpansionTerms(query);
+    } else {
+      const prompt = PromptTemplate.fromTemplate(`
+Generate search keywords for retrieving documents that answer the question below.
+
+Instructions:
+1. List up to 5 synonyms, related technical terms, or likely identifiers
+2. Do not repeat words that are already in the question
+3. Return only a comma-separated list
+
+Question: {query}
+
+Keywords:`);
+
+      const chain = prompt.pipe(this.llm).pipe(new StringOutputParser());
+      response = await chain.invoke({ query });
+    }
+
+    const lowerQuery = query.toLowerCase();
+    const terms = response
+      .split(/[,\n]/)
+      // Strip list markers only; terms like "2fa" or "404 errors" start with digits
+      .map(term => term.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim().toLowerCase())
+      .filter(term => term && !lowerQuery.includes(term));
+
+    return { strategy: this.name, expansionTerms: Array.from(new Set(terms)).slice(0, 5) };
+  }
+}
+
+/**
+ * Hypothetical Document Embeddings: embed a generated answer instead of the
+ * question, since answers sit closer to relevant passages in embedding space.
+ */
+export class HyDEExpansion implements QueryExpansionStrategy {
+  name = 'hyde' as const;
+
+  constructor(private llm: ChatOpenAI | MockLLM) {}
+
+  async expand(query: string): Promise<QueryExpansion> {
+    let hypotheticalDocument: string;
+
+    if (this.llm instanceof MockLLM) {
+      hypotheticalDocument = await this.llm.generateHypotheticalDocument(query);
+    } else {
+      const prompt = PromptTemplate.fromTemplate(`
+Write a short passage (3-5 sentences) from technical documentation that answers the question below. It does not need to be correct; it is only used to find similar documents.
+
+Question: {query}
+
+Passage:`);
+
+      const chain = prompt.pipe(this.llm).pipe(new StringOutputParser());
+      hypotheticalDocument = (await chain.invoke({ query })).trim();
+    }
+
+    return {
+      strategy: this.name,
+      expansionTerms: [],
+      ...(hypotheticalDocument && { hypotheticalDocument }),
+    };
+  }
+}
+
+export function createQueryExpansionStrategy(
+  name: QueryExpansionStrategyName,
+  llm: ChatOpenAI | MockLLM
+): QueryExpansionStrategy {
+  switch (name) {
+    case 'none':
+      return new NoExpansion();
+    case 'dictionary':
+      return new DictionaryExpansion();
+    case 'llm':
+      return new LLMExpansion(llm);
+    case 'hyde':
+      return new HyDEExpansion(llm);
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Document } from 'langchain/document';
+import { RAGPipeline, QueryOptions } from './ragPipeline.js';
+import { MockVectorStore } from './mock/mockServices.js';
+import { QueryDecomposer } from './queryDecomposition.js';
+
+describe('RAGPipeline', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should expand each sub-query on its own', async () => {
+    const pipeline = new RAGPipeline();
+    await pipeline.addDocuments([
+      new Document({ pageContent: 'API performance tips', metadata: { source: 'api.md' } }),
+      new Document({ pageContent: 'Database security rules', metadata: { source: 'db.md' } }),
+    ]);
+    const search = vi.spyOn(MockVectorStore.prototype, 'keywordSearch');
+
+    const response = await pipeline.query('Compare API performance versus database security', {
+      useReranking: false,
+      retrievalMode: 'keyword',
+      queryExpansion: 'dictionary',
+      decompose: true,
+    });
+
+    const expansions = [
+      ['speed', 'optimization', 'endpoint', 'rest'],
+      ['authentication', 'authorization', 'sql', 'nosql'],
+    ].map(expansionTerms => ({ strategy: 'dictionary', expansionTerms }));
+    expect(response.subQueries).toEqual(['API performance', 'database security']);
+    expect(response.subQueryExpansions).toEqual(expansions);
+    expect(search.mock.calls.map(([query, , options]) => [query, options?.expansion])).toEqual([
+      ['API performance', expansions[0]],
+      ['database security', expansions[1]],
+    ]);
+  });
+
+  it('should time decomposition and expansion separately', async () => {
+    const pipeline = new RAGPipeline();
+    const options: QueryOptions = {
+      useReranking: false,
+      retrievalMode: 'keyword',
+      queryExpansion: 'dictionary',
+    };
+    vi.spyOn(QueryDecomposer.prototype, 'decompose').mockImplementation(async question => {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return [question];
+    });
+
+    const plain = await pipeline.query('API performance', { ...options, decompose: false });
+    const decomposed = await pipeline.query('API performance', { ...options, decompose: true });
+
+    expect(plain.metrics.decompositionTime).toBe(0);
+    expect(decomposed.metrics.decompositionTime).toBeGreaterThanOrEqual(90);
+    // Expansion ran alongside decomposition, so it is not charged for the wait
+    expect(decomposed.metrics.expansionTime).toBeLessThan(90);
+  });
+
+  it('should report native fusion instead of alpha', async () => {
+    const pipeline = new RAGPipeline();
+    vi.spyOn(MockVectorStore.prototype, 'nativeFusion').mockReturnValue('rrf');
+
+    const response = await pipeline.query('API performance', {
+      useReranking: false,
+      retrievalMode: 'hybrid',
+      topK: 5,
+    });
+
+    expect(pipeline.nativeFusion()).toBe('rrf');
+    expect(response.retrieval).toEqual({ mode: 'hybrid', topK: 5, fusion: 'rrf' });
+  });
+});
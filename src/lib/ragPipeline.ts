@@ -2,34 +2,145 @@ import { ChatOpenAI } from '@langchain/openai';
 import { StringOutputParser } from '@langchain/core/output_parsers';
 import { PromptTemplate } from '@langchain/core/prompts';
 import { config } from '../config/index.js';
-import { HybridVectorStore, SearchResult } from './vectorStore.js';
+import {
+  HybridVectorStore,
+  NativeFusion,
+  RetrievalMode,
+  SearchOptions,
+  SearchResult,
+  SourceSummary,
+} from './vectorStore.js';
 import { Reranker } from './reranker.js';
 import { Document } from 'langchain/document';
 import { MockVectorStore, MockReranker, MockLLM } from './mock/mockServices.js';
+import { MetadataFilter } from './filters.js';
+import {
+  QueryExpansion,
+  QueryExpansionStrategyName,
+  createQueryExpansionStrategy,
+} from './queryExpansion.js';
+import { QueryDecomposer } from './queryDecomposition.js';
+import { reciprocalRankFusion } from './fusion.js';
+import { MMRStage, maximalMarginalRelevance } from './mmr.js';
+import { ContextExpander, ContextExpansionMode } from './contextExpansion.js';
+import {
+  Conversation,
+  ConversationStore,
+  ConversationTurn,
+  createConversationStore,
+} from './conversation.js';
+
+export interface QueryOptions {
+  useReranking?: boolean;
+  /** Legacy flag, false maps to retrievalMode 'vector' */
+  useHybridSearch?: boolean;
+  retrievalMode?: RetrievalMode;
+  /** Weight of the vector results in hybrid fusion (0 = keyword only, 1 = vector only) */
+  alpha?: number;
+  topK?: number;
+  queryExpansion?: QueryExpansionStrategyName;
+  /** Split multi-part questions into sub-queries retrieved separately */
+  decompose?: boolean;
+  /** Where to run MMR diversification relative to reranking */
+  mmr?: MMRStage;
+  /** MMR trade-off (1 = relevance only, 0 = diversity only) */
+  mmrLambda?: number;
+  /** Add neighbouring chunks or the whole parent document to each result before generation */
+  contextExpansion?: ContextExpansionMode;
+  streamResponse?: boolean;
+  conversationId?: string;
+  history?: ConversationTurn[];
+  filter?: MetadataFilter;
+}
 
 export interface RAGResponse {
   answer: string;
   sources: Array<{
+    chunkId?: string;
+    /** Source with section, lines or pages, as cited in the answer. */
+    citation: string;
     content: string;
     metadata: Record<string, any>;
     relevanceScore: number;
   }>;
+  conversationId?: string;
+  rewrittenQuestion?: string;
+  retrieval: {
+    mode: RetrievalMode;
+    topK: number;
+    // Set for in-process fusion; native hybrid mode reports its fusion instead
+    alpha?: number;
+    fusion?: NativeFusion;
+  };
+  queryExpansion: QueryExpansion;
+  subQueries?: string[];
+  // Expansion of each sub-query, in the same order
+  subQueryExpansions?: QueryExpansion[];
+  mmr?: {
+    stage: MMRStage;
+    lambda: number;
+  };
   metrics: {
+    rewriteTime: number;
+    decompositionTime: number;
+    expansionTime: number;
     retrievalTime: number;
+    mmrTime: number;
     rerankingTime: number;
+    contextExpansionTime: number;
     generationTime: number;
     totalTime: number;
   };
 }
 
+/**
+ * Citation label for a chunk: its source plus the section, code symbol,
+ * record or email subject it came from, its line range for code and its
+ * pages for PDFs.
+ */
+function citationLabel(metadata: Record<string, any>, index: number): string {
+  let source = metadata.source || `Source ${index + 1}`;
+  if (metadata.startLine) source += `:${metadata.startLine}-${metadata.endLine}`;
+  if (metadata.pageStart) {
+    source +=
+      metadata.pageEnd && metadata.pageEnd !== metadata.pageStart
+        ? ` (pp. ${metadata.pageStart}-${metadata.pageEnd})`
+        : ` (p. ${metadata.pageStart})`;
+  }
+
+  const record =
+    metadata.recordIndex !== undefined &&
+    (metadata.recordTitle || metadata.recordId || `record ${metadata.recordIndex + 1}`);
+  const section = metadata.sectionPath || metadata.symbol || record || metadata.subject;
+  return section ? `${source} > ${section}` : source;
+}
+
+/** Resolves with the value and how long the promise took, for steps that run in parallel. */
+async function timed<T>(promise: Promise<T>): Promise<{ value: T; time: number }> {
+  const start = Date.now();
+  const value = await promise;
+  return { value, time: Date.now() - start };
+}
+
+function formatContext(results: SearchResult[]): string {
+  return results
+    .map((result, index) => {
+      const label = citationLabel(result.document.metadata, index);
+      return `[${index + 1}] ${label}:\n${result.document.pageContent}`;
+    })
+    .join('\n\n');
+}
+
 export class RAGPipeline {
   private vectorStore: HybridVectorStore | MockVectorStore;
   private reranker: Reranker | MockReranker;
   private llm: ChatOpenAI | MockLLM;
+  private conversations: ConversationStore;
   private isMockMode: boolean;
 
   constructor() {
     this.isMockMode = config.mockMode;
+    this.conversations = createConversationStore();
     
     if (this.isMockMode) {
       console.log('🎭 RAG Pipeline running in MOCK MODE');
@@ -52,13 +163,93 @@ export class RAGPipeline {
     await this.vectorStore.initialize();
   }
 
+  async addDocuments(documents: Document[]): Promise<void> {
+    await this.vectorStore.addDocuments(documents);
+  }
+
+  /** Set when hybrid search is fused by Qdrant, where alpha does not apply. */
+  nativeFusion(): NativeFusion | null {
+    return this.vectorStore.nativeFusion();
+  }
+
+  async listSources(): Promise<SourceSummary[]> {
+    return this.vectorStore.listSources();
+  }
+
+  async deleteSource(source: string): Promise<number> {
+    return this.vectorStore.deleteBySource(source);
+  }
+
+  async deleteChunks(chunkIds: string[]): Promise<void> {
+    await this.vectorStore.deleteChunks(chunkIds);
+  }
+
+  async getChunks(source: string): Promise<Document[]> {
+    return this.vectorStore.getChunks(source);
+  }
+
+  async createConversation(): Promise<Conversation> {
+    return this.conversations.create();
+  }
+
+  async getConversation(id: string): Promise<Conversation | null> {
+    return this.conversations.get(id);
+  }
+
+  async deleteConversation(id: string): Promise<boolean> {
+    return this.conversations.delete(id);
+  }
+
+  private async loadConversation(id?: string): Promise<Conversation | null> {
+    if (!id) return null;
+
+    const conversation = await this.conversations.get(id);
+    if (!conversation) {
+      throw new Error(`Conversation not found: ${id}`);
+    }
+    return conversation;
+  }
+
+  private async rewriteQuestion(question: string, turns: ConversationTurn[]): Promise<string> {
+    if (turns.length === 0) return question;
+
+    if (this.isMockMode) {
+      return (this.llm as MockLLM).rewriteQuestion(question, turns);
+    }
+
+    const history = turns
+      .map(turn => {
+        // Long answers add little for resolving references, so trim them
+        const answer =
+          turn.answer.length > 500 ? `${turn.answer.substring(0, 500)}...` : turn.answer;
+        return `User: ${turn.rewrittenQuestion || turn.question}\nAssistant: ${answer}`;
+      })
+      .join('\n\n');
+
+    const prompt = PromptTemplate.fromTemplate(`
+Given the conversation history and a follow-up question, rewrite the follow-up question as a standalone question that can be understood without the history.
+
+Instructions:
+1. Resolve pronouns and references ("it", "that", "the second one") using the history
+2. Keep the wording of the original question wherever possible
+3. If the question is already standalone, return it unchanged
+4. Return only the rewritten question
+
+Conversation history:
+{history}
+
+Follow-up question: {question}
+
+Standalone question:`);
+
+    const chain = prompt.pipe(this.llm as ChatOpenAI).pipe(new StringOutputParser());
+    const rewritten = await chain.invoke({ history, question });
+    return rewritten.trim() || question;
+  }
+
   async query(
     question: string,
-    options: {
-      useReranking?: boolean;
-      useHybridSearch?: boolean;
-      streamResponse?: boolean;
-    } = {
+    options: QueryOptions = {
       useReranking: true,
       useHybridSearch: true,
       streamResponse: false,
@@ -66,53 +257,245 @@ export class RAGPipeline {
   ): Promise<RAGResponse> {
     const startTime = Date.now();
     const metrics = {
+      rewriteTime: 0,
+      decompositionTime: 0,
+      expansionTime: 0,
       retrievalTime: 0,
+      mmrTime: 0,
       rerankingTime: 0,
+      contextExpansionTime: 0,
       generationTime: 0,
       totalTime: 0,
     };
 
-    // Step 1: Retrieval
+    // Step 0: Rewrite follow-up questions into standalone ones
+    const rewriteStart = Date.now();
+    const conversation = await this.loadConversation(options.conversationId);
+    const history = conversation?.turns ?? options.history;
+    const searchQuestion = history ? await this.rewriteQuestion(question, history) : question;
+    metrics.rewriteTime = Date.now() - rewriteStart;
+
+    // Step 1: Retrieval for each sub-query, with both the original and the expanded query
+    const { subQueries, queryExpansion, subQueryExpansions, decompositionTime, expansionTime } =
+      await this.planQueries(searchQuestion, options);
+    metrics.decompositionTime = decompositionTime;
+    metrics.expansionTime = expansionTime;
+
     const retrievalStart = Date.now();
-    let searchResults: SearchResult[];
-    
-    if (options.useHybridSearch) {
-      searchResults = await this.vectorStore.hybridSearch(question, config.rag.topK);
-    } else {
-      // Fallback to pure vector search
-      searchResults = await this.vectorStore.hybridSearch(question, config.rag.topK);
-    }
+    const retrieval = this.resolveRetrieval(options);
+    const mmr = this.resolveMMR(options);
+    let searchResults = await this.retrieveAll(
+      subQueries ?? [searchQuestion],
+      subQueryExpansions ?? [queryExpansion],
+      retrieval,
+      { filter: options.filter, withVectors: mmr !== null }
+    );
     metrics.retrievalTime = Date.now() - retrievalStart;
 
-    // Step 2: Reranking
+    // Step 2: Reranking, with MMR diversification before or after it
+    if (mmr?.stage === 'before-rerank') {
+      const mmrStart = Date.now();
+      searchResults = maximalMarginalRelevance(searchResults, config.rag.mmrTopK, mmr.lambda);
+      metrics.mmrTime = Date.now() - mmrStart;
+    }
+
     const rerankingStart = Date.now();
     if (options.useReranking && searchResults.length > 0) {
       searchResults = await this.reranker.rerankWithMetadata(
-        question,
+        searchQuestion,
         searchResults,
-        config.rag.rerankTopK
+        this.rerankLimit(searchResults, mmr)
       );
     }
     metrics.rerankingTime = Date.now() - rerankingStart;
 
-    // Step 3: Generation
+    if (mmr?.stage === 'after-rerank') {
+      const mmrStart = Date.now();
+      searchResults = maximalMarginalRelevance(searchResults, config.rag.mmrTopK, mmr.lambda);
+      metrics.mmrTime = Date.now() - mmrStart;
+    }
+
+    // Step 3: Context expansion
+    const contextExpansionStart = Date.now();
+    searchResults = await this.expandContext(searchResults, options);
+    metrics.contextExpansionTime = Date.now() - contextExpansionStart;
+
+    // Step 4: Generation
     const generationStart = Date.now();
-    const answer = await this.generateAnswer(question, searchResults, options.streamResponse);
+    const answer = await this.generateAnswer(
+      searchQuestion,
+      searchResults,
+      options.streamResponse
+    );
     metrics.generationTime = Date.now() - generationStart;
 
+    if (conversation) {
+      await this.conversations.appendTurn(conversation.id, {
+        question,
+        rewrittenQuestion: searchQuestion,
+        answer,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     metrics.totalTime = Date.now() - startTime;
 
     return {
       answer,
-      sources: searchResults.map(result => ({
+      sources: searchResults.map((result, index) => ({
+        chunkId: result.document.metadata.chunkId,
+        citation: citationLabel(result.document.metadata, index),
         content: result.document.pageContent,
         metadata: result.document.metadata,
         relevanceScore: result.score,
       })),
+      ...(conversation && { conversationId: conversation.id }),
+      ...(history && { rewrittenQuestion: searchQuestion }),
+      retrieval,
+      queryExpansion,
+      ...(subQueries && { subQueries, subQueryExpansions }),
+      ...(mmr && { mmr }),
       metrics,
     };
   }
 
+  private resolveRetrieval(options: QueryOptions): RAGResponse['retrieval'] {
+    const mode =
+      options.retrievalMode ?? (options.useHybridSearch === false ? 'vector' : 'hybrid');
+    const topK = options.topK ?? config.rag.topK;
+
+    if (mode !== 'hybrid') return { mode, topK };
+
+    const fusion = this.vectorStore.nativeFusion();
+    return fusion
+      ? { mode, topK, fusion }
+      : { mode, topK, alpha: options.alpha ?? config.rag.hybridSearchAlpha };
+  }
+
+  private async expandQuery(
+    question: string,
+    strategy: QueryExpansionStrategyName = config.rag.queryExpansion
+  ): Promise<QueryExpansion> {
+    return createQueryExpansionStrategy(strategy, this.llm).expand(question);
+  }
+
+  private resolveMMR(options: QueryOptions): RAGResponse['mmr'] | null {
+    const stage = options.mmr ?? config.rag.mmr;
+    if (stage === 'off') return null;
+    return { stage, lambda: options.mmrLambda ?? config.rag.mmrLambda };
+  }
+
+  /** When MMR runs afterwards, the reranker scores every candidate and MMR picks the final set. */
+  private rerankLimit(results: SearchResult[], mmr: RAGResponse['mmr'] | null): number {
+    return mmr?.stage === 'after-rerank' ? results.length : config.rag.rerankTopK;
+  }
+
+  private async expandContext(
+    results: SearchResult[],
+    options: QueryOptions
+  ): Promise<SearchResult[]> {
+    const expander = new ContextExpander(this.vectorStore, {
+      mode: options.contextExpansion ?? config.rag.contextExpansion,
+      window: config.rag.contextWindow,
+      maxTokens: config.rag.contextMaxTokens,
+    });
+    return expander.expand(results);
+  }
+
+  /** Sub-queries for the question, or null when decomposition is disabled. */
+  private async decompose(question: string, options: QueryOptions): Promise<string[] | null> {
+    if (!(options.decompose ?? config.rag.queryDecomposition)) return null;
+    return new QueryDecomposer(this.llm, config.rag.maxSubQueries).decompose(question);
+  }
+
+  /**
+   * Decomposes and expands the question in parallel, then expands each
+   * sub-query on its own: terms for one part of the question would pull the
+   * search for the other parts off topic. Each step is timed on its own, so
+   * the two times overlap while they run in parallel.
+   */
+  private async planQueries(
+    question: string,
+    options: QueryOptions
+  ): Promise<{
+    subQueries: string[] | null;
+    queryExpansion: QueryExpansion;
+    subQueryExpansions?: QueryExpansion[];
+    decompositionTime: number;
+    expansionTime: number;
+  }> {
+    const [decomposition, expansion] = await Promise.all([
+      timed(this.decompose(question, options)),
+      timed(this.expandQuery(question, options.queryExpansion)),
+    ]);
+    const subQueries = decomposition.value;
+    const queryExpansion = expansion.value;
+    if (!subQueries) {
+      return { subQueries, queryExpansion, decompositionTime: 0, expansionTime: expansion.time };
+    }
+
+    const subQueryExpansions = await timed(
+      Promise.all(
+        subQueries.map(subQuery =>
+          subQuery === question ? queryExpansion : this.expandQuery(subQuery, options.queryExpansion)
+        )
+      )
+    );
+    return {
+      subQueries,
+      queryExpansion,
+      subQueryExpansions: subQueryExpansions.value,
+      decompositionTime: decomposition.time,
+      expansionTime: expansion.time + subQueryExpansions.time,
+    };
+  }
+
+  /**
+   * Retrieves every sub-query in parallel with its own expansion and fuses the
+   * result lists, so chunks found by several sub-queries are deduplicated and
+   * ranked higher.
+   */
+  private async retrieveAll(
+    queries: string[],
+    expansions: QueryExpansion[],
+    retrieval: RAGResponse['retrieval'],
+    searchOptions: SearchOptions
+  ): Promise<SearchResult[]> {
+    if (queries.length === 1) {
+      return this.retrieve(queries[0], retrieval, { ...searchOptions, expansion: expansions[0] });
+    }
+
+    const resultLists = await Promise.all(
+      queries.map((query, i) =>
+        this.retrieve(query, retrieval, { ...searchOptions, expansion: expansions[i] })
+      )
+    );
+    return reciprocalRankFusion(
+      resultLists.map(results => ({ results, weight: 1 })),
+      retrieval.topK
+    );
+  }
+
+  private async retrieve(
+    question: string,
+    retrieval: RAGResponse['retrieval'],
+    searchOptions: SearchOptions
+  ): Promise<SearchResult[]> {
+    switch (retrieval.mode) {
+      case 'vector':
+        return this.vectorStore.vectorSearch(question, retrieval.topK, searchOptions);
+      case 'keyword':
+        return this.vectorStore.keywordSearch(question, retrieval.topK, searchOptions);
+      case 'hybrid':
+        return this.vectorStore.hybridSearch(
+          question,
+          retrieval.topK,
+          retrieval.alpha,
+          searchOptions
+        );
+    }
+  }
+
   private async generateAnswer(
     question: string,
     searchResults: SearchResult[],
@@ -122,12 +505,7 @@ export class RAGPipeline {
       return "I couldn't find any relevant information to answer your question.";
     }
 
-    const context = searchResults
-      .map((result, index) => {
-        const source = result.document.metadata.source || `Source ${index + 1}`;
-        return `[${index + 1}] ${source}:\n${result.document.pageContent}`;
-      })
-      .join('\n\n');
+    const context = formatContext(searchResults);
 
     if (this.isMockMode) {
       return (this.llm as MockLLM).generateAnswer(question, context);
@@ -169,55 +547,98 @@ Answer:`);
 
   async* streamQuery(
     question: string,
-    options: {
-      useReranking?: boolean;
-      useHybridSearch?: boolean;
-    } = {
+    options: Omit<QueryOptions, 'streamResponse'> = {
       useReranking: true,
       useHybridSearch: true,
     }
   ): AsyncGenerator<{
-    type: 'retrieval' | 'reranking' | 'generation' | 'complete';
+    type:
+      | 'rewrite'
+      | 'decomposition'
+      | 'retrieval'
+      | 'diversification'
+      | 'reranking'
+      | 'context'
+      | 'generation'
+      | 'complete';
     data?: any;
     chunk?: string;
   }> {
+    // Step 0: Rewrite follow-up questions into standalone ones
+    const conversation = await this.loadConversation(options.conversationId);
+    const history = conversation?.turns ?? options.history;
+    let searchQuestion = question;
+    if (history) {
+      yield { type: 'rewrite' };
+      searchQuestion = await this.rewriteQuestion(question, history);
+      yield { type: 'rewrite', data: { rewrittenQuestion: searchQuestion } };
+    }
+
     // Step 1: Retrieval
+    const { subQueries, queryExpansion, subQueryExpansions } = await this.planQueries(
+      searchQuestion,
+      options
+    );
+    if (subQueries) {
+      yield { type: 'decomposition', data: { subQueries, subQueryExpansions } };
+    }
+
     yield { type: 'retrieval' };
-    
-    let searchResults: SearchResult[];
-    if (options.useHybridSearch) {
-      searchResults = await this.vectorStore.hybridSearch(question, config.rag.topK);
-    } else {
-      searchResults = await this.vectorStore.hybridSearch(question, config.rag.topK);
+
+    const retrieval = this.resolveRetrieval(options);
+    const mmr = this.resolveMMR(options);
+    let searchResults = await this.retrieveAll(
+      subQueries ?? [searchQuestion],
+      subQueryExpansions ?? [queryExpansion],
+      retrieval,
+      { filter: options.filter, withVectors: mmr !== null }
+    );
+
+    yield {
+      type: 'retrieval',
+      data: { ...retrieval, queryExpansion, resultCount: searchResults.length },
+    };
+
+    // Step 2: Reranking, with MMR diversification before or after it
+    if (mmr?.stage === 'before-rerank') {
+      searchResults = maximalMarginalRelevance(searchResults, config.rag.mmrTopK, mmr.lambda);
+      yield { type: 'diversification', data: { ...mmr, resultCount: searchResults.length } };
     }
-    
-    yield { type: 'retrieval', data: { resultCount: searchResults.length } };
 
-    // Step 2: Reranking
     if (options.useReranking && searchResults.length > 0) {
       yield { type: 'reranking' };
       searchResults = await this.reranker.rerankWithMetadata(
-        question,
+        searchQuestion,
         searchResults,
-        config.rag.rerankTopK
+        this.rerankLimit(searchResults, mmr)
       );
       yield { type: 'reranking', data: { resultCount: searchResults.length } };
     }
 
-    // Step 3: Generation with streaming
+    if (mmr?.stage === 'after-rerank') {
+      searchResults = maximalMarginalRelevance(searchResults, config.rag.mmrTopK, mmr.lambda);
+      yield { type: 'diversification', data: { ...mmr, resultCount: searchResults.length } };
+    }
+
+    // Step 3: Context expansion
+    const contextExpansion = options.contextExpansion ?? config.rag.contextExpansion;
+    if (contextExpansion !== 'off' && searchResults.length > 0) {
+      yield { type: 'context' };
+      searchResults = await this.expandContext(searchResults, options);
+      yield { type: 'context', data: { mode: contextExpansion, blockCount: searchResults.length } };
+    }
+
+    // Step 4: Generation with streaming
     yield { type: 'generation' };
     
-    const context = searchResults
-      .map((result, index) => {
-        const source = result.document.metadata.source || `Source ${index + 1}`;
-        return `[${index + 1}] ${source}:\n${result.document.pageContent}`;
-      })
-      .join('\n\n');
+    const context = formatContext(searchResults);
 
+    let answer = '';
     if (this.isMockMode) {
       // Mock streaming
       const mockLLM = this.llm as MockLLM;
-      for await (const chunk of mockLLM.streamAnswer(question, context)) {
+      for await (const chunk of mockLLM.streamAnswer(searchQuestion, context)) {
+        answer += chunk;
         yield { type: 'generation', chunk };
       }
     } else {
@@ -235,25 +656,39 @@ Answer:`);
       const chain = prompt.pipe(this.llm as ChatOpenAI);
       const stream = await chain.stream({
         context,
-        question,
+        question: searchQuestion,
       });
 
       for await (const chunk of stream) {
         const text = chunk.content.toString();
         if (text) {
+          answer += text;
           yield { type: 'generation', chunk: text };
         }
       }
     }
 
+    if (conversation) {
+      await this.conversations.appendTurn(conversation.id, {
+        question,
+        rewrittenQuestion: searchQuestion,
+        answer,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
     yield { 
       type: 'complete', 
       data: {
-        sources: searchResults.map(r => ({
+        sources: searchResults.map((r, index) => ({
+          chunkId: r.document.metadata.chunkId,
+          citation: citationLabel(r.document.metadata, index),
           content: r.document.pageContent,
           metadata: r.document.metadata,
           score: r.score,
-        }))
+        })),
+        ...(conversation && { conversationId: conversation.id }),
+        ...(history && { rewrittenQuestion: searchQuestion }),
       }
     };
   }
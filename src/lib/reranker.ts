@@ -58,8 +58,15 @@ export class Reranker {
       // Enhance documents with metadata for better reranking
       const documents = results.map(r => {
         const metadata = r.document.metadata;
-        const metadataStr = metadata.title ? `Title: ${metadata.title}\n\n` : '';
-        return `${metadataStr}${r.document.pageContent}`;
+        const metadataStr = [
+          metadata.title && `Title: ${metadata.title}`,
+          metadata.sectionPath && `Section: ${metadata.sectionPath}`,
+          metadata.symbol && `Symbol: ${metadata.symbol}`,
+        ]
+          .filter(Boolean)
+          .map(line => `${line}\n`)
+          .join('');
+        return metadataStr ? `${metadataStr}\n${r.document.pageContent}` : r.document.pageContent;
       });
       
       const rerankResponse = await this.cohere.rerank({
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { documentSparseVector, querySparseVector, termIndex } from './sparseVectors.js';
+
+describe('sparseVectors', () => {
+  const options = { k1: 1.2, b: 0.75, averageLength: 8 };
+
+  it('should map terms to stable unsigned indices', () => {
+    expect(termIndex('cach')).toBe(termIndex('cach'));
+    expect(termIndex('cach')).not.toBe(termIndex('connect'));
+    expect(termIndex('cach')).toBeGreaterThanOrEqual(0);
+  });
+
+  it('should weight repeated terms higher with saturation', () => {
+    const vector = documentSparseVector('cache cache cache pool', options);
+    const weight = (term: string) => vector.values[vector.indices.indexOf(termIndex(term))];
+
+    expect(vector.indices).toHaveLength(2);
+    expect(weight('cach')).toBeGreaterThan(weight('pool'));
+    expect(weight('cach')).toBeLessThan(options.k1 + 1);
+  });
+
+  it('should use the same terms for queries and documents', () => {
+    const query = querySparseVector('How is caching done?');
+    const doc = documentSparseVector('Caching is done in Redis', options);
+
+    expect(query.values.every(v => v === 1)).toBe(true);
+    expect(query.indices.every(index => doc.indices.includes(index))).toBe(true);
+  });
+});
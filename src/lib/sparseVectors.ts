@@ -0,0 +1,54 @@
+import { tokenize } from './bm25.js';
+
+export interface SparseVector {
+  indices: number[];
+  values: number[];
+}
+
+/** FNV-1a hash mapping a term onto a sparse vector dimension. */
+export function termIndex(term: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < term.length; i++) {
+    hash ^= term.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function termFrequencies(text: string): Map<number, number> {
+  const frequencies = new Map<number, number>();
+  for (const token of tokenize(text)) {
+    const index = termIndex(token);
+    frequencies.set(index, (frequencies.get(index) || 0) + 1);
+  }
+  return frequencies;
+}
+
+/**
+ * BM25 term-weight vector for a document. Only the term-frequency half of
+ * BM25 is computed here; the collection applies IDF server-side through the
+ * sparse vector's `idf` modifier, so weights stay valid as the corpus grows.
+ */
+export function documentSparseVector(
+  text: string,
+  options: { k1: number; b: number; averageLength: number }
+): SparseVector {
+  const frequencies = termFrequencies(text);
+  const length = Array.from(frequencies.values()).reduce((sum, tf) => sum + tf, 0);
+  const normalization = 1 - options.b + (options.b * length) / options.averageLength;
+
+  const indices: number[] = [];
+  const values: number[] = [];
+  for (const [index, tf] of frequencies) {
+    indices.push(index);
+    values.push((tf * (options.k1 + 1)) / (tf + options.k1 * normalization));
+  }
+
+  return { indices, values };
+}
+
+/** Query terms all carry weight 1, so scores are the sum of matched document weights times IDF. */
+export function querySparseVector(query: string): SparseVector {
+  const indices = Array.from(termFrequencies(query).keys());
+  return { indices, values: indices.map(() => 1) };
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { Document } from 'langchain/document';
+import { HybridVectorStore } from './vectorStore.js';
+
+type Point = { id: string; payload: { content: string; metadata: Record<string, any> } };
+
+const point = (id: string, content: string): Point => ({
+  id,
+  payload: { content, metadata: { source: `${id}.md`, chunkId: id } },
+});
+
+/** A Qdrant client double whose scrolls can be held open to simulate a slow rebuild. */
+function fakeClient(points: Point[]) {
+  let release = () => {};
+  let held: Promise<void> | null = null;
+
+  const client = {
+    hold() {
+      held = new Promise(resolve => (release = resolve));
+    },
+    release: () => release(),
+    // Reads a snapshot up front, like a scroll that started before later writes
+    async scroll() {
+      const snapshot = [...points];
+      await held;
+      return { points: snapshot, next_page_offset: null };
+    },
+    async retrieve(_collection: string, { ids }: { ids: string[] }) {
+      return points.filter(p => ids.includes(p.id));
+    },
+    async upsert(_collection: string, { points: added }: { points: Point[] }) {
+      points.push(...added);
+    },
+    async delete(_collection: string, { points: ids }: { points: string[] }) {
+      points.splice(0, points.length, ...points.filter(p => !ids.includes(p.id)));
+    },
+  };
+  return client;
+}
+
+const ids = (results: Array<{ document: Document }>) =>
+  results.map(result => result.document.metadata.chunkId);
+
+describe('HybridVectorStore keyword index', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should rebuild in the background and keep writes made during the rebuild', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const client = fakeClient([point('a', 'Redis caching guide'), point('b', 'Postgres pooling')]);
+    const store = new HybridVectorStore('docs');
+    Object.assign(store as any, {
+      client,
+      embeddings: { embedDocuments: async (docs: Document[]) => docs.map(() => [0]) },
+    });
+
+    expect(ids(await store.keywordSearch('redis'))).toEqual(['a']);
+
+    // The index is stale now, but searches answer from it while the rebuild scrolls
+    vi.setSystemTime(Date.now() + 10 * 60 * 1000);
+    client.hold();
+    expect(ids(await store.keywordSearch('postgres'))).toEqual(['b']);
+
+    await store.addDocuments([
+      new Document({ pageContent: 'Kafka streaming', metadata: { source: 'c.md', chunkId: 'c' } }),
+    ]);
+    await store.deleteChunks(['b']);
+    client.release();
+    await store.rebuildKeywordIndex();
+
+    expect(ids(await store.keywordSearch('kafka'))).toEqual(['c']);
+    expect(ids(await store.keywordSearch('postgres'))).toEqual([]);
+  });
+});
@@ -1,28 +1,93 @@
 import { QdrantClient } from '@qdrant/js-client-rest';
-import { v4 as uuidv4 } from 'uuid';
 import { Document } from 'langchain/document';
 import { config } from '../config/index.js';
 import { AdvancedEmbeddings } from './embeddings.js';
+import { MetadataFilter, matchesFilter, toQdrantFilter } from './filters.js';
+import { BM25Index } from './bm25.js';
+import { documentSparseVector, querySparseVector } from './sparseVectors.js';
+import { reciprocalRankFusion } from './fusion.js';
+import { QueryExpansion } from './queryExpansion.js';
+import { ensureChunkId } from './chunkIds.js';
+
+// Vector names used by the native hybrid layout (named dense + sparse vectors)
+const DENSE_VECTOR = 'dense';
+const SPARSE_VECTOR = 'bm25';
+
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export const retrievalModes: RetrievalMode[] = ['vector', 'keyword', 'hybrid'];
+
+/** How Qdrant fuses dense and sparse results in native hybrid mode. */
+export type NativeFusion = typeof config.qdrant.fusion;
 
 export interface SearchResult {
   document: Document;
   score: number;
   vectorScore?: number;
   keywordScore?: number;
+  /** Dense chunk embedding, only present when requested with `withVectors` */
+  embedding?: number[];
+}
+
+export interface SearchOptions {
+  filter?: MetadataFilter;
+  /** Precomputed query expansion; defaults to the dictionary strategy when omitted */
+  expansion?: QueryExpansion;
+  /** Return chunk embeddings with the results, e.g. for MMR */
+  withVectors?: boolean;
 }
 
+/** Keyword queries include expansion terms; hypothetical documents are only embedded. */
+function keywordQueryText(query: string, expansion?: QueryExpansion): string {
+  return expansion?.expansionTerms.length
+    ? `${query} ${expansion.expansionTerms.join(' ')}`
+    : query;
+}
+
+export interface SourceSummary {
+  source: string;
+  chunkCount: number;
+  title?: string;
+  fileType?: string;
+  lastModified?: string;
+}
+
+type KeywordWrite = (index: BM25Index, metadata: Map<string, Record<string, any>>) => void;
+
 export class HybridVectorStore {
   private client: QdrantClient;
   private embeddings: AdvancedEmbeddings;
   private collectionName: string;
+  // Lexical index over chunk content; point metadata is kept alongside for filtering
+  private keywordIndex: BM25Index;
+  private keywordMetadata = new Map<string, Record<string, any>>();
+  // When the keyword index was last loaded from the collection, and the load in progress
+  private keywordIndexLoadedAt: number | null = null;
+  private keywordIndexLoad: Promise<void> | null = null;
+  // Writes made while a load scrolls the collection, replayed onto the loaded index
+  private keywordWritesDuringLoad: KeywordWrite[] | null = null;
+  private hybridMode: 'client' | 'native';
+  // Set when the collection uses the named-vector layout
+  private denseVectorName: string | null = null;
+  private sparseVectorName: string | null = null;
 
-  constructor() {
+  constructor(collectionName: string = config.qdrant.collectionName) {
     this.client = new QdrantClient({
       url: config.qdrant.url,
       apiKey: config.qdrant.apiKey,
     });
     this.embeddings = new AdvancedEmbeddings();
-    this.collectionName = config.qdrant.collectionName;
+    this.collectionName = collectionName;
+    this.keywordIndex = new BM25Index(config.rag.bm25K1, config.rag.bm25B);
+    this.hybridMode = config.qdrant.hybridMode;
+  }
+
+  /**
+   * The fusion Qdrant applies to hybrid searches, or null when they are fused
+   * in process and weighted by alpha. Settled by `initialize()`.
+   */
+  nativeFusion(): NativeFusion | null {
+    return this.hybridMode === 'native' ? config.qdrant.fusion : null;
   }
 
   async initialize(): Promise<void> {
@@ -30,11 +95,16 @@ export class HybridVectorStore {
     const exists = collections.collections.some(c => c.name === this.collectionName);
 
     if (!exists) {
+      const dense = { size: 1536, distance: 'Cosine' as const };
+
       await this.client.createCollection(this.collectionName, {
-        vectors: {
-          size: 1536,
-          distance: 'Cosine',
-        },
+        ...(this.hybridMode === 'native'
+          ? {
+              vectors: { [DENSE_VECTOR]: dense },
+              // IDF is applied by Qdrant, so stored weights only carry term frequency
+              sparse_vectors: { [SPARSE_VECTOR]: { modifier: 'idf' } },
+            }
+          : { vectors: dense }),
         optimizers_config: {
           default_segment_number: 2,
         },
@@ -51,15 +121,65 @@ export class HybridVectorStore {
         field_name: 'metadata.title',
         field_schema: 'text',
       });
+
+      // Keyword indexes used to list, delete and filter documents
+      for (const field of ['metadata.source', 'metadata.category', 'metadata.fileType']) {
+        await this.client.createPayloadIndex(this.collectionName, {
+          field_name: field,
+          field_schema: 'keyword',
+        });
+      }
+
+      await this.client.createPayloadIndex(this.collectionName, {
+        field_name: 'metadata.lastModified',
+        field_schema: 'datetime',
+      });
+
+      // Used to fetch neighbouring chunks for context expansion
+      await this.client.createPayloadIndex(this.collectionName, {
+        field_name: 'metadata.chunkIndex',
+        field_schema: 'integer',
+      });
+    }
+
+    await this.detectLayout();
+  }
+
+  private async detectLayout(): Promise<void> {
+    const info = await this.client.getCollection(this.collectionName);
+    const vectors = info.config.params.vectors as Record<string, any> | undefined;
+    const sparseVectors = info.config.params.sparse_vectors || {};
+
+    this.denseVectorName = vectors && DENSE_VECTOR in vectors ? DENSE_VECTOR : null;
+    this.sparseVectorName = SPARSE_VECTOR in sparseVectors ? SPARSE_VECTOR : null;
+
+    if (this.hybridMode === 'native' && !(this.denseVectorName && this.sparseVectorName)) {
+      console.warn(
+        `⚠️  Collection "${this.collectionName}" has no sparse vectors; ` +
+          'falling back to client-side hybrid fusion. Recreate it to use native mode.'
+      );
+      this.hybridMode = 'client';
     }
   }
 
   async addDocuments(documents: Document[]): Promise<void> {
     const vectors = await this.embeddings.embedDocuments(documents);
     
+    // Chunk ids are deterministic, so upserting an unchanged chunk replaces its point
     const points = documents.map((doc, i) => ({
-      id: uuidv4(),
-      vector: vectors[i],
+      id: ensureChunkId(doc, i),
+      vector: this.denseVectorName
+        ? {
+            [this.denseVectorName]: vectors[i],
+            ...(this.sparseVectorName && {
+              [this.sparseVectorName]: documentSparseVector(doc.pageContent, {
+                k1: config.rag.bm25K1,
+                b: config.rag.bm25B,
+                averageLength: config.qdrant.sparseAverageLength,
+              }),
+            }),
+          }
+        : vectors[i],
       payload: {
         content: doc.pageContent,
         metadata: doc.metadata,
@@ -70,118 +190,482 @@ export class HybridVectorStore {
       wait: true,
       points,
     });
+
+    if (this.hybridMode === 'client') {
+      for (const point of points) {
+        this.indexKeywords(point.id, point.payload.content, point.payload.metadata);
+      }
+    }
+  }
+
+  private indexKeywords(id: string, content: string, metadata: Record<string, any>): void {
+    this.writeKeywords((index, keywordMetadata) => {
+      index.add(id, content);
+      keywordMetadata.set(id, metadata || {});
+    });
+  }
+
+  private unindexKeywords(id: string): void {
+    this.writeKeywords((index, keywordMetadata) => {
+      index.remove(id);
+      keywordMetadata.delete(id);
+    });
+  }
+
+  /** Applies a write to the keyword index, and keeps it for an index being loaded. */
+  private writeKeywords(write: KeywordWrite): void {
+    write(this.keywordIndex, this.keywordMetadata);
+    this.keywordWritesDuringLoad?.push(write);
+  }
+
+  /**
+   * Loads the BM25 index on first use. Once it is older than
+   * KEYWORD_INDEX_REFRESH_MS (0 keeps it after the first load) it is rebuilt
+   * in the background while searches keep using it. Writes through this store
+   * update it directly; the rebuild picks up documents that other processes,
+   * such as the ingestion CLI, added or deleted.
+   */
+  private async syncKeywordIndex(): Promise<void> {
+    const loadedAt = this.keywordIndexLoadedAt;
+    if (loadedAt === null) return this.rebuildKeywordIndex();
+
+    const refreshMs = config.rag.keywordIndexRefreshMs;
+    if (refreshMs > 0 && Date.now() - loadedAt >= refreshMs && !this.keywordIndexLoad) {
+      this.rebuildKeywordIndex().catch(error =>
+        console.warn(`⚠️ Could not rebuild the keyword index: ${error}`)
+      );
+    }
+  }
+
+  /** Reloads the BM25 index from the collection; concurrent callers share one rebuild. */
+  async rebuildKeywordIndex(): Promise<void> {
+    this.keywordIndexLoad ??= this.loadKeywordIndex().finally(() => {
+      this.keywordIndexLoad = null;
+    });
+    await this.keywordIndexLoad;
+  }
+
+  /**
+   * Builds the index aside and swaps it in, so searches meanwhile use the old
+   * one. Writes made during the scroll may or may not be in the pages read, so
+   * they are replayed on top before the swap.
+   */
+  private async loadKeywordIndex(): Promise<void> {
+    const startedAt = Date.now();
+    const keywordIndex = new BM25Index(config.rag.bm25K1, config.rag.bm25B);
+    const keywordMetadata = new Map<string, Record<string, any>>();
+    const writes: KeywordWrite[] = [];
+    this.keywordWritesDuringLoad = writes;
+
+    try {
+      await this.scrollKeywords(keywordIndex, keywordMetadata);
+    } finally {
+      this.keywordWritesDuringLoad = null;
+    }
+
+    writes.forEach(write => write(keywordIndex, keywordMetadata));
+    this.keywordIndex = keywordIndex;
+    this.keywordMetadata = keywordMetadata;
+    this.keywordIndexLoadedAt = startedAt;
+  }
+
+  private async scrollKeywords(
+    keywordIndex: BM25Index,
+    keywordMetadata: Map<string, Record<string, any>>
+  ): Promise<void> {
+    let offset: string | number | Record<string, unknown> | null | undefined = undefined;
+    do {
+      const page = await this.client.scroll(this.collectionName, {
+        limit: 256,
+        offset,
+        with_payload: true,
+        with_vector: false,
+      });
+
+      for (const point of page.points) {
+        const payload = point.payload as any;
+        keywordIndex.add(String(point.id), payload.content || '');
+        keywordMetadata.set(String(point.id), payload.metadata || {});
+      }
+
+      offset = page.next_page_offset;
+    } while (offset !== null && offset !== undefined);
   }
 
   async hybridSearch(
     query: string,
     limit: number = config.rag.topK,
-    alpha: number = config.rag.hybridSearchAlpha
+    alpha: number = config.rag.hybridSearchAlpha,
+    options: SearchOptions = {}
   ): Promise<SearchResult[]> {
     // Get embeddings with query expansion
-    const { original, expanded, expansionTerms } = await this.embeddings.embedQueryWithExpansion(query);
-    
+    const { original, expanded } = await this.embeddings.embedQueryWithExpansion(
+      query,
+      options.expansion
+    );
+
+    if (this.hybridMode === 'native') {
+      return this.nativeHybridSearch(query, original, expanded, limit, options);
+    }
+
     // Vector search with original and expanded queries
-    const vectorResults = await this.vectorSearch(
-      expanded || original,
-      limit * 2 // Get more results for fusion
+    const vectorLists = await this.searchByVectors(
+      original,
+      expanded,
+      limit * 2, // Get more results for fusion
+      options
     );
 
     // Keyword search
-    const keywordResults = await this.keywordSearch(query, limit * 2);
+    const keywordResults = await this.keywordSearch(query, limit * 2, options);
 
-    // Reciprocal Rank Fusion
-    return this.reciprocalRankFusion(vectorResults, keywordResults, alpha, limit);
+    // Reciprocal Rank Fusion; the vector weight is shared by the original and expanded rankings
+    return reciprocalRankFusion(
+      [
+        ...vectorLists.map(results => ({ results, weight: alpha / vectorLists.length })),
+        { results: keywordResults, weight: 1 - alpha },
+      ],
+      limit
+    );
   }
 
-  private async vectorSearch(embedding: number[], limit: number): Promise<SearchResult[]> {
-    const results = await this.client.search(this.collectionName, {
-      vector: embedding,
+  /**
+   * Single round trip: Qdrant prefetches dense and sparse candidates and fuses
+   * them server-side (RRF or DBSF). Fusion is unweighted, so alpha does not apply.
+   */
+  private async nativeHybridSearch(
+    query: string,
+    original: number[],
+    expanded: number[] | null,
+    limit: number,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const qdrantFilter = toQdrantFilter(options.filter);
+    const sparse = querySparseVector(keywordQueryText(query, options.expansion));
+    const embeddings = expanded ? [original, expanded] : [original];
+
+    const { points } = await this.client.query(this.collectionName, {
+      prefetch: [
+        ...embeddings.map(embedding => ({
+          query: embedding,
+          using: this.denseVectorName!,
+          limit: limit * 2,
+          filter: qdrantFilter,
+        })),
+        ...(sparse.indices.length > 0
+          ? [
+              {
+                query: sparse,
+                using: this.sparseVectorName!,
+                limit: limit * 2,
+                filter: qdrantFilter,
+              },
+            ]
+          : []),
+      ],
+      query: { fusion: config.qdrant.fusion },
       limit,
       with_payload: true,
+      with_vector: this.vectorSelector(options.withVectors),
     });
 
-    return results.map(r => ({
-      document: new Document({
-        pageContent: (r.payload as any).content,
-        metadata: (r.payload as any).metadata,
-      }),
-      score: r.score || 0,
-      vectorScore: r.score || 0,
-    }));
+    return points.map(point => this.toResult(point, point.score));
   }
 
-  private async keywordSearch(query: string, limit: number): Promise<SearchResult[]> {
-    const searchTerms = query.toLowerCase().split(' ').filter(t => t.length > 2);
-    
-    if (searchTerms.length === 0) return [];
+  /** Vector selector for `with_vector`, limited to the dense vector. */
+  private vectorSelector(withVectors?: boolean): boolean | string[] {
+    if (!withVectors) return false;
+    return this.denseVectorName ? [this.denseVectorName] : true;
+  }
 
-    const filter = {
-      should: searchTerms.map(term => ({
-        key: 'content',
-        match: { text: term },
-      })),
+  private toEmbedding(vector: unknown): number[] | undefined {
+    if (!vector) return undefined;
+    const dense = this.denseVectorName ? (vector as any)[this.denseVectorName] : vector;
+    return Array.isArray(dense) ? dense : undefined;
+  }
+
+  private toResult(
+    point: { payload?: unknown; vector?: unknown },
+    score: number,
+    scores: Partial<SearchResult> = {}
+  ): SearchResult {
+    const embedding = this.toEmbedding(point.vector);
+    return {
+      document: this.toDocument(point.payload),
+      score,
+      ...scores,
+      ...(embedding && { embedding }),
     };
+  }
 
-    const results = await this.client.scroll(this.collectionName, {
-      filter,
+  private toDocument(payload: unknown): Document {
+    return new Document({
+      pageContent: (payload as any).content,
+      metadata: (payload as any).metadata,
+    });
+  }
+
+  async vectorSearch(
+    query: string,
+    limit: number = config.rag.topK,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const { original, expanded } = await this.embeddings.embedQueryWithExpansion(
+      query,
+      options.expansion
+    );
+    const lists = await this.searchByVectors(original, expanded, limit, options);
+
+    if (lists.length === 1) return lists[0];
+    return reciprocalRankFusion(
+      lists.map(results => ({ results, weight: 1 })),
+      limit
+    );
+  }
+
+  /** Searches with the original embedding and, when present, the expanded one. */
+  private async searchByVectors(
+    original: number[],
+    expanded: number[] | null,
+    limit: number,
+    options: SearchOptions
+  ): Promise<SearchResult[][]> {
+    const embeddings = expanded ? [original, expanded] : [original];
+    return Promise.all(embeddings.map(embedding => this.searchByVector(embedding, limit, options)));
+  }
+
+  private async searchByVector(
+    embedding: number[],
+    limit: number,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const results = await this.client.search(this.collectionName, {
+      vector: this.denseVectorName ? { name: this.denseVectorName, vector: embedding } : embedding,
       limit,
+      filter: toQdrantFilter(options.filter),
       with_payload: true,
+      with_vector: this.vectorSelector(options.withVectors),
     });
 
-    return results.points.map((r, idx) => ({
-      document: new Document({
-        pageContent: (r.payload as any).content,
-        metadata: (r.payload as any).metadata,
-      }),
-      score: 1 - (idx / results.points.length), // Simple ranking based on order
-      keywordScore: 1 - (idx / results.points.length),
-    }));
+    return results.map(r => this.toResult(r, r.score || 0, { vectorScore: r.score || 0 }));
   }
 
-  private reciprocalRankFusion(
-    vectorResults: SearchResult[],
-    keywordResults: SearchResult[],
-    alpha: number,
-    limit: number
-  ): SearchResult[] {
-    const k = 60; // Constant for RRF
-    const fusedScores = new Map<string, { result: SearchResult; score: number }>();
-
-    // Process vector results
-    vectorResults.forEach((result, rank) => {
-      const key = result.document.pageContent.substring(0, 100);
-      const rrfScore = alpha * (1 / (k + rank + 1));
-      
-      if (fusedScores.has(key)) {
-        fusedScores.get(key)!.score += rrfScore;
-      } else {
-        fusedScores.set(key, { result, score: rrfScore });
+  async keywordSearch(
+    query: string,
+    limit: number = config.rag.topK,
+    options: SearchOptions = {}
+  ): Promise<SearchResult[]> {
+    const keywordQuery = keywordQueryText(query, options.expansion);
+
+    if (this.hybridMode === 'native') {
+      return this.sparseSearch(keywordQuery, limit, options);
+    }
+
+    await this.syncKeywordIndex();
+
+    const hits = this.keywordIndex.search(keywordQuery, limit, id =>
+      matchesFilter(this.keywordMetadata.get(id) || {}, options.filter)
+    );
+    if (hits.length === 0) return [];
+
+    const points = await this.client.retrieve(this.collectionName, {
+      ids: hits.map(hit => hit.id),
+      with_payload: true,
+      with_vector: this.vectorSelector(options.withVectors),
+    });
+    const pointsById = new Map(points.map(point => [String(point.id), point]));
+
+    return hits
+      .filter(hit => pointsById.has(hit.id))
+      .map(hit => this.toResult(pointsById.get(hit.id)!, hit.score, { keywordScore: hit.score }));
+  }
+
+  private async sparseSearch(
+    query: string,
+    limit: number,
+    options: SearchOptions
+  ): Promise<SearchResult[]> {
+    const sparse = querySparseVector(query);
+    if (sparse.indices.length === 0) return [];
+
+    const { points } = await this.client.query(this.collectionName, {
+      query: sparse,
+      using: this.sparseVectorName!,
+      limit,
+      filter: toQdrantFilter(options.filter),
+      with_payload: true,
+      with_vector: this.vectorSelector(options.withVectors),
+    });
+
+    return points.map(point => this.toResult(point, point.score, { keywordScore: point.score }));
+  }
+
+  async listSources(): Promise<SourceSummary[]> {
+    const sources = new Map<string, SourceSummary>();
+    let offset: string | number | Record<string, unknown> | null | undefined = undefined;
+
+    // Page through every point, only pulling the metadata we summarise
+    do {
+      const page = await this.client.scroll(this.collectionName, {
+        limit: 256,
+        offset,
+        with_payload: {
+          include: [
+            'metadata.source',
+            'metadata.title',
+            'metadata.fileType',
+            'metadata.lastModified',
+          ],
+        },
+        with_vector: false,
+      });
+
+      for (const point of page.points) {
+        const metadata = ((point.payload as any)?.metadata || {}) as Record<string, any>;
+        const source = metadata.source || 'unknown';
+        const summary = sources.get(source);
+
+        if (summary) {
+          summary.chunkCount++;
+        } else {
+          sources.set(source, {
+            source,
+            chunkCount: 1,
+            title: metadata.title,
+            fileType: metadata.fileType,
+            lastModified: metadata.lastModified,
+          });
+        }
       }
+
+      offset = page.next_page_offset;
+    } while (offset !== null && offset !== undefined);
+
+    return Array.from(sources.values()).sort((a, b) => a.source.localeCompare(b.source));
+  }
+
+  /** Chunks of a source, optionally limited to the given chunk indexes, in chunk order. */
+  async getChunks(source: string, chunkIndexes?: number[]): Promise<Document[]> {
+    const filter = toQdrantFilter({
+      source,
+      ...(chunkIndexes && { chunkIndex: { in: chunkIndexes } }),
+    });
+    const chunks: Document[] = [];
+    let offset: string | number | Record<string, unknown> | null | undefined = undefined;
+
+    do {
+      const page = await this.client.scroll(this.collectionName, {
+        limit: 256,
+        offset,
+        filter,
+        with_payload: true,
+        with_vector: false,
+      });
+
+      chunks.push(...page.points.map(point => this.toDocument(point.payload)));
+      offset = page.next_page_offset;
+    } while (offset !== null && offset !== undefined);
+
+    return chunks.sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+  }
+
+  async deleteChunks(chunkIds: string[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    await this.client.delete(this.collectionName, {
+      wait: true,
+      points: chunkIds,
+    });
+    chunkIds.forEach(id => this.unindexKeywords(id));
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    const filter = {
+      must: [{ key: 'metadata.source', match: { value: source } }],
+    };
+
+    const { count } = await this.client.count(this.collectionName, { filter, exact: true });
+    if (count === 0) return 0;
+
+    await this.client.delete(this.collectionName, {
+      wait: true,
+      filter,
     });
 
-    // Process keyword results
-    keywordResults.forEach((result, rank) => {
-      const key = result.document.pageContent.substring(0, 100);
-      const rrfScore = (1 - alpha) * (1 / (k + rank + 1));
-      
-      if (fusedScores.has(key)) {
-        fusedScores.get(key)!.score += rrfScore;
-      } else {
-        fusedScores.set(key, { result, score: rrfScore });
+    this.writeKeywords((index, keywordMetadata) => {
+      for (const [id, metadata] of keywordMetadata) {
+        if (metadata.source !== source) continue;
+        index.remove(id);
+        keywordMetadata.delete(id);
       }
     });
 
-    // Sort by fused score and return top results
-    return Array.from(fusedScores.values())
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit)
-      .map(item => ({
-        ...item.result,
-        score: item.score,
-      }));
+    return count;
+  }
+
+  /** Records where merged duplicates of stored chunks came from; unknown ids are skipped. */
+  async addDuplicateSources(sources: Map<string, string[]>): Promise<void> {
+    if (sources.size === 0) return;
+
+    const points = await this.client.retrieve(this.collectionName, {
+      ids: Array.from(sources.keys()),
+      with_payload: true,
+    });
+
+    for (const point of points) {
+      const id = String(point.id);
+      const metadata = ((point.payload as any)?.metadata || {}) as Record<string, any>;
+      const duplicateSources = Array.from(
+        new Set([...(metadata.duplicateSources ?? []), ...sources.get(id)!])
+      );
+
+      await this.client.setPayload(this.collectionName, {
+        wait: true,
+        points: [point.id],
+        key: 'metadata',
+        payload: { duplicateSources },
+      });
+      this.writeKeywords((_index, keywordMetadata) => {
+        const metadata = keywordMetadata.get(id);
+        if (metadata) metadata.duplicateSources = duplicateSources;
+      });
+    }
+  }
+
+  /** Takes a removed or changed source off its merged duplicates; unknown ids are skipped. */
+  async removeDuplicateSources(chunkIds: string[], source: string): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    const points = await this.client.retrieve(this.collectionName, {
+      ids: chunkIds,
+      with_payload: true,
+    });
+
+    for (const point of points) {
+      const id = String(point.id);
+      const metadata = ((point.payload as any)?.metadata || {}) as Record<string, any>;
+      if (!metadata.duplicateSources?.includes(source)) continue;
+      const duplicateSources = metadata.duplicateSources.filter(
+        (duplicate: string) => duplicate !== source
+      );
+
+      await this.client.setPayload(this.collectionName, {
+        wait: true,
+        points: [point.id],
+        key: 'metadata',
+        payload: { duplicateSources },
+      });
+      this.writeKeywords((_index, keywordMetadata) => {
+        const metadata = keywordMetadata.get(id);
+        if (metadata) metadata.duplicateSources = duplicateSources;
+      });
+    }
   }
 
   async deleteCollection(): Promise<void> {
     await this.client.deleteCollection(this.collectionName);
+    this.keywordIndex.clear();
+    this.keywordMetadata.clear();
+    this.keywordIndexLoadedAt = null;
   }
 }
\ No newline at end of file
@@ -1,13 +1,133 @@
 import express from 'express';
-import { RAGPipeline } from './lib/ragPipeline.js';
+import multer from 'multer';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { QueryOptions, RAGPipeline } from './lib/ragPipeline.js';
+import { RetrievalMode, retrievalModes } from './lib/vectorStore.js';
+import { QueryExpansionStrategyName, queryExpansionStrategies } from './lib/queryExpansion.js';
+import { MMRStage, mmrStages } from './lib/mmr.js';
+import { ContextExpansionMode, contextExpansionModes } from './lib/contextExpansion.js';
+import { ChunkingPipeline, createChunkingStrategy } from './lib/chunking.js';
+import {
+  DirectoryIngestor,
+  SourceStore,
+  loadDocumentFromFile,
+  replaceSource,
+} from './ingestion/ingest-files.js';
+import { parseMetadataFilter } from './lib/filters.js';
+import {
+  ChatMessage,
+  completionId,
+  messagesToQuery,
+  openAIError,
+  ragModels,
+  resolveModel,
+  toChatCompletion,
+  toChatCompletionChunk,
+} from './lib/openaiCompat.js';
 import { config } from './config/index.js';
 
 const app = express();
 const ragPipeline = new RAGPipeline();
 
+// Where uploads and the watched directory store their chunks
+const ragStore: SourceStore = {
+  addDocuments: documents => ragPipeline.addDocuments(documents),
+  deleteChunks: chunkIds => ragPipeline.deleteChunks(chunkIds),
+  deleteBySource: source => ragPipeline.deleteSource(source),
+  getChunks: source => ragPipeline.getChunks(source),
+};
+
+// Each upload lands in its own temp directory so the original file name
+// (used as the document source) is preserved without collisions
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      fs.mkdtemp(path.join(os.tmpdir(), 'rag-upload-'))
+        .then(dir => cb(null, dir))
+        .catch(error => cb(error, ''));
+    },
+    filename: (req, file, cb) => cb(null, path.basename(file.originalname)),
+  }),
+  limits: { fileSize: 25 * 1024 * 1024 },
+});
+
 app.use(express.json());
 app.use(express.static('public'));
 
+// Shared retrieval settings for the query endpoints; throws on invalid input
+function parseRetrievalOptions(
+  body: Record<string, any>
+): Pick<
+  QueryOptions,
+  | 'retrievalMode'
+  | 'alpha'
+  | 'topK'
+  | 'queryExpansion'
+  | 'decompose'
+  | 'mmr'
+  | 'mmrLambda'
+  | 'contextExpansion'
+  | 'filter'
+> {
+  const {
+    retrievalMode,
+    alpha,
+    topK,
+    queryExpansion,
+    decompose,
+    mmr,
+    mmrLambda,
+    contextExpansion,
+  } = body;
+
+  if (retrievalMode !== undefined && !retrievalModes.includes(retrievalMode)) {
+    throw new Error(`retrievalMode must be one of: ${retrievalModes.join(', ')}`);
+  }
+  if (alpha !== undefined && (typeof alpha !== 'number' || alpha < 0 || alpha > 1)) {
+    throw new Error('alpha must be a number between 0 and 1');
+  }
+  if (alpha !== undefined && ragPipeline.nativeFusion()) {
+    throw new Error(
+      'alpha does not apply: hybrid results are fused by Qdrant (QDRANT_HYBRID_MODE=native)'
+    );
+  }
+  if (topK !== undefined && (!Number.isInteger(topK) || topK < 1 || topK > 100)) {
+    throw new Error('topK must be an integer between 1 and 100');
+  }
+  if (queryExpansion !== undefined && !queryExpansionStrategies.includes(queryExpansion)) {
+    throw new Error(`queryExpansion must be one of: ${queryExpansionStrategies.join(', ')}`);
+  }
+  if (decompose !== undefined && typeof decompose !== 'boolean') {
+    throw new Error('decompose must be a boolean');
+  }
+  if (mmr !== undefined && !mmrStages.includes(mmr)) {
+    throw new Error(`mmr must be one of: ${mmrStages.join(', ')}`);
+  }
+  if (
+    mmrLambda !== undefined &&
+    (typeof mmrLambda !== 'number' || mmrLambda < 0 || mmrLambda > 1)
+  ) {
+    throw new Error('mmrLambda must be a number between 0 and 1');
+  }
+  if (contextExpansion !== undefined && !contextExpansionModes.includes(contextExpansion)) {
+    throw new Error(`contextExpansion must be one of: ${contextExpansionModes.join(', ')}`);
+  }
+
+  return {
+    retrievalMode: retrievalMode as RetrievalMode | undefined,
+    alpha,
+    topK,
+    queryExpansion: queryExpansion as QueryExpansionStrategyName | undefined,
+    decompose,
+    mmr: mmr as MMRStage | undefined,
+    mmrLambda,
+    contextExpansion: contextExpansion as ContextExpansionMode | undefined,
+    filter: parseMetadataFilter(body.filter),
+  };
+}
+
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'healthy', timestamp: new Date().toISOString() });
@@ -16,16 +136,29 @@ app.get('/health', (req, res) => {
 // Main RAG query endpoint
 app.post('/api/query', async (req, res) => {
   try {
-    const { question, useReranking = true, useHybridSearch = true } = req.body;
+    const { question, useReranking = true, useHybridSearch = true, conversationId } = req.body;
 
     if (!question) {
       return res.status(400).json({ error: 'Question is required' });
     }
 
+    let retrievalOptions: ReturnType<typeof parseRetrievalOptions>;
+    try {
+      retrievalOptions = parseRetrievalOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    if (conversationId && !(await ragPipeline.getConversation(conversationId))) {
+      return res.status(404).json({ error: `Conversation not found: ${conversationId}` });
+    }
+
     const response = await ragPipeline.query(question, {
       useReranking,
       useHybridSearch,
       streamResponse: false,
+      conversationId,
+      ...retrievalOptions,
     });
 
     res.json(response);
@@ -38,12 +171,23 @@ app.post('/api/query', async (req, res) => {
 // Streaming RAG query endpoint
 app.post('/api/query/stream', async (req, res) => {
   try {
-    const { question, useReranking = true, useHybridSearch = true } = req.body;
+    const { question, useReranking = true, useHybridSearch = true, conversationId } = req.body;
 
     if (!question) {
       return res.status(400).json({ error: 'Question is required' });
     }
 
+    let retrievalOptions: ReturnType<typeof parseRetrievalOptions>;
+    try {
+      retrievalOptions = parseRetrievalOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    if (conversationId && !(await ragPipeline.getConversation(conversationId))) {
+      return res.status(404).json({ error: `Conversation not found: ${conversationId}` });
+    }
+
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
@@ -51,6 +195,8 @@ app.post('/api/query/stream', async (req, res) => {
     const stream = ragPipeline.streamQuery(question, {
       useReranking,
       useHybridSearch,
+      conversationId,
+      ...retrievalOptions,
     });
 
     for await (const event of stream) {
@@ -73,21 +219,35 @@ app.post('/api/compare', async (req, res) => {
       return res.status(400).json({ error: 'Question is required' });
     }
 
-    const configurations = [
-      { name: 'Vector Search Only', useReranking: false, useHybridSearch: false },
-      { name: 'Hybrid Search', useReranking: false, useHybridSearch: true },
-      { name: 'Hybrid + Reranking', useReranking: true, useHybridSearch: true },
+    let retrievalOptions: ReturnType<typeof parseRetrievalOptions>;
+    try {
+      retrievalOptions = parseRetrievalOptions(req.body);
+    } catch (error) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+
+    const configurations: Array<{
+      name: string;
+      useReranking: boolean;
+      retrievalMode: RetrievalMode;
+    }> = [
+      { name: 'Vector Search Only', useReranking: false, retrievalMode: 'vector' },
+      { name: 'Keyword Search Only', useReranking: false, retrievalMode: 'keyword' },
+      { name: 'Hybrid Search', useReranking: false, retrievalMode: 'hybrid' },
+      { name: 'Hybrid + Reranking', useReranking: true, retrievalMode: 'hybrid' },
     ];
 
     const results = await Promise.all(
       configurations.map(async (config) => {
         const response = await ragPipeline.query(question, {
+          ...retrievalOptions,
           useReranking: config.useReranking,
-          useHybridSearch: config.useHybridSearch,
+          retrievalMode: config.retrievalMode,
         });
 
         return {
           configuration: config.name,
+          retrieval: response.retrieval,
           answer: response.answer,
           sources: response.sources.length,
           topSource: response.sources[0],
@@ -103,6 +263,235 @@ app.post('/api/compare', async (req, res) => {
   }
 });
 
+// Start a conversation for multi-turn queries
+app.post('/api/conversations', async (req, res) => {
+  try {
+    const conversation = await ragPipeline.createConversation();
+    res.status(201).json(conversation);
+  } catch (error) {
+    console.error('Create conversation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Conversation history, including the rewritten question for each turn
+app.get('/api/conversations/:id', async (req, res) => {
+  try {
+    const conversation = await ragPipeline.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+
+    res.json(conversation);
+  } catch (error) {
+    console.error('Get conversation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/conversations/:id', async (req, res) => {
+  try {
+    const deleted = await ragPipeline.deleteConversation(req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: `Conversation not found: ${req.params.id}` });
+    }
+
+    res.status(204).end();
+  } catch (error) {
+    console.error('Delete conversation error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Upload and ingest documents
+app.post(
+  '/api/documents',
+  (req, res, next) => {
+    upload.array('files', 20)(req, res, error => {
+      if (error) {
+        return res.status(400).json({ error: error.message });
+      }
+      next();
+    });
+  },
+  async (req, res) => {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+
+    try {
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'At least one file is required (field "files")' });
+      }
+
+      const chunkingPipeline = new ChunkingPipeline(
+        createChunkingStrategy(config.rag.chunkingStrategy)
+      );
+
+      // Load every file first so an unsupported or malformed one rejects the whole upload
+      const loaded = [];
+      for (const file of files) {
+        try {
+          loaded.push(await loadDocumentFromFile(file.path));
+        } catch (error) {
+          return res.status(400).json({ error: (error as Error).message });
+        }
+      }
+
+      const documents = [];
+      for (const doc of loaded) {
+        // Uploads live in a temp directory, so don't leak that path into metadata
+        delete doc.metadata.filePath;
+
+        // Re-uploading a source replaces its previous chunks, which stay until
+        // the new ones are stored
+        const chunks = await chunkingPipeline.processDocuments([doc]);
+        const replacedChunks = await replaceSource(ragStore, doc.metadata.source, chunks);
+
+        documents.push({
+          source: doc.metadata.source,
+          title: doc.metadata.title,
+          fileType: doc.metadata.fileType,
+          chunkCount: chunks.length,
+          replacedChunks,
+        });
+      }
+
+      res.status(201).json({ documents });
+    } catch (error) {
+      console.error('Document upload error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    } finally {
+      await Promise.all(
+        files.map(file => fs.rm(path.dirname(file.path), { recursive: true, force: true }))
+      );
+    }
+  }
+);
+
+// List ingested documents
+app.get('/api/documents', async (req, res) => {
+  try {
+    const documents = await ragPipeline.listSources();
+    res.json({
+      documents,
+      totalDocuments: documents.length,
+      totalChunks: documents.reduce((sum, doc) => sum + doc.chunkCount, 0),
+    });
+  } catch (error) {
+    console.error('List documents error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Delete all chunks of a document
+app.delete('/api/documents/:source', async (req, res) => {
+  try {
+    const { source } = req.params;
+    const deletedChunks = await ragPipeline.deleteSource(source);
+
+    if (deletedChunks === 0) {
+      return res.status(404).json({ error: `Document not found: ${source}` });
+    }
+
+    res.json({ source, deletedChunks });
+  } catch (error) {
+    console.error('Delete document error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// OpenAI-compatible model list
+app.get('/v1/models', (req, res) => {
+  res.json({
+    object: 'list',
+    data: ragModels.map(model => ({
+      id: model.id,
+      object: 'model',
+      created: 0,
+      owned_by: 'advanced-rag-demo',
+      description: model.description,
+    })),
+  });
+});
+
+// OpenAI-compatible chat completions backed by the RAG pipeline
+app.post('/v1/chat/completions', async (req, res) => {
+  const { messages, model: requestedModel, stream = false } = req.body;
+
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return res.status(400).json(openAIError('messages must be a non-empty array', 'messages'));
+  }
+
+  let query: ReturnType<typeof messagesToQuery>;
+  try {
+    query = messagesToQuery(messages as ChatMessage[]);
+  } catch (error) {
+    return res.status(400).json(openAIError((error as Error).message, 'messages'));
+  }
+
+  const model = resolveModel(requestedModel);
+  const modelName = requestedModel || model.id;
+  const id = completionId();
+  const options = {
+    useReranking: model.useReranking,
+    retrievalMode: model.retrievalMode,
+    history: query.history,
+  };
+
+  try {
+    if (!stream) {
+      const response = await ragPipeline.query(query.question, options);
+      return res.json(toChatCompletion(id, modelName, response.answer, response.sources));
+    }
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    const send = (payload: unknown) => res.write(`data: ${JSON.stringify(payload)}\n\n`);
+    send(toChatCompletionChunk(id, modelName, { role: 'assistant', content: '' }));
+
+    for await (const event of ragPipeline.streamQuery(query.question, options)) {
+      if (event.type === 'generation' && event.chunk) {
+        send(toChatCompletionChunk(id, modelName, { content: event.chunk }));
+      } else if (event.type === 'complete') {
+        const sources = event.data.sources.map(({ score, ...source }: any) => ({
+          ...source,
+          relevanceScore: score,
+        }));
+        send(toChatCompletionChunk(id, modelName, {}, 'stop', sources));
+      }
+    }
+
+    res.write('data: [DONE]\n\n');
+    res.end();
+  } catch (error) {
+    console.error('Chat completion error:', error);
+    if (res.headersSent) {
+      res.write(`data: ${JSON.stringify({ error: { message: 'Internal server error' } })}\n\n`);
+      return res.end();
+    }
+    res.status(500).json({ error: { message: 'Internal server error', type: 'server_error' } });
+  }
+});
+
+/** Syncs the watched documents directory once, then follows its changes. */
+async function watchDocuments(): Promise<void> {
+  const docsPath = path.resolve(config.ingestion.watchPath);
+  await fs.mkdir(docsPath, { recursive: true });
+
+  const ingestor = new DirectoryIngestor(docsPath, ragStore);
+  await ingestor.loadManifest();
+
+  const summary = await ingestor.sync();
+  console.log(
+    `📚 Synced ${docsPath}: ${summary.added.length} added, ${summary.updated.length} updated, ` +
+      `${summary.removed.length} removed, ${summary.unchanged.length} unchanged`
+  );
+  ingestor.watch();
+}
+
 async function startServer() {
   try {
     await ragPipeline.initialize();
@@ -114,6 +503,14 @@ Available endpoints:
   POST /api/query         - Standard RAG query
   POST /api/query/stream  - Streaming RAG query  
   POST /api/compare       - Compare different RAG configurations
+  POST /api/conversations - Start a multi-turn conversation
+  GET  /api/conversations/:id - Conversation history
+  DELETE /api/conversations/:id - Delete a conversation
+  POST /api/documents     - Upload and ingest documents (multipart "files")
+  GET  /api/documents     - List ingested documents
+  DELETE /api/documents/:source - Delete a document's chunks
+  POST /v1/chat/completions - OpenAI-compatible chat completions
+  GET  /v1/models         - OpenAI-compatible model list
   GET  /health           - Health check
 
 Features:
@@ -124,6 +521,10 @@ Features:
   ✅ Streaming responses
   ✅ Performance metrics
       `);
+
+      if (config.ingestion.watch) {
+        watchDocuments().catch(error => console.error('❌ Document watcher failed:', error));
+      }
     });
   } catch (error) {
     console.error('Failed to start server:', error);